@@ -2,49 +2,97 @@ import { Telegraf, Markup, Context } from 'telegraf';
 import { session } from 'telegraf';
 import * as dotenv from 'dotenv';
 // FIX: Changed import to include .js extension for successful module resolution in compiled environment (e.g., Node.js ESM in dist/)
-import { DlmmService } from './services/dlmmService.js'; 
+import { createDlmmService, FeeCompound, getSharedProvider } from './services/dlmmService.js'; 
+import { REBALANCE_STRATEGIES, RebalanceRecommendation, RebalanceStrategy, recommendRebalance } from './services/rebalanceEngine.js';
+import {
+  AutoRebalanceSettings,
+  createAutoRebalanceRule,
+  evaluateAutoRebalance,
+  findRulePosition,
+  recordAutoRebalance,
+} from './services/autoRebalancer.js';
 import { Keypair, PublicKey, Connection } from '@solana/web3.js';
 import bs58 from 'bs58';
 import * as http from 'http'; // Import Node.js HTTP module for the landing page server
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { createStore } from './services/storage.js';
+import { getPoolRegistry, BinRow } from './services/poolRegistry.js';
+import { binPrice, parsePriceRange, priceRangeToBinRange, removedBinRange } from './services/binMath.js';
+import { getTokenBalance } from './services/balances.js';
+import { PoolInfo } from './services/dlmmProvider.js';
+import { createKeyVault, KeyVault, WalletLockedError } from './services/keyVault.js';
+import { explorerTxUrl, isSettled, TxTracker } from './services/txTracker.js';
+import { PreflightResult } from './services/preflight.js';
+import { classifyError, DlmmErrorCode, InvalidInputError, PositionNotFoundError } from './services/errors.js';
+import { getRpcManager, listRpcManagers } from './services/rpcManager.js';
+import { getPriceSource } from './services/prices.js';
+import { PortfolioChange, portfolioChange, portfolioMints, valuePortfolio } from './services/portfolio.js';
+import { defaultNetwork, isSolanaNetwork, NETWORK_LABELS, SOLANA_NETWORKS } from './services/network.js';
+import { PollJob, PollScheduler } from './services/pollScheduler.js';
+import {
+  buildPnlReport,
+  createPositionSnapshot,
+  isPnlWindow,
+  PNL_WINDOWS,
+  PnlWindow,
+  pnlWindowStart,
+  PositionPnl,
+  snapshotPositionKey,
+} from './services/pnl.js';
+import { renderBinLiquidityChart, renderPositionHistoryChart } from './services/charts.js';
+import { buildExportRows, EXPORT_COLUMNS, EXPORT_FORMATS, EXPORT_SCHEMA_VERSION, ExportFormat, toCsv, toJson } from './services/export.js';
+import { alertPools, createAlertRule, DEFAULT_ALERT_COOLDOWN_MINUTES, describeAlertRule, evaluateAlertRules } from './services/alertRules.js';
+import { buildDigestReport, DIGEST_WEEKDAYS, isDigestDue, nextDigestSlot } from './services/digest.js';
+import { formatPrometheus, LabeledCounter, Metric } from './services/metrics.js';
+import {
+  WalletData,
+  PositionData,
+  RebalanceOperation,
+  AutoRebalanceRule,
+  AddLiquidityWizardState,
+  AddLiquidityWizardStep,
+  TrackedTransaction,
+  TransactionKind,
+  TransactionStatus,
+  SolanaNetwork,
+  AlertRule,
+  QuietHours,
+  DigestSettings,
+  createDefaultUserState,
+} from './types.js';
 
 dotenv.config();
 
-// WARNING: Global in-memory storage. All wallet and state data will be lost if the bot is restarted.
-// For production use, this data must be persisted using a database.
-
-// Types
-interface WalletData {
-  publicKey: string;
-  privateKey: string;
-}
-
-interface PositionData {
-  pool: string;
-  lowerBin: number;
-  upperBin: number;
-  liquidity: number; // Changed to number for cleaner comparison
-  feesEarned: number; // Changed to number for cleaner comparison
+interface SessionData {
+  wallet?: WalletData;
+  waitingForWalletImport?: boolean;
+  rebalancePlans?: RebalanceRecommendation[]; // Last suggestions shown, referenced by the Apply buttons
+  selectedPool?: string; // Pool picked from the pools list, used when /add_liquidity omits the pool
+  addLiquidityWizard?: AddLiquidityWizardState;
+  pendingLiquidity?: PendingLiquidityTx; // Passed its preflight check, waiting for the user to confirm
 }
 
-interface UserState {
-  lastBalance: number;
-  lastPositions: PositionData[]; // Use the defined type
-  lastSignatures: string[];
-  network: string;
-  lastFaucetTime?: number; // Track last faucet request
-}
+type PendingLiquidityTx =
+  | { kind: 'add_liquidity'; pool: string; lowerBin: number; upperBin: number; amountX: string; amountY: string }
+  | { kind: 'remove_liquidity'; position: string; amount: string };
 
 // Extend Telegraf's Context with session properties
 interface MyContext extends Context {
-  session: {
-    wallet?: WalletData;
-    waitingForWalletImport?: boolean;
-  };
+  session: SessionData;
+  network: SolanaNetwork; // The user's chosen cluster, loaded for every update
 }
 
-// Global state
-const wallets: Record<number, WalletData> = {};
-const states: Record<number, UserState> = {};
+// Persistent storage for wallets and alert state (survives restarts/redeploys)
+const store = createStore();
+
+// Stored private keys are encrypted at rest; signing keypairs only come out of the vault
+let keyVault: KeyVault;
+try {
+  keyVault = createKeyVault();
+} catch (error) {
+  console.error('Error:', (error as Error).message);
+  process.exit(1);
+}
 
 const botToken = process.env.TELEGRAM_BOT_TOKEN;
 if (!botToken) {
@@ -52,11 +100,8 @@ if (!botToken) {
   process.exit(1);
 }
 
-const RPC_URL = process.env.SOLANA_RPC_URL || 'https://api.devnet.solana.com';
-const FALLBACK_RPC_URL = process.env.SOLANA_FALLBACK_RPC_URL || 'https://devnet.genesysgo.net'; // Fallback RPC
-const connection = new Connection(RPC_URL, 'confirmed');
-
-const dlmmService = new DlmmService();
+// Telegram user IDs allowed to run operator commands such as /status
+const ADMIN_USER_IDS = new Set((process.env.ADMIN_USER_IDS || '').split(',').map((id) => Number(id.trim())).filter(Boolean));
 
 /**
  * Escapes all reserved MarkdownV2 characters that break plain text.
@@ -69,6 +114,11 @@ const escapeMarkdownV2 = (text: string): string => {
   return text.replace(/([_*[\]()~`>#+\-=|{}.!\\/])/g, '\\$1'); 
 };
 
+// Heads every mainnet screen, so real funds are never mistaken for test funds
+const MAINNET_BADGE = '🔴 MAINNET: real funds';
+const networkBadge = (network: SolanaNetwork, markdown: boolean) =>
+  network === 'mainnet-beta' ? `${markdown ? `*${escapeMarkdownV2(MAINNET_BADGE)}*` : MAINNET_BADGE}\n\n` : '';
+
 // --- Shared Utility Functions ---
 
 /**
@@ -82,667 +132,3042 @@ const replyWalletMissing = (ctx: MyContext) => {
 };
 
 
-// Shared logic for positions
-async function getPositions(userWallet: PublicKey) {
+/**
+ * Decrypts the user's signing keypair through the key vault.
+ * Replies with unlock instructions and returns null if the wallet is passphrase-locked.
+ */
+const getSigningKeypair = (ctx: MyContext) => {
   try {
-    // Initialize the service for read operations
-    await dlmmService.init('', userWallet); 
-    const positions = await dlmmService.getPositions(userWallet);
-    
-    if (!positions.length) {
-      return escapeMarkdownV2('You don\'t have any positions yet. Try adding some liquidity!');
-    }
-    
-    // Construct the string, escaping the dynamic parts (addresses, numbers)
-    return positions
-        .map(
-          (p, i) =>
-            `*Position ${i + 1}*\n` +
-            `Pool: ${escapeMarkdownV2(p.pool)}\n` +
-            `Range: ${p.lowerBin} to ${p.upperBin}\n` +
-            `Liquidity: ${escapeMarkdownV2(p.liquidity.toFixed(4))} SOL\n` + // FIX: Escaping the formatted number which contains '.'
-            `Fees: ${escapeMarkdownV2(p.feesEarned.toFixed(4))} SOL` // FIX: Escaping the formatted number which contains '.'
-        )
-        .join('\n\n');
+    return keyVault.getKeypair(ctx.from!.id, ctx.session.wallet!);
   } catch (error) {
-    console.error('getPositions error:', error);
-    const errorMessage = (error as Error).message || 'an unknown error occurred';
-    return escapeMarkdownV2(`Sorry, we couldn’t check your positions right now. Error: ${errorMessage}. Try again later.`);
-  }
-}
-
-// Shared logic for rebalance
-async function getRebalanceSuggestion(userWallet: PublicKey) {
-  try {
-    await dlmmService.init('', userWallet);
-    const positions = await dlmmService.getPositions(userWallet);
-    if (!positions.length) {
-      return escapeMarkdownV2('You don’t have any positions to rebalance. Add liquidity first!');
+    if (error instanceof WalletLockedError) {
+      ctx.reply(
+        escapeMarkdownV2('Your wallet is locked with a passphrase. Send /unlock <passphrase> to unlock it for a while, then try again.'),
+        { parse_mode: 'MarkdownV2' }
+      );
+      return null;
     }
-    // Assuming suggestRebalance returns a descriptive string
-    return dlmmService.suggestRebalance(positions[0]); // Service handles escaping
-  } catch (error) {
-    console.error('getRebalanceSuggestion error:', error);
-    const errorMessage = (error as Error).message || 'an unknown error occurred';
-    return escapeMarkdownV2(`Sorry, we couldn’t suggest a rebalance right now. Error: ${errorMessage}. Try again later.`);
+    throw error;
   }
-}
+};
 
-// Function to get wallet overview
-async function getWalletOverview(userWallet: PublicKey) {
+/**
+ * Parses an address typed by the user, throwing InvalidInputError naming what it was meant to be.
+ */
+const parseAddress = (value: string, label: string) => {
   try {
-    await dlmmService.init('', userWallet);
-    const balance = await connection.getBalance(userWallet) / 1e9; // Fetch actual balance
-    const escapedBalance = escapeMarkdownV2(balance.toFixed(4)); // FIX: Escaping the formatted number which contains '.'
-    const address = escapeMarkdownV2(userWallet.toString()); // Escape the address
-    const positions = await dlmmService.getPositions(userWallet);
-    
-    const poolDetails = positions.length
-      ? positions
-          .map(
-            (p) => {
-              const safePool = escapeMarkdownV2(p.pool); // Fully escape the pool string first
-              const safeLiquidity = escapeMarkdownV2(p.liquidity.toFixed(4)); // FIX: Escaping the formatted number which contains '.'
-              return `Pool: ${safePool}, Range: ${p.lowerBin} to ${p.upperBin}, Liquidity: ${safeLiquidity} SOL`;
-            }
-          )
-          .join('\n')
-      : 'No pools yet. Add liquidity to join one!';
-      
-    // Return the escaped message content
-    return escapeMarkdownV2(
-      `Your Wallet Info\n` +
-      `Address: ${address}\n` +
-      `Balance: ${escapedBalance} SOL\n` + 
-      `Pools:\n${poolDetails}`
-    ); 
+    return new PublicKey(value);
   } catch (error) {
-    console.error('getWalletOverview error:', error);
-    const errorMessage = (error as Error).message || 'an unknown error occurred';
-    return escapeMarkdownV2(`Sorry, we couldn’t load your wallet info. Error: ${errorMessage}. Try again later.`);
+    throw new InvalidInputError(`The ${label} "${value}" is not a valid Solana address`, { cause: error });
   }
-}
+};
+
+// What to tell the user for each typed error, and the buttons for the likely next step
+const ERROR_HELP: Record<DlmmErrorCode, { hint: string; buttons: Array<[label: string, action: string]> }> = {
+  INVALID_INPUT: {
+    hint: 'Something in the request isn’t valid. Check the values and try again.',
+    buttons: [['Go to menu', 'menu']],
+  },
+  INSUFFICIENT_FUNDS: {
+    hint: 'Your wallet doesn’t hold enough to cover this, including network fees and account rent. Top it up and try again (on devnet, /faucet sends test SOL).',
+    buttons: [['Request Test Tokens', 'request_tokens'], ['Check my wallet', 'wallet_overview']],
+  },
+  RPC_UNAVAILABLE: {
+    hint: 'The Solana network isn’t responding right now. Try again in a minute; /tx shows whether anything you sent went through.',
+    buttons: [['Go to menu', 'menu']],
+  },
+  SLIPPAGE_EXCEEDED: {
+    hint: 'The price moved too far while your transaction was processed, so it was rejected. Check the pool’s current price and try again.',
+    buttons: [['Browse pools', 'pools'], ['Go to menu', 'menu']],
+  },
+  POSITION_NOT_FOUND: {
+    hint: 'That position no longer exists. It may have been closed already.',
+    buttons: [['See my positions', 'positions']],
+  },
+  NOT_INITIALIZED: {
+    hint: 'Something this needs isn’t set up yet, such as your wallet or the pool’s on-chain accounts. Use /start to set up your wallet, or try another pool.',
+    buttons: [['Go to menu', 'menu']],
+  },
+};
 
 /**
- * Robust retry function for airdrop with enhanced error handling.
+ * The one place failures become user-facing text: recognised errors get a specific hint and next-step buttons,
+ * anything else the generic "try again later". `action` completes "Sorry, we couldn’t ...".
  */
-async function requestAirdropWithRetry(conn: Connection, publicKey: PublicKey, lamports: number, retries = 3, delayMs = 2000) {
-  for (let attempt = 1; attempt <= retries; attempt++) {
+const describeError = (error: unknown, action: string) => {
+  const message = (error as Error)?.message || 'an unknown error occurred';
+  const code = classifyError(error);
+  if (!code) return { text: `Sorry, we couldn’t ${action}. Error: ${message}. Try again later.`, buttons: [] as Array<[string, string]> };
+  return { text: `Sorry, we couldn’t ${action}. ${ERROR_HELP[code].hint}\n\nDetails: ${message}`, buttons: ERROR_HELP[code].buttons };
+};
+
+/**
+ * Replies with the mapped error message. `extraButtons` come first, e.g. a Cancel button for a flow in progress.
+ */
+const replyError = (ctx: MyContext, error: unknown, action: string, extraButtons: Array<[string, string]> = []) => {
+  const { text, buttons } = describeError(error, action);
+  // The faucet only exists on devnet
+  const offered = buttons.filter(([, data]) => data !== 'request_tokens' || ctx.network === 'devnet');
+  const rows = [...extraButtons, ...offered].map(([label, data]) => [Markup.button.callback(label, data)]);
+  return ctx.reply(escapeMarkdownV2(text), { parse_mode: 'MarkdownV2', ...(rows.length ? Markup.inlineKeyboard(rows) : {}) });
+};
+
+/**
+ * Re-encrypts any wallets that were stored with a plaintext private key before the key vault existed.
+ */
+async function migrateLegacyWallets() {
+  for (const [userId, wallet, network] of await store.listWallets()) {
+    if (!keyVault.needsMigration(wallet)) continue;
     try {
-      const signature = await conn.requestAirdrop(publicKey, lamports);
-      // Wait for confirmation to ensure the airdrop is processed
-      const confirmation = await conn.confirmTransaction(signature, 'confirmed');
-      if (confirmation.value.err) {
-          throw new Error(`Transaction failed to confirm: ${JSON.stringify(confirmation.value.err)}`);
-      }
-      return signature;
+      await store.saveWallet(userId, network, keyVault.migrateWallet(wallet));
+      console.log(`Encrypted legacy wallet key for user ${userId}`);
     } catch (error) {
-      const err = error as any;
-      const rpcUrl = (conn as any)._rpcEndpoint; // Get the URL used for logging
-      console.error(`Airdrop attempt ${attempt} on ${rpcUrl} failed: ${err.message}`);
-      
-      if (attempt === retries) {
-        throw err; 
-      }
-      // Implement exponential backoff for retries
-      await new Promise((resolve) => setTimeout(resolve, delayMs * Math.pow(2, attempt - 1)));
+      console.error(`Failed to migrate legacy wallet for user ${userId}:`, (error as Error).message);
     }
   }
-  throw new Error('Airdrop failed after all retries.'); 
 }
 
-// Initialize Telegraf bot and session middleware
-const bot = new Telegraf<MyContext>(botToken);
-bot.use(session());
+// Shared logic for positions
 
-// Logging middleware
-bot.use((ctx, next) => {
-  const userId = ctx.from?.id || 'unknown';
-  if (ctx.callbackQuery && 'data' in ctx.callbackQuery) {
-    console.log(`User ${userId} clicked button: ${ctx.callbackQuery.data}`);
-  } else if (ctx.message && 'text' in ctx.message) { // Explicitly check if it's a text message for logging
-    console.log(`User ${userId} sent message: ${ctx.message.text}`);
+/**
+ * The position's range as prices, e.g. " (140.2 to 165.3 USDC per SOL)", or '' if the pool can't be loaded.
+ */
+async function describePriceRange(p: PositionData, network: SolanaNetwork) {
+  try {
+    const pool = await getPoolRegistry(network).getPool(p.pool);
+    const low = binPrice(pool.price, pool.binStep, p.lowerBin, pool.activeBin);
+    const high = binPrice(pool.price, pool.binStep, p.upperBin, pool.activeBin);
+    return ` (${formatAmount(low)} to ${formatAmount(high)} ${pool.tokenY.symbol} per ${pool.tokenX.symbol})`;
+  } catch {
+    return '';
   }
-  return next();
-});
+}
 
-// Wallet loading middleware
-bot.use((ctx, next) => {
-  const userId = ctx.from?.id;
-  if (userId) {
-    if (!ctx.session) ctx.session = {}; 
-    
-    // Attempt to restore wallet from global map if session is new or missing wallet data
-    if (wallets[userId] && !ctx.session.wallet) {
-      ctx.session.wallet = wallets[userId];
+// Saros DLMM adds swap fees to the position's bins instead of holding them for claiming
+const FEES_IN_BINS_NOTE =
+  'On this DLMM, swap fees are added to your position’s bins rather than held for claiming, so there is nothing separate to claim: ' +
+  'they are part of the position’s value and come out when you remove liquidity.';
+
+/**
+ * Whether positions on this network report uncollected fees that can be claimed.
+ */
+const claimsFees = (network: SolanaNetwork) => getSharedProvider(network).claimsFees;
+
+const formatPosition = (p: PositionData, index: number, priceRange: string, feesReported = true) =>
+  `*Position ${index + 1}* \\(${escapeMarkdownV2(`${p.tokenX}/${p.tokenY}`)}\\)\n` +
+  `Pool: ${escapeMarkdownV2(p.pool)}\n` +
+  (p.position ? `Address: ${escapeMarkdownV2(p.position)}\n` : '') +
+  `Range: ${escapeMarkdownV2(`${p.lowerBin} to ${p.upperBin}${priceRange}`)}\n` +
+  `Holding: ${escapeMarkdownV2(`${formatAmount(p.amountX)} ${p.tokenX} + ${formatAmount(p.amountY)} ${p.tokenY}`)}\n` +
+  `Liquidity: ${escapeMarkdownV2(`${formatAmount(p.liquidity)} ${p.tokenY}`)}\n` +
+  `Fees: ${escapeMarkdownV2(feesReported ? p.feesEarned.toFixed(4) : 'added to the position’s bins')}`;
+
+/**
+ * Per-position buttons. Callbacks carry the position address, so they keep working if the list order changes.
+ */
+const positionKeyboard = (p: PositionData, withMenu: boolean, feeActions = true) => {
+  const rows = p.position
+    ? [
+        [25, 50, 100].map((percent) => Markup.button.callback(`Remove ${percent}%`, `pos_rm:${p.position}:${percent}`)),
+        ...(feeActions
+          ? [[Markup.button.callback('Claim fees', `pos_claim:${p.position}`), Markup.button.callback('Compound fees', `pos_comp:${p.position}`)]]
+          : []),
+        [
+          Markup.button.callback('Rebalance', `pos_rebal:${p.position}`),
+          Markup.button.callback('Details', `pos_info:${p.position}`),
+        ],
+        [
+          Markup.button.callback('Value chart', `pos_chart:${p.position}`),
+          Markup.button.callback('Liquidity chart', `pos_bins:${p.position}`),
+        ],
+      ]
+    : [];
+  return Markup.inlineKeyboard(
+    withMenu
+      ? [...rows, ...(feeActions ? [[Markup.button.callback('Claim all fees', 'claim_all')]] : []), [Markup.button.callback('Go to menu', 'menu')]]
+      : rows
+  );
+};
+
+/**
+ * Sends one message per position, each with its own action buttons.
+ */
+async function replyPositions(ctx: MyContext) {
+  // Read-only service context for this user
+  const dlmmService = createDlmmService({ user: new PublicKey(ctx.session.wallet!.publicKey), network: ctx.network });
+  const positions = await dlmmService.getPositions();
+
+  if (!positions.length) {
+    ctx.reply(escapeMarkdownV2('You don\'t have any positions yet. Try adding some liquidity!'), {
+      parse_mode: 'MarkdownV2',
+      ...Markup.inlineKeyboard([[Markup.button.callback('Go to menu', 'menu')]]),
+    });
+    return;
+  }
+
+  const priceRanges = await Promise.all(positions.map((p) => describePriceRange(p, ctx.network)));
+  const feesReported = claimsFees(ctx.network);
+  for (const [i, p] of positions.entries()) {
+    await ctx.reply(formatPosition(p, i, priceRanges[i], feesReported), {
+      parse_mode: 'MarkdownV2',
+      ...positionKeyboard(p, i === positions.length - 1, feesReported),
+    });
+  }
+}
+
+/**
+ * Records collected fees (and re-deposits of compounded fees) as tracked transactions, for /tx and /export.
+ * A failure here is only logged: the fees were collected either way.
+ */
+const recordFeeClaims = (ctx: MyContext, claims: FeeCompound[]) =>
+  Promise.all(
+    claims.flatMap((claim) => {
+      const params = { pool: claim.pool, position: claim.position, amountX: claim.amountX, amountY: claim.amountY };
+      const track = (kind: TransactionKind, signature: string, extra: Record<string, string> = {}) =>
+        txTracker.track(ctx.from!.id, { kind, params: { ...params, ...extra }, signature, network: ctx.network });
+      return [track('claim_fees', claim.signature), ...(claim.addSignature ? [track('add_liquidity', claim.addSignature, { source: 'compound' })] : [])];
+    })
+  ).catch((error) => console.error(`Failed to record fee claims for user ${ctx.from!.id}:`, error));
+
+const formatReceived = (claim: FeeCompound) =>
+  `${formatAmount(claim.amountX)} ${claim.tokenX} and ${formatAmount(claim.amountY)} ${claim.tokenY}`;
+
+// Explorer links to a claim's transactions, as MarkdownV2
+const feeClaimLinks = (claim: FeeCompound, network: SolanaNetwork) =>
+  [
+    ['claim', claim.signature],
+    ...(claim.addSignature ? [['re-add', claim.addSignature]] : []),
+  ]
+    .map(([label, signature]) => `${escapeMarkdownV2(`${label}: `)}[${escapeMarkdownV2(`${signature.slice(0, 10)}...`)}](${explorerTxUrl(signature, network)})`)
+    .join(', ');
+
+/**
+ * Claims or compounds fees for one position (by address) or for every position, then reports the amounts received.
+ */
+async function collectFees(ctx: MyContext, compound: boolean, address?: string) {
+  if (!claimsFees(ctx.network)) {
+    ctx.reply(escapeMarkdownV2(FEES_IN_BINS_NOTE), {
+      parse_mode: 'MarkdownV2',
+      ...Markup.inlineKeyboard([[Markup.button.callback('See my positions', 'positions')], [Markup.button.callback('Go to menu', 'menu')]]),
+    });
+    return;
+  }
+  const keypair = getSigningKeypair(ctx);
+  if (!keypair) return;
+  const dlmmService = createDlmmService({ user: keypair, network: ctx.network });
+  const verb = compound ? 'compounded' : 'claimed';
+  const doneKeyboard = Markup.inlineKeyboard([[Markup.button.callback('See my positions', 'positions')], [Markup.button.callback('Go to menu', 'menu')]]);
+
+  if (address) {
+    const found = await findUserPosition(ctx, address);
+    const result: FeeCompound = compound ? await dlmmService.compoundFees(found.position) : await dlmmService.claimFees(found.position);
+    await recordFeeClaims(ctx, [result]);
+    let text = `Fees ${verb} for position ${found.index + 1}. Received ${formatReceived(result)}.`;
+    if (compound && result.error) {
+      text = `Fees claimed for position ${found.index + 1} (${formatReceived(result)}), but re-adding them failed: ${result.error}. The fees are in your wallet.`;
     }
+    ctx.reply(`${escapeMarkdownV2(text)}\n${escapeMarkdownV2('Transactions: ')}${feeClaimLinks(result, ctx.network)}`, {
+      parse_mode: 'MarkdownV2',
+      link_preview_options: { is_disabled: true },
+      ...doneKeyboard,
+    });
+    return;
   }
-  return next();
-});
 
-// Start command
-bot.start(async (ctx) => {
-  if (!ctx.session.wallet) {
-    ctx.reply(
-      escapeMarkdownV2('Welcome! You need to set up a wallet first. Choose an option to get started:'),
-      {
-        ...Markup.inlineKeyboard([
-          [Markup.button.callback('Create a new wallet', 'create_wallet')],
-          [Markup.button.callback('Import a wallet', 'import_wallet')],
-        ]),
-        parse_mode: 'MarkdownV2',
-      }
-    );
+  const { claims, failures } = await dlmmService.claimAllFees(compound);
+  await recordFeeClaims(ctx, claims);
+  if (!claims.length && !failures.length) {
+    ctx.reply(escapeMarkdownV2('None of your positions have fees to collect right now.'), { parse_mode: 'MarkdownV2', ...doneKeyboard });
     return;
   }
 
+  // Totals per token symbol across all positions
+  const totals = new Map<string, number>();
+  for (const claim of claims) {
+    totals.set(claim.tokenX, (totals.get(claim.tokenX) || 0) + claim.amountX);
+    totals.set(claim.tokenY, (totals.get(claim.tokenY) || 0) + claim.amountY);
+  }
+  const lines = [
+    ...claims.map(
+      (claim) =>
+        escapeMarkdownV2(`${claim.position.slice(0, 8)}...: ${formatReceived(claim)}` + (claim.error ? ` (not re-added: ${claim.error})` : '')) +
+        ` \\(${feeClaimLinks(claim, ctx.network)}\\)`
+    ),
+    ...failures.map((failure) => escapeMarkdownV2(`${failure.position.slice(0, 8)}...: failed, ${failure.error}`)),
+  ];
+  const totalText = [...totals.entries()].map(([symbol, amount]) => `${formatAmount(amount)} ${symbol}`).join(', ');
   ctx.reply(
-    escapeMarkdownV2(`Welcome back! Your wallet is ready: ${ctx.session.wallet.publicKey}. Pick an action:`),
-    {
-      ...Markup.inlineKeyboard([
-        [Markup.button.callback('See my positions', 'positions')],
-        [Markup.button.callback('Add liquidity', 'add_liquidity')],
-        [Markup.button.callback('Remove liquidity', 'remove_liquidity')],
-        [Markup.button.callback('Get rebalance tips', 'rebalance')],
-        [Markup.button.callback('Check my wallet', 'wallet_overview')],
-        [Markup.button.callback('View pools', 'pools')],
-        [Markup.button.callback('Request Faucet', 'request_tokens')], 
-      ]),
-      parse_mode: 'MarkdownV2',
-    }
+    escapeMarkdownV2(`Fees ${verb} from ${claims.length} position(s)${failures.length ? `, ${failures.length} failed` : ''}.`) +
+      `\n\n${lines.join('\n')}\n\n` +
+      escapeMarkdownV2(`Total received: ${totalText || 'nothing'}`),
+    { parse_mode: 'MarkdownV2', link_preview_options: { is_disabled: true }, ...doneKeyboard }
   );
+}
+
+/**
+ * Looks up one of the user's positions by address. Throws PositionNotFoundError if it no longer exists.
+ */
+async function findUserPosition(ctx: MyContext, address: string) {
+  const positions = await createDlmmService({ user: new PublicKey(ctx.session.wallet!.publicKey), network: ctx.network }).getPositions();
+  const index = positions.findIndex((p) => p.position === address);
+  if (index === -1) throw new PositionNotFoundError(`Position ${address} not found among your positions`);
+  return { position: positions[index], index };
+}
+
+// Transaction tracking
+
+const TX_KIND_LABELS: Record<TransactionKind, string> = {
+  add_liquidity: 'Add liquidity',
+  remove_liquidity: 'Remove liquidity',
+  claim_fees: 'Claim fees',
+};
+
+const TX_STATUS_LABELS: Record<TransactionStatus, string> = {
+  pending: '⏳ Submitted, waiting for the network',
+  processed: '⏳ Processed, waiting for confirmation',
+  confirmed: '✅ Confirmed, waiting for finalization',
+  finalized: '✅ Finalized',
+  failed: '❌ Failed',
+  expired: '⌛ Expired. It never landed, so nothing was spent. You can safely try again.',
+};
+
+// Confirmed transactions that never reported finalized are settled without waiting any longer
+const txStatusLabel = (tx: TrackedTransaction) => (tx.settledAt !== undefined ? '✅ Confirmed' : TX_STATUS_LABELS[tx.status]);
+
+const describeTxParams = (tx: TrackedTransaction) => {
+  const { params } = tx;
+  if (tx.kind === 'add_liquidity' && params.source === 'compound') {
+    return `Fees re-added to position ${String(params.position).slice(0, 8)}..., amounts ${params.amountX} / ${params.amountY}`;
+  }
+  if (tx.kind === 'add_liquidity') {
+    return `Bins ${params.lowerBin} to ${params.upperBin}, amounts ${params.amountX} / ${params.amountY}`;
+  }
+  if (tx.kind === 'claim_fees') {
+    return `Position ${String(params.position).slice(0, 8)}..., received ${params.amountX} / ${params.amountY}`;
+  }
+  return `Position ${String(params.position).slice(0, 8)}..., amount ${params.amount}`;
+};
+
+const formatTrackedTransaction = (tx: TrackedTransaction) =>
+  networkBadge(tx.network, true) +
+  escapeMarkdownV2(
+    `${TX_KIND_LABELS[tx.kind]}: ${txStatusLabel(tx)}\n${describeTxParams(tx)}` +
+      (tx.error ? `\nError: ${tx.error}` : '') +
+      `\nTransaction Signature: ${tx.signature}`
+  ) + `\n[View on Solana Explorer](${explorerTxUrl(tx.signature, tx.network)})`;
+
+// Keeps each transaction's status message up to date until it settles
+const txTracker = new TxTracker(store, {
+  getStatus: (signature, network) => getSharedProvider(network).getTransactionStatus(signature),
+  onUpdate: async (tx) => {
+    if (tx.chatId === undefined || tx.messageId === undefined) return;
+    await bot.telegram.editMessageText(tx.chatId, tx.messageId, undefined, formatTrackedTransaction(tx), {
+      parse_mode: 'MarkdownV2',
+      link_preview_options: { is_disabled: true },
+      ...(isSettled(tx)
+        ? Markup.inlineKeyboard([[Markup.button.callback('See my positions', 'positions')], [Markup.button.callback('Go to menu', 'menu')]])
+        : {}),
+    });
+  },
 });
 
-bot.action('create_wallet', async (ctx) => {
-  await ctx.answerCbQuery();
-  const userId = ctx.from!.id;
-  const keypair = Keypair.generate();
-  const publicKey = keypair.publicKey.toString();
-  const privateKeyBase58 = bs58.encode(keypair.secretKey);
+/**
+ * What a preflight check expects to happen: tokens in and out, costs, and why it would fail if it would.
+ */
+const formatPreflight = (preflight: PreflightResult) => {
+  const sent = preflight.deltas.filter((d) => d.amount < 0).map((d) => `${formatAmount(-d.amount)} ${d.symbol}`);
+  const received = preflight.deltas.filter((d) => d.amount > 0).map((d) => `${formatAmount(d.amount)} ${d.symbol}`);
+  const unsimulated = preflight.transactionCount - preflight.simulatedCount;
+  return [
+    preflight.ok ? 'Preflight check: ✅ the simulation passed.' : `Preflight check: ❌ this would fail. ${preflight.failure!.message}.`,
+    ...(sent.length ? [`You send: ${sent.join(' and ')}`] : []),
+    ...(received.length ? [`You receive about: ${received.join(' and ')}`] : []),
+    `Network fees: ~${(preflight.feeLamports / 1e9).toFixed(6)} SOL` +
+      (preflight.rentLamports ? `, account rent: ~${(preflight.rentLamports / 1e9).toFixed(6)} SOL` : ''),
+    `Compute units: ${preflight.computeUnits.toLocaleString('en-US')} over ${preflight.transactionCount} transaction(s)` +
+      (unsimulated ? ` (${unsimulated} use accounts created by an earlier one and are checked when sent)` : ''),
+  ].join('\n');
+};
 
-  ctx.session.wallet = { publicKey, privateKey: privateKeyBase58 };
-  wallets[userId] = ctx.session.wallet;
-  
+/**
+ * Runs the preflight check for a liquidity transaction and shows it as a confirmation screen.
+ * Only a transaction that passes is kept for the Confirm button; one that would fail can't be sent.
+ */
+async function confirmLiquidityTx(ctx: MyContext, pending: PendingLiquidityTx) {
+  const owner = new PublicKey(ctx.session.wallet!.publicKey);
+  let summary: string;
+  let preflight: PreflightResult;
+  if (pending.kind === 'add_liquidity') {
+    const { pool, lowerBin, upperBin, amountX, amountY } = pending;
+    summary = `Add ${amountX} / ${amountY} to pool ${pool.slice(0, 8)}..., bins ${lowerBin} to ${upperBin}?`;
+    preflight = await createDlmmService({ user: owner, poolAddress: pool, network: ctx.network }).preflightAddLiquidity(lowerBin, upperBin, amountX, amountY);
+  } else {
+    summary = `Remove ${pending.amount}% of position ${pending.position.slice(0, 8)}...?`;
+    preflight = await createDlmmService({ user: owner, network: ctx.network }).preflightRemoveLiquidity(new PublicKey(pending.position), pending.amount);
+  }
+
+  if (preflight.ok) ctx.session.pendingLiquidity = pending;
+  else delete ctx.session.pendingLiquidity;
+  ctx.reply(escapeMarkdownV2(`${summary}\n\n${formatPreflight(preflight)}`), {
+    parse_mode: 'MarkdownV2',
+    ...Markup.inlineKeyboard(
+      preflight.ok
+        ? [[Markup.button.callback('Confirm and send', 'ltx_send')], [Markup.button.callback('Cancel', 'ltx_cancel')]]
+        : [[Markup.button.callback('Go to menu', 'menu')]]
+    ),
+  });
+}
+
+/**
+ * Posts a status message, submits the transaction and hands it to the tracker, which edits the message as it confirms.
+ * If submitting fails the status message is removed and the error is rethrown for the caller's error reply.
+ */
+async function submitTracked(
+  ctx: MyContext,
+  kind: TransactionKind,
+  params: Record<string, string | number>,
+  submit: () => Promise<string>
+) {
+  const message = await ctx.reply(escapeMarkdownV2(`${TX_KIND_LABELS[kind]}: ⏳ submitting your transaction...`), { parse_mode: 'MarkdownV2' });
+  let signature: string;
   try {
-    const balance = await connection.getBalance(new PublicKey(publicKey)) / 1e9;
-    const escapedBalance = escapeMarkdownV2(balance.toFixed(4));
-    
-    ctx.reply(
-      escapeMarkdownV2(
-        `New wallet created! Your public key is: ${publicKey}\n` +
-        `Keep this private key safe: ${privateKeyBase58}\n` +
-        `*Please don’t share it with anyone!* (Except for testing in this sandbox.)\n` +
-        `Initial balance: ${escapedBalance} SOL. No positions or pools yet.`),
-      {
-        ...Markup.inlineKeyboard([
-          [Markup.button.callback('Request Test Tokens', 'request_tokens')],
-          [Markup.button.callback('Go to menu', 'menu')],
-        ]),
-        parse_mode: 'MarkdownV2',
-      }
-    );
+    signature = await submit();
   } catch (error) {
-    console.error('Initial balance check failed:', error);
-    ctx.reply(
-      escapeMarkdownV2(`New wallet created, but we couldn't check the balance due to a network error. Public key: ${publicKey}`),
-      {
-        ...Markup.inlineKeyboard([
-          [Markup.button.callback('Request Test Tokens', 'request_tokens')],
-          [Markup.button.callback('Go to menu', 'menu')],
-        ]),
-        parse_mode: 'MarkdownV2',
-      }
-    );
+    await ctx.deleteMessage(message.message_id).catch(() => undefined);
+    throw error;
   }
-});
+  return txTracker.track(ctx.from!.id, {
+    kind,
+    params,
+    signature,
+    network: ctx.network,
+    chatId: message.chat.id,
+    messageId: message.message_id,
+  });
+}
 
-bot.action('import_wallet', async (ctx) => {
-  await ctx.answerCbQuery();
-  ctx.session.waitingForWalletImport = true;
-  ctx.reply(
-    escapeMarkdownV2(
-      'Import your wallet by sending your private key (Base58 encoded, e.g., "dev123..."). ' +
-      'This is just for testing—use secure methods in real use!'
-    ),
-    { parse_mode: 'MarkdownV2' }
+const STRATEGY_LABELS: Record<RebalanceStrategy, string> = {
+  spot: 'Spot',
+  curve: 'Curve',
+  'bid-ask': 'Bid-Ask',
+};
+
+/**
+ * Renders a rebalance recommendation from the engine as MarkdownV2.
+ */
+const formatRebalanceRecommendation = (rec: RebalanceRecommendation, index: number) => {
+  const signedBins = `${rec.driftBins >= 0 ? '+' : ''}${rec.driftBins.toFixed(1)}`;
+  const signedPercent = `${rec.driftPercent >= 0 ? '+' : ''}${rec.driftPercent.toFixed(2)}`;
+  return (
+    `*Position ${index + 1}* ${rec.inRange ? '✅ In range' : '⚠️ Out of range'}\n` +
+    `Pool: ${escapeMarkdownV2(rec.pool)}\n` +
+    `Current range: ${escapeMarkdownV2(`${rec.currentRange.lowerBin} to ${rec.currentRange.upperBin}`)} \\| Active bin: ${escapeMarkdownV2(String(rec.activeBin))}\n` +
+    `Drift from centre: ${escapeMarkdownV2(`${signedBins} bins (${signedPercent}%)`)}\n` +
+    (rec.action === 'rebalance'
+      ? `*Suggestion: rebalance* \\(${escapeMarkdownV2(STRATEGY_LABELS[rec.strategy])}\\)\n` +
+        `${escapeMarkdownV2(rec.reason)}\n` +
+        `Proposed range: ${escapeMarkdownV2(`${rec.proposedRange.lowerBin} to ${rec.proposedRange.upperBin}`)}\n` +
+        `Amounts: ${escapeMarkdownV2(`${formatAmount(rec.amountX)} ${rec.tokenX} + ${formatAmount(rec.amountY)} ${rec.tokenY} (~${formatAmount(rec.valueY)} ${rec.tokenY})`)}`
+      : `*Suggestion: hold*\n${escapeMarkdownV2(rec.reason)}`)
   );
-});
+};
 
-// Handle wallet import from text message
-bot.on('text', async (ctx) => {
-  const userId = ctx.from!.id;
-  // Safely access 'text' using type assertion for Telegraf's complex type union
-  const privateKeyText = (ctx.message as any).text || '';
+const rebalanceKeyboard = (current: RebalanceStrategy, recommendations: RebalanceRecommendation[] = []) =>
+  Markup.inlineKeyboard([
+    // One Apply button per position that needs a rebalance and can be addressed on-chain
+    ...recommendations
+      .map((rec, i) => ({ rec, i }))
+      .filter(({ rec }) => rec.action === 'rebalance' && rec.position)
+      .map(({ i }) => [Markup.button.callback(`Apply suggestion for position ${i + 1}`, `rebalance_apply:${i}`)]),
+    REBALANCE_STRATEGIES.map((strategy) =>
+      Markup.button.callback(`${strategy === current ? '• ' : ''}${STRATEGY_LABELS[strategy]}`, `rebalance_strategy:${strategy}`)
+    ),
+    [Markup.button.callback('Go to menu', 'menu')],
+  ]);
 
-  if (ctx.session.waitingForWalletImport && (privateKeyText.startsWith('dev') || privateKeyText.length > 80)) {
-    try {
-      const privateKeyBase58 = privateKeyText.trim();
-      
-      const secretKey = bs58.decode(privateKeyBase58);
-      if (secretKey.length !== 64) {
-        throw new Error('Invalid private key length (must be 64 bytes).');
-      }
-      
-      const keypair = Keypair.fromSecretKey(secretKey);
-      const publicKey = keypair.publicKey.toString();
+// Shared logic for rebalance
+async function getRebalanceSuggestion(userWallet: PublicKey, network: SolanaNetwork, strategy: RebalanceStrategy = 'spot') {
+  try {
+    const dlmmService = createDlmmService({ user: userWallet, network });
+    const recommendations = await dlmmService.getRebalanceRecommendations(strategy);
+    if (!recommendations.length) {
+      return { message: escapeMarkdownV2('You don’t have any positions to rebalance. Add liquidity first!'), recommendations };
+    }
+    const message =
+      `*Rebalance check* \\(${escapeMarkdownV2(STRATEGY_LABELS[strategy])} strategy\\)\n\n` +
+      recommendations.map(formatRebalanceRecommendation).join('\n\n');
+    return { message, recommendations };
+  } catch (error) {
+    console.error('getRebalanceSuggestion error:', error);
+    return {
+      message: escapeMarkdownV2(describeError(error, 'suggest a rebalance right now').text),
+      recommendations: [] as RebalanceRecommendation[],
+    };
+  }
+}
 
-      ctx.session.wallet = { publicKey, privateKey: privateKeyBase58 };
-      wallets[userId] = ctx.session.wallet;
-      delete ctx.session.waitingForWalletImport;
+/**
+ * Summary shown before a rebalance is executed. The amounts come from the remove preflight,
+ * which is also what the re-deposit is sized from.
+ */
+const formatRebalanceConfirmation = (rec: RebalanceRecommendation, withdrawal: PreflightResult, estimatedFee: number) => {
+  const moved = withdrawal.deltas.filter((d) => d.amount > 0).map((d) => `${formatAmount(d.amount)} ${d.symbol}`);
+  return (
+    `*Confirm rebalance*\n` +
+    `Pool: ${escapeMarkdownV2(rec.pool)}\n` +
+    `Old range: ${escapeMarkdownV2(`${rec.currentRange.lowerBin} to ${rec.currentRange.upperBin}`)}\n` +
+    `New range: ${escapeMarkdownV2(`${rec.proposedRange.lowerBin} to ${rec.proposedRange.upperBin}`)} \\(${escapeMarkdownV2(STRATEGY_LABELS[rec.strategy])}\\)\n` +
+    `Amounts moved: ${escapeMarkdownV2(moved.length ? `about ${moved.join(' and ')}` : 'nothing to withdraw')}\n` +
+    `Estimated network fees: ${escapeMarkdownV2(`~${estimatedFee.toFixed(6)} SOL`)}\n\n` +
+    (withdrawal.ok ? '' : `${escapeMarkdownV2(`⚠️ The withdrawal would fail right now: ${withdrawal.failure!.message}.`)}\n\n`) +
+    escapeMarkdownV2('This withdraws the whole position, then deposits it again in the new range.')
+  );
+};
 
-      const balance = await connection.getBalance(new PublicKey(publicKey)) / 1e9;
-      const escapedBalance = escapeMarkdownV2(balance.toFixed(4));
-      
+/**
+ * Reports the final state of a rebalance operation, including the partial-failure case.
+ */
+const formatRebalanceResult = (op: RebalanceOperation) => {
+  const sig = (s?: string) => escapeMarkdownV2(s ? `${s.slice(0, 10)}...` : '-');
+  switch (op.status) {
+    case 'completed':
+      return (
+        `✅ *Rebalance complete*\n` +
+        `New range: ${escapeMarkdownV2(`${op.toRange.lowerBin} to ${op.toRange.upperBin}`)}\n` +
+        `Remove tx: ${sig(op.removeSignature)}\nAdd tx: ${sig(op.addSignature)}`
+      );
+    case 'partial':
+    case 'removed': // The operation stopped between its two steps
+      return (
+        `⚠️ *Rebalance partially completed*\n` +
+        escapeMarkdownV2('Your liquidity was withdrawn, but re-adding it to the new range failed. The tokens are back in your wallet.') +
+        `\nRemove tx: ${sig(op.removeSignature)}\n` +
+        `Error: ${escapeMarkdownV2(op.error || 'unknown')}\n` +
+        escapeMarkdownV2(
+          `To finish, run: /add_liquidity ${op.pool} ${op.toRange.lowerBin} ${op.toRange.upperBin} ${op.amountX.toFixed(6)} ${op.amountY.toFixed(6)}`
+        )
+      );
+    case 'pending':
+      return `❌ *Rebalance not started*\n${escapeMarkdownV2('Nothing was sent, so your position is unchanged.')}`;
+    default:
+      return (
+        `❌ *Rebalance failed*\n` +
+        escapeMarkdownV2('Withdrawing from the old range failed, so nothing was changed.') +
+        `\nError: ${escapeMarkdownV2(op.error || 'unknown')}`
+      );
+  }
+};
+
+// Function to get wallet overview
+// --- Auto-rebalancing ---
+
+const AUTO_REBALANCE_USAGE =
+  'Use:\n' +
+  '/autorebalance - list your positions and their auto-rebalance settings\n' +
+  `/autorebalance on <position #> [${REBALANCE_STRATEGIES.join('|')}] [polls=N] [max=N] [minfees=X]\n` +
+  '/autorebalance set <position #> [strategy] [polls=N] [max=N] [minfees=X]\n' +
+  '/autorebalance pause|resume|off <position #>\n\n' +
+  'polls = consecutive out-of-range polls before re-centring, max = rebalances per day, minfees = fees earned required first.';
+
+/**
+ * Parses `[strategy] [polls=N] [max=N] [minfees=X]` tokens. Throws with a user-facing message on bad input.
+ */
+const parseAutoRebalanceSettings = (tokens: string[]) => {
+  const settings: Partial<AutoRebalanceSettings> = {};
+  for (const token of tokens) {
+    const [key, value] = token.toLowerCase().split('=');
+    if (value === undefined) {
+      if (!REBALANCE_STRATEGIES.includes(key as RebalanceStrategy)) throw new Error(`Unknown strategy "${token}"`);
+      settings.strategy = key as RebalanceStrategy;
+      continue;
+    }
+    const num = Number(value);
+    if (!value || isNaN(num) || num < 0) throw new Error(`"${token}" needs a non-negative number`);
+    switch (key) {
+      case 'polls':
+        settings.outOfRangePolls = Math.max(1, Math.floor(num));
+        break;
+      case 'max':
+        settings.maxPerDay = Math.floor(num);
+        break;
+      case 'minfees':
+        settings.minFeesEarned = num;
+        break;
+      default:
+        throw new Error(`Unknown setting "${key}" (expected polls, max or minfees)`);
+    }
+  }
+  return settings;
+};
+
+const formatAutoRebalanceRule = (rule: AutoRebalanceRule) =>
+  `${rule.enabled ? 'On' : 'Paused'}, ${STRATEGY_LABELS[rule.strategy as RebalanceStrategy] || rule.strategy}, ` +
+  `after ${rule.outOfRangePolls} out-of-range polls, max ${rule.maxPerDay}/day, min fees ${rule.minFeesEarned}. ` +
+  `Out of range for ${rule.consecutiveOutOfRange} poll(s); ${rule.rebalanceTimes.length} rebalance(s) in the last 24h.`;
+
+/**
+ * Runs the user's auto-rebalance rules against freshly polled positions.
+ * Called from the poller; executes due rebalances with the user's keypair and reports them.
+ */
+async function runAutoRebalances(userId: number, walletData: WalletData, network: SolanaNetwork, positions: PositionData[]) {
+  const rules = await store.listAutoRebalanceRules(userId, network);
+  if (!rules.length) return;
+
+  const readService = createDlmmService({ user: new PublicKey(walletData.publicKey), network });
+  for (const rule of rules) {
+    try {
+      const position = findRulePosition(rule, positions);
+      // Closed, or not reported this poll
+      if (!position) continue;
+      let current = rule;
+      if (position.position && position.position !== rule.position) {
+        // The last rebalance opened a new position account; move the rule over to it
+        await store.deleteAutoRebalanceRule(userId, network, rule.position);
+        current = { ...rule, position: position.position };
+      }
+
+      const pool = await readService.getPoolState(position.pool);
+      const rec = recommendRebalance(position, pool, { strategy: current.strategy as RebalanceStrategy });
+      const decision = evaluateAutoRebalance(current, rec, position);
+      let nextRule = decision.rule;
+
+      if (decision.action === 'skipped' && decision.notify) {
+        await bot.telegram.sendMessage(
+          userId,
+          networkBadge(network, true) + escapeMarkdownV2(`🤖 Auto-rebalance skipped for the position in pool ${rec.pool}: ${decision.reason}`),
+          { parse_mode: 'MarkdownV2' }
+        );
+      }
+
+      if (decision.action === 'rebalance') {
+        let keypair: Keypair;
+        try {
+          keypair = keyVault.getKeypair(userId, walletData);
+        } catch (error) {
+          if (!(error instanceof WalletLockedError)) throw error;
+          const notice = 'Your wallet is locked with a passphrase. Send /unlock <passphrase> so the bot can sign.';
+          if (nextRule.lastNotice !== notice) {
+            await bot.telegram.sendMessage(
+              userId,
+              networkBadge(network, true) + escapeMarkdownV2(`🤖 Auto-rebalance is due but couldn’t run. ${notice}`),
+              { parse_mode: 'MarkdownV2' }
+            );
+          }
+          await store.saveAutoRebalanceRule(userId, { ...nextRule, lastNotice: notice });
+          continue;
+        }
+
+        const op = await createDlmmService({ user: keypair, poolAddress: rec.pool, network }).executeRebalance(rec, (update) =>
+          store.saveRebalanceOperation(userId, update)
+        );
+        nextRule = recordAutoRebalance(nextRule, op);
+        const pausedNote = nextRule.enabled ? '' : `\n\n${escapeMarkdownV2('Auto-rebalancing for this position is paused until you resume it.')}`;
+        await bot.telegram.sendMessage(
+          userId,
+          `${networkBadge(network, true)}🤖 ${escapeMarkdownV2(`Auto-rebalance: ${decision.reason}`)}\n\n${formatRebalanceResult(op)}${pausedNote}`,
+          { parse_mode: 'MarkdownV2' }
+        );
+      }
+
+      await store.saveAutoRebalanceRule(userId, nextRule);
+    } catch (error) {
+      console.error(`Auto-rebalance error for user ${userId}, position ${rule.position}:`, error);
+    }
+  }
+}
+
+// --- Pool browsing ---
+
+const POOLS_PAGE_SIZE = 5;
+const POOL_DETAIL_BIN_RADIUS = 8;
+// Chart images have room for more bins than the text chart
+const POOL_CHART_BIN_RADIUS = 30;
+
+/**
+ * Compact number for prices and TVL: significant digits for small values, K/M suffixes for large ones.
+ */
+const formatAmount = (value: number) => {
+  if (value >= 1e6) return `${(value / 1e6).toFixed(2)}M`;
+  if (value >= 1e4) return `${(value / 1e3).toFixed(1)}K`;
+  if (value === 0) return '0';
+  return Number(value.toPrecision(5)).toString();
+};
+
+const poolPair = (pool: PoolInfo) => `${pool.tokenX.symbol}/${pool.tokenY.symbol}`;
+
+const formatPoolSummary = (pool: PoolInfo) =>
+  `*${escapeMarkdownV2(poolPair(pool))}* \\(${escapeMarkdownV2(`${pool.feeTier}% fee, bin step ${pool.binStep}`)}\\)\n` +
+  escapeMarkdownV2(`Price: ${formatAmount(pool.price)} ${pool.tokenY.symbol} | TVL: ${formatAmount(pool.tvl)} ${pool.tokenY.symbol}`);
+
+/**
+ * Text bar chart of liquidity around the active bin, for a MarkdownV2 pre block.
+ */
+const formatBinChart = (bins: BinRow[], activeBin: number) => {
+  const maxValue = Math.max(...bins.map((bin) => bin.value), 0) || 1;
+  return bins
+    .map((bin) => {
+      const bar = '█'.repeat(Math.round((bin.value / maxValue) * 12));
+      const marker = bin.binId === activeBin ? '▶' : ' ';
+      return `${marker}${String(bin.binId).padStart(8)} ${formatAmount(bin.price).padStart(9)} ${bar}`;
+    })
+    .join('\n');
+};
+
+/**
+ * Replies with one page of pools, or edits the current pools message when paging.
+ */
+async function replyPoolsPage(ctx: MyContext, page: number, edit = false) {
+  const { pools, page: current, totalPages, totalPools } = await getPoolRegistry(ctx.network).listPools(page, POOLS_PAGE_SIZE);
+  if (!pools.length) {
+    ctx.reply(escapeMarkdownV2('No DLMM pools found right now. Try again later.'), { parse_mode: 'MarkdownV2' });
+    return;
+  }
+
+  const text =
+    `*DLMM pools* \\(${escapeMarkdownV2(`${totalPools} total, page ${current + 1} of ${totalPages}`)}\\)\n\n` +
+    pools.map(formatPoolSummary).join('\n\n') +
+    `\n\n${escapeMarkdownV2('Tap a pool to see its details.')}`;
+  const navigation = [];
+  if (current > 0) navigation.push(Markup.button.callback('« Previous', `pools_page:${current - 1}`));
+  if (current < totalPages - 1) navigation.push(Markup.button.callback('Next »', `pools_page:${current + 1}`));
+  const keyboard = Markup.inlineKeyboard([
+    ...pools.map((pool) => [Markup.button.callback(`${poolPair(pool)} · ${pool.feeTier}%`, `pool_detail:${pool.address}`)]),
+    navigation,
+    [Markup.button.callback('Go to menu', 'menu')],
+  ]);
+
+  if (edit) {
+    await ctx.editMessageText(text, { parse_mode: 'MarkdownV2', ...keyboard });
+  } else {
+    ctx.reply(text, { parse_mode: 'MarkdownV2', ...keyboard });
+  }
+}
+
+// --- Add-liquidity wizard ---
+
+const WIZARD_RANGE_PRESETS = [5, 10, 25, 50];
+
+const wizardNavigation = (wizard: AddLiquidityWizardState) => [
+  ...(wizard.history.length ? [Markup.button.callback('« Back', 'alw_back')] : []),
+  Markup.button.callback('Cancel', 'alw_cancel'),
+];
+
+/**
+ * Moves the wizard to `step`, remembering the current step for Back, and shows it.
+ */
+async function advanceWizard(ctx: MyContext, step: AddLiquidityWizardStep, changes: Partial<AddLiquidityWizardState> = {}) {
+  const wizard = ctx.session.addLiquidityWizard!;
+  ctx.session.addLiquidityWizard = { ...wizard, ...changes, step, history: [...wizard.history, wizard.step] };
+  await showWizardStep(ctx);
+}
+
+/**
+ * Renders the wizard's current step with its keyboard. `page` only applies to the pool step.
+ */
+async function showWizardStep(ctx: MyContext, page = 0) {
+  const wizard = ctx.session.addLiquidityWizard;
+  if (!wizard) {
+    ctx.reply(escapeMarkdownV2('This add-liquidity flow has ended. Tap "Add liquidity" in the menu to start again.'), { parse_mode: 'MarkdownV2' });
+    return;
+  }
+
+  if (wizard.step === 'pool') {
+    const { pools, page: current, totalPages } = await getPoolRegistry(ctx.network).listPools(page, POOLS_PAGE_SIZE);
+    const paging = [];
+    if (current > 0) paging.push(Markup.button.callback('« Previous', `alw_pools:${current - 1}`));
+    if (current < totalPages - 1) paging.push(Markup.button.callback('Next »', `alw_pools:${current + 1}`));
+    ctx.reply(
+      escapeMarkdownV2(
+        'Step 1 of 5: pick a pool to add liquidity to.\n\n' +
+          'Prefer typing? Use /add_liquidity <pool_address> <lower_bin> <upper_bin> <amount_x> <amount_y>'
+      ),
+      {
+        parse_mode: 'MarkdownV2',
+        ...Markup.inlineKeyboard([
+          ...pools.map((pool) => [Markup.button.callback(`${poolPair(pool)} · ${pool.feeTier}%`, `alw_pool:${pool.address}`)]),
+          paging,
+          [Markup.button.callback('Try a test amount', 'add_liquidity_mock')],
+          wizardNavigation(wizard),
+        ]),
+      }
+    );
+    return;
+  }
+
+  const pool = await getPoolRegistry(ctx.network).getPool(wizard.pool!);
+  const pair = poolPair(pool);
+  const priceAt = (binId: number) => formatAmount(binPrice(pool.price, pool.binStep, binId, pool.activeBin));
+  const describeRange = () =>
+    `bins ${wizard.lowerBin} to ${wizard.upperBin} (${priceAt(wizard.lowerBin!)} to ${priceAt(wizard.upperBin!)} ${pool.tokenY.symbol} per ${pool.tokenX.symbol})`;
+
+  switch (wizard.step) {
+    case 'range':
       ctx.reply(
         escapeMarkdownV2(
-          `Wallet imported! Your public key is: ${publicKey}\n` +
-          `Initial balance: ${escapedBalance} SOL. No positions or pools yet.`
+          `Step 2 of 5: choose a range for ${pair}.\n` +
+            `The active bin is ${pool.activeBin} at ${formatAmount(pool.price)} ${pool.tokenY.symbol} per ${pool.tokenX.symbol}.\n\n` +
+            'Pick a number of bins either side of the active bin, or enter a price range.'
         ),
         {
+          parse_mode: 'MarkdownV2',
           ...Markup.inlineKeyboard([
-            [Markup.button.callback('Request Test Tokens', 'request_tokens')],
-            [Markup.button.callback('Go to menu', 'menu')],
+            WIZARD_RANGE_PRESETS.map((bins) => Markup.button.callback(`±${bins} bins`, `alw_range:${bins}`)),
+            [Markup.button.callback('Enter a price range', 'alw_price')],
+            wizardNavigation(wizard),
+          ]),
+        }
+      );
+      return;
+    case 'price':
+      ctx.reply(
+        escapeMarkdownV2(
+          `Step 2 of 5: send the price range in ${pool.tokenY.symbol} per ${pool.tokenX.symbol} as low-high, ` +
+            `for example ${formatAmount(pool.price * 0.95)}-${formatAmount(pool.price * 1.05)}.`
+        ),
+        { parse_mode: 'MarkdownV2', ...Markup.inlineKeyboard([wizardNavigation(wizard)]) }
+      );
+      return;
+    case 'shape':
+      ctx.reply(
+        escapeMarkdownV2(
+          `Step 3 of 5: your range is ${describeRange()}.\n\n` +
+            'How should the liquidity be spread?\n' +
+            'Spot: evenly over the range.\n' +
+            'Curve: concentrated around the current price.\n' +
+            'Bid-Ask: concentrated at the edges of the range.'
+        ),
+        {
+          parse_mode: 'MarkdownV2',
+          ...Markup.inlineKeyboard([
+            REBALANCE_STRATEGIES.map((shape) => Markup.button.callback(STRATEGY_LABELS[shape], `alw_shape:${shape}`)),
+            wizardNavigation(wizard),
           ]),
+        }
+      );
+      return;
+    case 'amountX':
+    case 'amountY': {
+      const token = wizard.step === 'amountX' ? pool.tokenX : pool.tokenY;
+      const other = wizard.step === 'amountX' ? pool.tokenY : pool.tokenX;
+      const balance = await getTokenBalance(getRpcManager(ctx.network).connection, new PublicKey(ctx.session.wallet!.publicKey), token.mint).catch(() => null);
+      ctx.reply(
+        escapeMarkdownV2(
+          `Step 4 of 5: how much ${token.symbol} do you want to deposit?\n` +
+            `Your balance: ${balance === null ? 'unavailable' : `${formatAmount(balance)} ${token.symbol}`}\n\n` +
+            `Send a number, or 0 to deposit only ${other.symbol}.`
+        ),
+        { parse_mode: 'MarkdownV2', ...Markup.inlineKeyboard([wizardNavigation(wizard)]) }
+      );
+      return;
+    }
+    case 'review': {
+      const preflight = await createDlmmService({ user: new PublicKey(ctx.session.wallet!.publicKey), poolAddress: pool.address, network: ctx.network })
+        .preflightAddLiquidity(wizard.lowerBin!, wizard.upperBin!, wizard.amountX!, wizard.amountY!, wizard.shape as RebalanceStrategy);
+      ctx.reply(
+        escapeMarkdownV2(
+          `Step 5 of 5: please review.\n\n` +
+            `Pool: ${pair} (${pool.address})\n` +
+            `Range: ${describeRange()}\n` +
+            `Shape: ${STRATEGY_LABELS[wizard.shape as RebalanceStrategy]}\n` +
+            `Deposit: ${wizard.amountX} ${pool.tokenX.symbol} and ${wizard.amountY} ${pool.tokenY.symbol}\n\n` +
+            formatPreflight(preflight) +
+            (preflight.ok ? '' : '\nGo back to change the amounts or range.')
+        ),
+        {
           parse_mode: 'MarkdownV2',
+          ...Markup.inlineKeyboard([
+            ...(preflight.ok ? [[Markup.button.callback('Confirm and add liquidity', 'alw_confirm')]] : []),
+            wizardNavigation(wizard),
+          ]),
         }
       );
+      return;
+    }
+  }
+}
+
+/**
+ * Handles typed answers for the wizard steps that take text (price range and amounts).
+ * Invalid input keeps the user on the same step.
+ */
+async function handleWizardInput(ctx: MyContext, text: string) {
+  const wizard = ctx.session.addLiquidityWizard!;
+  const pool = await getPoolRegistry(ctx.network).getPool(wizard.pool!);
+
+  if (wizard.step === 'price') {
+    const range = parsePriceRange(text);
+    if (!range) {
+      ctx.reply(escapeMarkdownV2('Please send two prices as low-high, with the low price first (for example 140-165).'), { parse_mode: 'MarkdownV2' });
+      return;
+    }
+    const { lowerBin, upperBin } = priceRangeToBinRange(range.low, range.high, pool.price, pool.binStep, pool.activeBin);
+    if (lowerBin < 0 || upperBin <= lowerBin) {
+      ctx.reply(escapeMarkdownV2('That price range is too narrow or out of bounds for this pool. Please try a wider range.'), { parse_mode: 'MarkdownV2' });
+      return;
+    }
+    await advanceWizard(ctx, 'shape', { lowerBin, upperBin });
+    return;
+  }
+
+  const isX = wizard.step === 'amountX';
+  const token = isX ? pool.tokenX : pool.tokenY;
+  const amount = Number(text.trim());
+  if (!text.trim() || isNaN(amount) || amount < 0) {
+    ctx.reply(escapeMarkdownV2(`Please send the amount of ${token.symbol} as a number (0 or more).`), { parse_mode: 'MarkdownV2' });
+    return;
+  }
+  if (!isX && amount === 0 && Number(wizard.amountX) === 0) {
+    ctx.reply(escapeMarkdownV2('You need to deposit some of at least one token. Please send an amount above 0.'), { parse_mode: 'MarkdownV2' });
+    return;
+  }
+  const balance = await getTokenBalance(getRpcManager(ctx.network).connection, new PublicKey(ctx.session.wallet!.publicKey), token.mint).catch(() => null);
+  if (balance !== null && amount > balance) {
+    ctx.reply(
+      escapeMarkdownV2(`You only have ${formatAmount(balance)} ${token.symbol}. Please send a smaller amount.`),
+      { parse_mode: 'MarkdownV2' }
+    );
+    return;
+  }
+  await advanceWizard(ctx, isX ? 'amountY' : 'review', isX ? { amountX: String(amount) } : { amountY: String(amount) });
+}
+
+const formatUsd = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// "3h ago" style age of a timestamp
+const formatAge = (timestamp: number) => {
+  const minutes = Math.max(0, Math.round((Date.now() - timestamp) / 60000));
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return `${Math.round(minutes / (24 * 60))}d ago`;
+};
+
+const formatValued = (amount: number, symbol: string, valueUsd: number | null) =>
+  `${formatAmount(amount)} ${symbol} (${valueUsd === null ? 'no price' : formatUsd(valueUsd)})`;
+
+const formatPortfolioChange = (change: PortfolioChange | null) => {
+  if (!change) return 'First check: the change will show from your next one.';
+  const sign = change.deltaUsd >= 0 ? '+' : '-';
+  const percent = change.deltaPercent === null ? '' : ` (${sign}${Math.abs(change.deltaPercent).toFixed(2)}%)`;
+  return `Change since your last check ${formatAge(change.since)}: ${sign}${formatUsd(Math.abs(change.deltaUsd))}${percent}`;
+};
+
+/**
+ * Wallet tokens and positions valued in USD. Prices are optional: if the price source fails, amounts are still shown.
+ */
+async function loadPortfolio(userWallet: PublicKey, network: SolanaNetwork) {
+  const dlmmService = createDlmmService({ user: userWallet, network });
+  const [holdings, positions] = await Promise.all([dlmmService.getTokenHoldings(), dlmmService.getPositions()]);
+  const priceSource = getPriceSource();
+  const prices = await priceSource.getPrices(portfolioMints(holdings, positions)).catch((error) => {
+    console.warn(`Price lookup failed (${priceSource.name}):`, (error as Error).message);
+    return new Map<string, number>();
+  });
+  return { positions, prices, priceSource, valuation: valuePortfolio(holdings, positions, prices) };
+}
+
+/**
+ * The portfolio with the change since the user's previous overview.
+ */
+async function getWalletOverview(userId: number, userWallet: PublicKey, network: SolanaNetwork) {
+  try {
+    const { prices, priceSource, valuation } = await loadPortfolio(userWallet, network);
+
+    const state = (await store.getState(userId)) || createDefaultUserState();
+    const change = portfolioChange(valuation.totalUsd, state.lastPortfolio);
+    // Without any prices the total means nothing, so it isn't kept as the next baseline
+    if (prices.size) await store.saveState(userId, { ...state, lastPortfolio: { totalUsd: valuation.totalUsd, at: Date.now() } });
+
+    const tokenLines = valuation.holdings.map((h) => `${formatValued(h.amount, h.symbol, h.valueUsd)}, ${h.decimals} decimals`);
+    const positionLines = valuation.positions.map(({ position: p, valueXUsd, valueYUsd, valueUsd }, i) => {
+      const share = (side: number | null) => (side !== null && valueUsd > 0 ? `, ${Math.round((side / valueUsd) * 100)}%` : '');
+      return (
+        `${i + 1}. ${p.tokenX}/${p.tokenY} in pool ${p.pool.slice(0, 8)}..., bins ${p.lowerBin} to ${p.upperBin}: ${formatUsd(valueUsd)}\n` +
+        `   ${p.tokenX}: ${formatValued(p.amountX, p.tokenX, valueXUsd)}${share(valueXUsd)}\n` +
+        `   ${p.tokenY}: ${formatValued(p.amountY, p.tokenY, valueYUsd)}${share(valueYUsd)}`
+      );
+    });
+
+    return escapeMarkdownV2(
+      `Your Wallet Info\n` +
+        `Network: ${NETWORK_LABELS[network]}\n` +
+        `Address: ${userWallet.toString()}\n\n` +
+        `Tokens:\n${tokenLines.join('\n')}\n\n` +
+        `Positions:\n${positionLines.length ? positionLines.join('\n') : 'No positions yet. Add liquidity to open one!'}\n\n` +
+        (prices.size
+          ? `Portfolio total: ${formatUsd(valuation.totalUsd)}\n${formatPortfolioChange(change)}` +
+            (valuation.unpriced.length ? `\nNot included (no price): ${valuation.unpriced.join(', ')}` : '') +
+            `\nPrices: ${priceSource.name}`
+          : 'USD prices are unavailable right now, so the portfolio total is not shown.')
+    );
+  } catch (error) {
+    console.error('getWalletOverview error:', error);
+    return escapeMarkdownV2(describeError(error, 'load your wallet info').text);
+  }
+}
+
+/**
+ * Robust retry function for airdrop with enhanced error handling.
+ */
+async function requestAirdropWithRetry(conn: Connection, publicKey: PublicKey, lamports: number, retries = 3, delayMs = 2000) {
+  for (let attempt = 1; attempt <= retries; attempt++) {
+    try {
+      const signature = await conn.requestAirdrop(publicKey, lamports);
+      // Wait for confirmation to ensure the airdrop is processed
+      const confirmation = await conn.confirmTransaction(signature, 'confirmed');
+      if (confirmation.value.err) {
+          throw new Error(`Transaction failed to confirm: ${JSON.stringify(confirmation.value.err)}`);
+      }
+      return signature;
     } catch (error) {
-      console.error(`Wallet import error for user ${userId}:`, error);
-      const errorMessage = (error as Error).message || 'Invalid key or unknown error';
-      ctx.reply(escapeMarkdownV2(`Oops! Something went wrong: ${errorMessage}. Please try again with a valid private key:`), { parse_mode: 'MarkdownV2' });
+      const err = error as any;
+      const rpcUrl = (conn as any)._rpcEndpoint; // Get the URL used for logging
+      console.error(`Airdrop attempt ${attempt} on ${rpcUrl} failed: ${err.message}`);
+      
+      if (attempt === retries) {
+        throw err; 
+      }
+      // Implement exponential backoff for retries
+      await new Promise((resolve) => setTimeout(resolve, delayMs * Math.pow(2, attempt - 1)));
     }
-  } else if (privateKeyText.startsWith('/')) {
-    // If it's a command, let it proceed to command handlers, or prompt if no wallet
+  }
+  throw new Error('Airdrop failed after all retries.'); 
+}
+
+// Initialize Telegraf bot and session middleware
+const bot = new Telegraf<MyContext>(botToken);
+// Sessions are persisted so multi-step flows survive restarts. The wallet is left out: it is reloaded from its own record.
+bot.use(
+  session<SessionData, MyContext, 'session'>({
+    store: {
+      get: (key) => store.getSession<SessionData>(key),
+      set: (key, { wallet, ...rest }) => store.saveSession(key, rest),
+      delete: (key) => store.deleteSession(key),
+    },
+  })
+);
+
+// Updates handled, by type, for /metrics
+const updatesReceived = new LabeledCounter();
+
+// Commands whose arguments are secrets
+const SECRET_COMMANDS = /^(\/(?:set_passphrase|unlock)(?:@\w+)?)\s+\S/;
+
+/**
+ * Message text as it may appear in the logs: passphrases and private keys are replaced by a placeholder.
+ */
+const loggableText = (ctx: MyContext, text: string) => {
+  if (ctx.session?.waitingForWalletImport) return '[redacted: wallet import]';
+  const command = text.match(SECRET_COMMANDS);
+  if (command) return `${command[1]} [redacted]`;
+  // A Base58 secret key pasted outside the import step
+  if (/[1-9A-HJ-NP-Za-km-z]{80,}/.test(text)) return '[redacted: possible private key]';
+  return text;
+};
+
+// Logging middleware
+bot.use((ctx, next) => {
+  updatesReceived.inc({ type: ctx.updateType });
+  const userId = ctx.from?.id || 'unknown';
+  if (ctx.callbackQuery && 'data' in ctx.callbackQuery) {
+    console.log(`User ${userId} clicked button: ${ctx.callbackQuery.data}`);
+  } else if (ctx.message && 'text' in ctx.message) { // Explicitly check if it's a text message for logging
+    console.log(`User ${userId} sent message: ${loggableText(ctx, ctx.message.text)}`);
+  }
+  return next();
+});
+
+// Wallet loading middleware
+bot.use(async (ctx, next) => {
+  const userId = ctx.from?.id;
+  ctx.network = defaultNetwork();
+  if (userId) {
+    if (!ctx.session) ctx.session = {}; 
+
+    try {
+      const state = await store.getState(userId);
+      if (isSolanaNetwork(state?.network)) ctx.network = state.network;
+    } catch (error) {
+      console.error(`Failed to load network for user ${userId}:`, error);
+    }
+    
+    // Attempt to restore wallet from the store if session is new or missing wallet data
     if (!ctx.session.wallet) {
-      replyWalletMissing(ctx);
+      try {
+        let storedWallet = await store.getWallet(userId, ctx.network);
+        if (storedWallet && keyVault.needsMigration(storedWallet)) {
+          storedWallet = keyVault.migrateWallet(storedWallet);
+          await store.saveWallet(userId, ctx.network, storedWallet);
+        }
+        if (storedWallet) ctx.session.wallet = storedWallet;
+      } catch (error) {
+        console.error(`Failed to load stored wallet for user ${userId}:`, error);
+      }
+    }
+  }
+  return next();
+});
+
+// Mainnet badge middleware: every reply, edited screen, chart and file caption on mainnet starts with the badge.
+// The network is checked per message, so a handler that switches networks gets the new one's badge.
+bot.use((ctx, next) => {
+  const reply = ctx.reply.bind(ctx);
+  const editMessageText = ctx.editMessageText.bind(ctx);
+  const replyWithPhoto = ctx.replyWithPhoto.bind(ctx);
+  const replyWithDocument = ctx.replyWithDocument.bind(ctx);
+  const badge = (text: unknown, extra?: { parse_mode?: string }) =>
+    typeof text === 'string' ? networkBadge(ctx.network, extra?.parse_mode === 'MarkdownV2') + text : text;
+  const badgeCaption = <E extends { caption?: unknown; parse_mode?: string }>(extra?: E) =>
+    ctx.network === 'mainnet-beta' && (extra?.caption === undefined || typeof extra.caption === 'string')
+      ? ({ ...extra, caption: (badge(extra?.caption ?? '', extra) as string).trimEnd() } as E)
+      : extra;
+  ctx.reply = ((text, extra) => reply(badge(text, extra) as typeof text, extra)) as typeof ctx.reply;
+  ctx.editMessageText = ((text, extra) => editMessageText(badge(text, extra) as typeof text, extra)) as typeof ctx.editMessageText;
+  ctx.replyWithPhoto = ((photo, extra) => replyWithPhoto(photo, badgeCaption(extra))) as typeof ctx.replyWithPhoto;
+  ctx.replyWithDocument = ((document, extra) => replyWithDocument(document, badgeCaption(extra))) as typeof ctx.replyWithDocument;
+  return next();
+});
+
+/**
+ * The main menu. The faucet only exists on devnet, so mainnet users don't see it.
+ */
+const mainMenuKeyboard = (network: SolanaNetwork) =>
+  Markup.inlineKeyboard([
+    [Markup.button.callback('See my positions', 'positions')],
+    [Markup.button.callback('Add liquidity', 'add_liquidity')],
+    [Markup.button.callback('Remove liquidity', 'remove_liquidity')],
+    [Markup.button.callback('Get rebalance tips', 'rebalance')],
+    [Markup.button.callback('Check my wallet', 'wallet_overview')],
+    [Markup.button.callback('View pools', 'pools')],
+    ...(network === 'devnet' ? [[Markup.button.callback('Request Faucet', 'request_tokens')]] : []),
+    [Markup.button.callback(`Network: ${NETWORK_LABELS[network]}`, 'network')],
+  ]);
+
+// Start command
+bot.start(async (ctx) => {
+  if (!ctx.session.wallet) {
+    ctx.reply(
+      escapeMarkdownV2('Welcome! You need to set up a wallet first. Choose an option to get started:'),
+      {
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback('Create a new wallet', 'create_wallet')],
+          [Markup.button.callback('Import a wallet', 'import_wallet')],
+        ]),
+        parse_mode: 'MarkdownV2',
+      }
+    );
+    return;
+  }
+
+  ctx.reply(
+    escapeMarkdownV2(`Welcome back! Your wallet is ready: ${ctx.session.wallet.publicKey}. Pick an action:`),
+    {
+      ...mainMenuKeyboard(ctx.network),
+      parse_mode: 'MarkdownV2',
+    }
+  );
+});
+
+bot.action('create_wallet', async (ctx) => {
+  await ctx.answerCbQuery();
+  const userId = ctx.from!.id;
+  const keypair = Keypair.generate();
+  const publicKey = keypair.publicKey.toString();
+  const privateKeyBase58 = bs58.encode(keypair.secretKey);
+
+  ctx.session.wallet = keyVault.sealWallet(keypair);
+  
+  try {
+    await store.saveWallet(userId, ctx.network, ctx.session.wallet);
+  } catch (error) {
+    console.error(`Failed to persist wallet for user ${userId}:`, error);
+  }
+  
+  try {
+    const balance = await getRpcManager(ctx.network).connection.getBalance(new PublicKey(publicKey)) / 1e9;
+    const escapedBalance = escapeMarkdownV2(balance.toFixed(4));
+    
+    ctx.reply(
+      escapeMarkdownV2(
+        `New wallet created! Your public key is: ${publicKey}\n` +
+        `Keep this private key safe: ${privateKeyBase58}\n` +
+        `*Please don’t share it with anyone!* (Except for testing in this sandbox.)\n` +
+        `Initial balance: ${escapedBalance} SOL. No positions or pools yet.\n` +
+        `Tip: protect it with a passphrase using /set_passphrase <passphrase>.`),
+      {
+        ...Markup.inlineKeyboard([
+          ...(ctx.network === 'devnet' ? [[Markup.button.callback('Request Test Tokens', 'request_tokens')]] : []),
+          [Markup.button.callback('Go to menu', 'menu')],
+        ]),
+        parse_mode: 'MarkdownV2',
+      }
+    );
+  } catch (error) {
+    console.error('Initial balance check failed:', error);
+    ctx.reply(
+      escapeMarkdownV2(`New wallet created, but we couldn't check the balance due to a network error. Public key: ${publicKey}`),
+      {
+        ...Markup.inlineKeyboard([
+          ...(ctx.network === 'devnet' ? [[Markup.button.callback('Request Test Tokens', 'request_tokens')]] : []),
+          [Markup.button.callback('Go to menu', 'menu')],
+        ]),
+        parse_mode: 'MarkdownV2',
+      }
+    );
+  }
+});
+
+bot.action('import_wallet', async (ctx) => {
+  await ctx.answerCbQuery();
+  ctx.session.waitingForWalletImport = true;
+  ctx.reply(
+    escapeMarkdownV2(
+      'Import your wallet by sending your private key (Base58 encoded, e.g., "dev123..."). ' +
+      'This is just for testing—use secure methods in real use!'
+    ),
+    { parse_mode: 'MarkdownV2' }
+  );
+});
+
+// Handle wallet import from text message
+bot.on('text', async (ctx, next) => {
+  const userId = ctx.from!.id;
+  // Safely access 'text' using type assertion for Telegraf's complex type union
+  const privateKeyText = (ctx.message as any).text || '';
+
+  if (ctx.session.waitingForWalletImport && (privateKeyText.startsWith('dev') || privateKeyText.length > 80)) {
+    try {
+      const privateKeyBase58 = privateKeyText.trim();
+      
+      const secretKey = bs58.decode(privateKeyBase58);
+      if (secretKey.length !== 64) {
+        throw new Error('Invalid private key length (must be 64 bytes).');
+      }
+      
+      const keypair = Keypair.fromSecretKey(secretKey);
+      const publicKey = keypair.publicKey.toString();
+
+      ctx.session.wallet = keyVault.sealWallet(keypair);
+      await store.saveWallet(userId, ctx.network, ctx.session.wallet);
+      delete ctx.session.waitingForWalletImport;
+
+      const balance = await getRpcManager(ctx.network).connection.getBalance(new PublicKey(publicKey)) / 1e9;
+      const escapedBalance = escapeMarkdownV2(balance.toFixed(4));
+      
+      ctx.reply(
+        escapeMarkdownV2(
+          `Wallet imported! Your public key is: ${publicKey}\n` +
+          `Initial balance: ${escapedBalance} SOL. No positions or pools yet.`
+        ),
+        {
+          ...Markup.inlineKeyboard([
+            ...(ctx.network === 'devnet' ? [[Markup.button.callback('Request Test Tokens', 'request_tokens')]] : []),
+            [Markup.button.callback('Go to menu', 'menu')],
+          ]),
+          parse_mode: 'MarkdownV2',
+        }
+      );
+    } catch (error) {
+      console.error(`Wallet import error for user ${userId}:`, error);
+      replyError(ctx, error, 'import that key. Send a valid private key to try again');
+    }
+  } else if (ctx.session.addLiquidityWizard && !privateKeyText.startsWith('/') && ['price', 'amountX', 'amountY'].includes(ctx.session.addLiquidityWizard.step)) {
+    try {
+      await handleWizardInput(ctx, privateKeyText);
+    } catch (error) {
+      console.error(`Add liquidity wizard input error for user ${userId}:`, error);
+      replyError(ctx, error, 'continue adding liquidity', [['Cancel', 'alw_cancel']]);
+    }
+  } else if (privateKeyText.startsWith('/')) {
+    // If it's a command, let it proceed to command handlers, or prompt if no wallet
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx);
+      return;
+    }
+    return next();
+  }
+});
+
+// Action to request test tokens
+bot.action('request_tokens', async (ctx) => {
+  await ctx.answerCbQuery();
+  const userId = ctx.from!.id;
+
+  try {
+    if (ctx.network !== 'devnet') {
+      ctx.reply(escapeMarkdownV2('The faucet only works on devnet. Switch networks with /network to get test SOL.'), { parse_mode: 'MarkdownV2' });
+      return;
+    }
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx);
+      return;
+    }
+
+    const state = (await store.getState(userId)) || createDefaultUserState();
+    const now = Date.now();
+    const timeSinceLastFaucet = (now - (state.lastFaucetTime || 0)) / 1000; // In seconds
+    const hourlyLimitSeconds = 60 * 60; // 1 hour
+
+    // Check hourly limit
+    if (timeSinceLastFaucet < hourlyLimitSeconds) {
+      const remainingTime = Math.ceil((hourlyLimitSeconds - timeSinceLastFaucet) / 60);
+      ctx.reply(escapeMarkdownV2(`Sorry, you can only request tokens once per hour. Wait *${remainingTime}* minutes and try again.`), { parse_mode: 'MarkdownV2' });
+      return;
+    }
+
+    ctx.reply(escapeMarkdownV2('Requesting 2 test SOL, this may take a moment...'));
+    
+    const pubkey = new PublicKey(ctx.session.wallet.publicKey);
+    let signature;
+    
+    // The pooled connection already fails over between RPC endpoints
+    signature = await requestAirdropWithRetry(getRpcManager(ctx.network).connection, pubkey, 2e9);
+    
+    // Success
+    await store.saveState(userId, { ...state, lastFaucetTime: now });
+    ctx.reply(
+      escapeMarkdownV2(`Success! You got 2 test SOL.\nTransaction Signature: ${signature.slice(0, 10)}....\nCheck your wallet in a few minutes.`), 
+      {
+        ...Markup.inlineKeyboard([[Markup.button.callback('Go to menu', 'menu')]]),
+        parse_mode: 'MarkdownV2',
+      }
+    );
+  } catch (error) {
+    console.error(`Request tokens error for user ${ctx.from!.id}:`, error);
+    const err = error as any;
+
+    // Step 1: Define the plain text error part (and escape it)
+    let replyMessage = 'Sorry, the airdrop service is unavailable or severely rate-limited right now.';
+    
+    if ((err.message || '').includes('rate limit') || (err.message || '').includes('Airdrop failed')) {
+      replyMessage += ' This is common on Devnet public RPCs.';
+    } else if ((err.message || '').includes('timeout') || (err.message || '').includes('network')) {
+      replyMessage += ' We encountered a network issue during the request.';
+    }
+    
+    const escapedReplyMessage = escapeMarkdownV2(replyMessage);
+
+    // Step 2: Construct the final message using a template literal, ensuring backticks are used correctly for Markdown V2
+    const walletAddress = ctx.session.wallet?.publicKey || 'No wallet set';
+    const faucetLink = 'https://faucet.solana.com/';
+
+    const finalMessage = 
+        escapedReplyMessage + 
+        '\n\n' +
+        escapeMarkdownV2('You can also try the official web faucet: ') + 
+        `\`${faucetLink}\`` + 
+        escapeMarkdownV2(' using your wallet address: ') + 
+        `\`${walletAddress}\``;
+
+    ctx.reply(finalMessage, { parse_mode: 'MarkdownV2' });
+  }
+});
+
+// Update action handlers
+
+bot.action('positions', async (ctx) => {
+  await ctx.answerCbQuery();
+  
+  try {
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx); // Use the new function for clarity
+      return;
+    }
+    await replyPositions(ctx);
+  } catch (error) {
+    console.error(`Positions error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'check your positions');
+  }
+});
+
+// --- Per-position actions ---
+
+bot.action(/^pos_rm:(\w+):(25|50|100)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const [, address, percent] = ctx.match;
+
+  try {
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx);
+      return;
+    }
+    const found = await findUserPosition(ctx, address);
+    const { position, index } = found;
+    const preflight = await createDlmmService({ user: new PublicKey(ctx.session.wallet.publicKey), poolAddress: position.pool, network: ctx.network })
+      .preflightRemoveLiquidity(new PublicKey(address), percent);
+    const { firstBin, lastBin, binsToRemove } = removedBinRange(position.lowerBin, position.upperBin, Number(percent));
+    ctx.reply(
+      escapeMarkdownV2(
+        `Remove ${percent}% of position ${index + 1} (${position.tokenX}/${position.tokenY}, bins ${position.lowerBin} to ${position.upperBin})?\n` +
+          `This withdraws its top ${binsToRemove} bin(s), ${firstBin} to ${lastBin}, in full.\n\n` +
+          formatPreflight(preflight)
+      ),
+      {
+        parse_mode: 'MarkdownV2',
+        ...Markup.inlineKeyboard([
+          ...(preflight.ok ? [[Markup.button.callback(`Confirm: remove ${percent}%`, `pos_rmc:${address}:${percent}`)]] : []),
+          [Markup.button.callback('Cancel', 'positions')],
+        ]),
+      }
+    );
+  } catch (error) {
+    console.error(`Position remove error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'load this position');
+  }
+});
+
+bot.action(/^pos_rmc:(\w+):(25|50|100)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const [, address, percent] = ctx.match;
+
+  try {
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx);
+      return;
+    }
+    const found = await findUserPosition(ctx, address);
+    const keypair = getSigningKeypair(ctx);
+    if (!keypair) return;
+
+    const dlmmService = createDlmmService({ user: keypair, poolAddress: found.position.pool, network: ctx.network });
+    await submitTracked(ctx, 'remove_liquidity', { position: address, amount: `${percent}%` }, () =>
+      dlmmService.removeLiquidity(new PublicKey(address), percent)
+    );
+  } catch (error) {
+    console.error(`Position remove confirm error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'remove your liquidity');
+  }
+});
+
+bot.action(/^pos_(claim|comp):(\w+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const compound = ctx.match[1] === 'comp';
+
+  try {
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx);
+      return;
+    }
+    await collectFees(ctx, compound, ctx.match[2]);
+  } catch (error) {
+    console.error(`Position ${compound ? 'compound' : 'claim'} error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'collect your fees');
+  }
+});
+
+bot.action('claim_all', async (ctx) => {
+  await ctx.answerCbQuery();
+
+  try {
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx);
+      return;
+    }
+    await collectFees(ctx, false);
+  } catch (error) {
+    console.error(`Claim all error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'collect your fees');
+  }
+});
+
+bot.action(/^pos_rebal:(\w+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+
+  try {
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx);
+      return;
+    }
+    const found = await findUserPosition(ctx, ctx.match[1]);
+    const rec = await createDlmmService({ user: new PublicKey(ctx.session.wallet.publicKey), network: ctx.network }).suggestRebalance(found.position);
+    // Apply buttons index into the stored plans, so store just this one
+    ctx.session.rebalancePlans = [rec];
+    ctx.reply(formatRebalanceRecommendation(rec, found.index), {
+      parse_mode: 'MarkdownV2',
+      ...rebalanceKeyboard('spot', [rec]),
+    });
+  } catch (error) {
+    console.error(`Position rebalance error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'suggest a rebalance');
+  }
+});
+
+bot.action(/^pos_info:(\w+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+
+  try {
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx);
+      return;
+    }
+    const found = await findUserPosition(ctx, ctx.match[1]);
+    const { position, index } = found;
+    const [priceRange, pool, rules] = await Promise.all([
+      describePriceRange(position, ctx.network),
+      getPoolRegistry(ctx.network).getPool(position.pool).catch(() => null),
+      store.listAutoRebalanceRules(ctx.from!.id, ctx.network),
+    ]);
+    const rule = rules.find((r) => findRulePosition(r, [position]));
+
+    let status = 'Pool data unavailable.';
+    if (pool) {
+      const inRange = pool.activeBin >= position.lowerBin && pool.activeBin <= position.upperBin;
+      status =
+        `Active bin ${pool.activeBin} at ${formatAmount(pool.price)} ${pool.tokenY.symbol} per ${pool.tokenX.symbol}: ` +
+        (inRange ? 'in range, earning fees.' : 'out of range, not earning fees.');
+    }
+
+    ctx.reply(
+      `${formatPosition(position, index, priceRange, claimsFees(ctx.network))}\n\n` +
+        escapeMarkdownV2(`${status}\nAuto-rebalance: ${rule ? formatAutoRebalanceRule(rule) : 'off (see /autorebalance).'}`),
+      { parse_mode: 'MarkdownV2', ...positionKeyboard(position, true, claimsFees(ctx.network)) }
+    );
+  } catch (error) {
+    console.error(`Position details error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'load this position');
+  }
+});
+
+bot.action(/^pos_bins:(\w+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+
+  try {
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx);
+      return;
+    }
+    const { position } = await findUserPosition(ctx, ctx.match[1]);
+    await replyBinChart(ctx, position.pool, position);
+  } catch (error) {
+    console.error(`Position liquidity chart error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'draw the liquidity chart');
+  }
+});
+
+bot.action(/^pos_chart:(\w+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+
+  try {
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx);
+      return;
+    }
+    const { position, index } = await findUserPosition(ctx, ctx.match[1]);
+    const key = snapshotPositionKey(position);
+    const history = (await store.listPositionSnapshots(ctx.from!.id, ctx.network)).filter((s) => s.position === key);
+    if (history.length < 2) {
+      ctx.reply(
+        escapeMarkdownV2('Not enough history for a chart yet. The position is recorded each time your wallet is polled; check back after a few polls.'),
+        { parse_mode: 'MarkdownV2' }
+      );
+      return;
+    }
+
+    const [pnl] = buildPnlReport('open', history).positions;
+    const inRange = pnl.trackedMs ? ((pnl.inRangeMs / pnl.trackedMs) * 100).toFixed(0) : '0';
+    const caption =
+      `Position ${index + 1} (${position.tokenX}/${position.tokenY}) over the last ${formatDuration(pnl.trackedMs)}.\n` +
+      `Blue: value, now ${formatAmount(pnl.valueEnd)} ${position.tokenY} (left axis). ` +
+      (claimsFees(ctx.network)
+        ? `Green: fees earned, ${formatAmount(pnl.feesEarned)} ${position.tokenY} (right axis).\n`
+        : 'Fees are added to the position’s bins, so they are part of the value.\n') +
+      `In range ${inRange}% of the time (strip below the chart).`;
+    await ctx.replyWithPhoto(
+      { source: renderPositionHistoryChart(history) },
+      { caption: escapeMarkdownV2(caption), parse_mode: 'MarkdownV2' }
+    );
+  } catch (error) {
+    console.error(`Position chart error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'draw the position chart');
+  }
+});
+
+bot.action('add_liquidity', async (ctx) => {
+  await ctx.answerCbQuery();
+  
+  if (!ctx.session.wallet) {
+    replyWalletMissing(ctx); // Use the new function for clarity
+    return;
+  }
+
+  try {
+    ctx.session.addLiquidityWizard = { step: 'pool', history: [] };
+    await showWizardStep(ctx);
+  } catch (error) {
+    console.error(`Add liquidity wizard error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'start adding liquidity');
+  }
+});
+
+// Wizard buttons. Every handler re-checks the session, since buttons on old messages can still be tapped.
+
+/**
+ * Runs a wizard button handler with the shared wallet/session checks and error reply.
+ */
+const wizardAction = (handler: (ctx: MyContext & { match: RegExpExecArray }, wizard: AddLiquidityWizardState) => Promise<void>) =>
+  async (ctx: MyContext & { match: RegExpExecArray }) => {
+    await ctx.answerCbQuery();
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx);
+      return;
+    }
+    const wizard = ctx.session.addLiquidityWizard;
+    if (!wizard) {
+      await showWizardStep(ctx);
+      return;
+    }
+    try {
+      await handler(ctx, wizard);
+    } catch (error) {
+      console.error(`Add liquidity wizard error for user ${ctx.from!.id}:`, error);
+      replyError(ctx, error, 'continue adding liquidity', [['Cancel', 'alw_cancel']]);
+    }
+  };
+
+bot.action(/^alw_pools:(\d+)$/, wizardAction(async (ctx) => {
+  await showWizardStep(ctx, Number(ctx.match[1]));
+}));
+
+bot.action(/^alw_pool:(\w+)$/, wizardAction(async (ctx) => {
+  const pool = await getPoolRegistry(ctx.network).getPool(ctx.match[1]);
+  ctx.session.selectedPool = pool.address;
+  await advanceWizard(ctx, 'range', { pool: pool.address });
+}));
+
+bot.action(/^alw_range:(\d+)$/, wizardAction(async (ctx, wizard) => {
+  const halfWidth = Number(ctx.match[1]);
+  const { activeBin } = await getPoolRegistry(ctx.network).getPool(wizard.pool!);
+  await advanceWizard(ctx, 'shape', { lowerBin: Math.max(0, activeBin - halfWidth), upperBin: activeBin + halfWidth });
+}));
+
+bot.action(/^alw_price$/, wizardAction(async (ctx) => {
+  await advanceWizard(ctx, 'price');
+}));
+
+bot.action(/^alw_shape:(spot|curve|bid-ask)$/, wizardAction(async (ctx) => {
+  await advanceWizard(ctx, 'amountX', { shape: ctx.match[1] });
+}));
+
+bot.action(/^alw_back$/, wizardAction(async (ctx, wizard) => {
+  const history = [...wizard.history];
+  const previous = history.pop();
+  if (!previous) return;
+  ctx.session.addLiquidityWizard = { ...wizard, step: previous, history };
+  await showWizardStep(ctx);
+}));
+
+bot.action(/^alw_cancel$/, wizardAction(async (ctx) => {
+  delete ctx.session.addLiquidityWizard;
+  ctx.reply(escapeMarkdownV2('Adding liquidity cancelled. Nothing was sent.'), {
+    parse_mode: 'MarkdownV2',
+    ...Markup.inlineKeyboard([[Markup.button.callback('Go to menu', 'menu')]]),
+  });
+}));
+
+bot.action(/^alw_confirm$/, wizardAction(async (ctx, wizard) => {
+  const { pool, lowerBin, upperBin, amountX, amountY, shape } = wizard;
+  if (wizard.step !== 'review' || !pool || lowerBin === undefined || upperBin === undefined || !amountX || !amountY) {
+    await showWizardStep(ctx);
+    return;
+  }
+  const keypair = getSigningKeypair(ctx);
+  if (!keypair) return;
+
+  // Clear first so a double tap can't deposit twice; restored below if the deposit fails
+  delete ctx.session.addLiquidityWizard;
+  try {
+    const dlmmService = createDlmmService({ user: keypair, poolAddress: pool, network: ctx.network });
+    await submitTracked(ctx, 'add_liquidity', { pool, lowerBin, upperBin, amountX, amountY }, () =>
+      dlmmService.addLiquidity(lowerBin, upperBin, amountX, amountY, (shape || 'spot') as RebalanceStrategy)
+    );
+  } catch (error) {
+    ctx.session.addLiquidityWizard = wizard;
+    throw error;
+  }
+}));
+
+bot.action('add_liquidity_mock', async (ctx) => {
+  await ctx.answerCbQuery();
+
+  try {
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx); // Use the new function for clarity
+      return;
+    }
+    const keypair = getSigningKeypair(ctx);
+    if (!keypair) return;
+    // Pass the actual keypair for signing
+    const dlmmService = createDlmmService({ user: keypair, network: ctx.network });
+    await submitTracked(ctx, 'add_liquidity', { lowerBin: 1, upperBin: 10, amountX: '1', amountY: '1' }, () =>
+      dlmmService.addLiquidity(1, 10, '1', '1')
+    );
+  } catch (error) {
+    console.error(`Add liquidity mock error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'add your liquidity');
+  }
+});
+
+bot.action('ltx_send', async (ctx) => {
+  await ctx.answerCbQuery();
+  const pending = ctx.session.pendingLiquidity;
+
+  try {
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx);
+      return;
+    }
+    if (!pending) {
+      ctx.reply(escapeMarkdownV2('There is nothing waiting to be sent. It was already sent or cancelled.'), { parse_mode: 'MarkdownV2' });
+      return;
+    }
+    const keypair = getSigningKeypair(ctx);
+    if (!keypair) return;
+
+    // Cleared first so a double tap can't send twice
+    delete ctx.session.pendingLiquidity;
+    if (pending.kind === 'add_liquidity') {
+      const { kind, ...params } = pending;
+      const dlmmService = createDlmmService({ user: keypair, poolAddress: pending.pool, network: ctx.network });
+      await submitTracked(ctx, kind, params, () =>
+        dlmmService.addLiquidity(pending.lowerBin, pending.upperBin, pending.amountX, pending.amountY)
+      );
+    } else {
+      const dlmmService = createDlmmService({ user: keypair, network: ctx.network });
+      await submitTracked(ctx, 'remove_liquidity', { position: pending.position, amount: pending.amount }, () =>
+        dlmmService.removeLiquidity(new PublicKey(pending.position), pending.amount)
+      );
+    }
+  } catch (error) {
+    console.error(`Liquidity send error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'send your transaction');
+  }
+});
+
+bot.action('ltx_cancel', async (ctx) => {
+  await ctx.answerCbQuery();
+  delete ctx.session.pendingLiquidity;
+  ctx.reply(escapeMarkdownV2('Cancelled. Nothing was sent.'), {
+    parse_mode: 'MarkdownV2',
+    ...Markup.inlineKeyboard([[Markup.button.callback('Go to menu', 'menu')]]),
+  });
+});
+
+bot.action('remove_liquidity', async (ctx) => {
+  await ctx.answerCbQuery();
+
+  if (!ctx.session.wallet) {
+    replyWalletMissing(ctx); // Use the new function for clarity
+    return;
+  }
+  
+  ctx.reply(
+    escapeMarkdownV2('Open "See my positions" and tap Remove 25%, 50% or 100% on a position.\n\nOr type: /remove_liquidity <position_address> <percent> (the address is shown on each position).'),
+    {
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback('See my positions', 'positions')],
+        [Markup.button.callback('Go to menu', 'menu')],
+      ]),
+      parse_mode: 'MarkdownV2',
+    }
+  );
+});
+
+bot.action('rebalance', async (ctx) => {
+  await ctx.answerCbQuery();
+
+  try {
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx); // Use the new function for clarity
+      return;
+    }
+    const { message, recommendations } = await getRebalanceSuggestion(new PublicKey(ctx.session.wallet.publicKey), ctx.network);
+    ctx.session.rebalancePlans = recommendations;
+    ctx.reply(message, {
+      parse_mode: 'MarkdownV2',
+      ...rebalanceKeyboard('spot', recommendations),
+    });
+  } catch (error) {
+    console.error(`Rebalance error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'suggest a rebalance right now');
+  }
+});
+
+bot.action(/^rebalance_strategy:(spot|curve|bid-ask)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const strategy = ctx.match[1] as RebalanceStrategy;
+
+  try {
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx);
+      return;
+    }
+    const { message, recommendations } = await getRebalanceSuggestion(new PublicKey(ctx.session.wallet.publicKey), ctx.network, strategy);
+    ctx.session.rebalancePlans = recommendations;
+    ctx.reply(message, {
+      parse_mode: 'MarkdownV2',
+      ...rebalanceKeyboard(strategy, recommendations),
+    });
+  } catch (error) {
+    console.error(`Rebalance strategy error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'suggest a rebalance right now');
+  }
+});
+
+bot.action(/^rebalance_apply:(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+
+  try {
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx);
+      return;
+    }
+    const rec = ctx.session.rebalancePlans?.[Number(ctx.match[1])];
+    if (!rec || rec.action !== 'rebalance' || !rec.position) {
+      ctx.reply(escapeMarkdownV2('That suggestion has expired. Please run /rebalance again.'), { parse_mode: 'MarkdownV2' });
+      return;
+    }
+
+    const dlmmService = createDlmmService({ user: new PublicKey(ctx.session.wallet.publicKey), poolAddress: rec.pool, network: ctx.network });
+    const withdrawal = await dlmmService.preflightRemoveLiquidity(new PublicKey(rec.position), '100');
+    await ctx.reply(formatRebalanceConfirmation(rec, withdrawal, dlmmService.estimateRebalanceFee()), {
+      parse_mode: 'MarkdownV2',
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback('Confirm rebalance', `rebalance_confirm:${ctx.match[1]}`)],
+        [Markup.button.callback('Cancel', 'menu')],
+      ]),
+    });
+  } catch (error) {
+    console.error(`Rebalance apply error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'prepare the rebalance');
+  }
+});
+
+bot.action(/^rebalance_confirm:(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const userId = ctx.from!.id;
+  // Last state the operation reached, so a failure midway can still tell the user where their liquidity is
+  let latest: RebalanceOperation | undefined;
+
+  try {
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx);
+      return;
+    }
+    const index = Number(ctx.match[1]);
+    const rec = ctx.session.rebalancePlans?.[index];
+    if (!rec || rec.action !== 'rebalance') {
+      ctx.reply(escapeMarkdownV2('That suggestion has expired or was already applied. Please run /rebalance again.'), { parse_mode: 'MarkdownV2' });
+      return;
+    }
+    const keypair = getSigningKeypair(ctx);
+    if (!keypair) return;
+
+    // Consume the plan so a double tap can't run the same rebalance twice
+    ctx.session.rebalancePlans = ctx.session.rebalancePlans!.map((plan, i) => (i === index ? { ...plan, action: 'hold' as const } : plan));
+    ctx.reply(escapeMarkdownV2('Rebalancing: removing liquidity from the old range, then adding it to the new one...'), { parse_mode: 'MarkdownV2' });
+
+    const dlmmService = createDlmmService({ user: keypair, poolAddress: rec.pool, network: ctx.network });
+    const op = await dlmmService.executeRebalance(rec, (update) => {
+      latest = update;
+      return store.saveRebalanceOperation(userId, update);
+    });
+
+    ctx.reply(formatRebalanceResult(op), {
+      parse_mode: 'MarkdownV2',
+      ...Markup.inlineKeyboard([[Markup.button.callback('See my positions', 'positions')], [Markup.button.callback('Go to menu', 'menu')]]),
+    });
+  } catch (error) {
+    console.error(`Rebalance confirm error for user ${userId}:`, error);
+    await replyError(ctx, error, 'run the rebalance');
+    if (latest) {
+      ctx.reply(formatRebalanceResult(latest), {
+        parse_mode: 'MarkdownV2',
+        ...Markup.inlineKeyboard([[Markup.button.callback('See my positions', 'positions')], [Markup.button.callback('Go to menu', 'menu')]]),
+      });
+    }
+  }
+});
+
+bot.action('wallet_overview', async (ctx) => {
+  await ctx.answerCbQuery();
+
+  try {
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx); // Use the new function for clarity
+      return;
+    }
+    const overview = await getWalletOverview(ctx.from!.id, new PublicKey(ctx.session.wallet.publicKey), ctx.network);
+    ctx.reply(overview, {
+      parse_mode: 'MarkdownV2',
+      ...Markup.inlineKeyboard([[Markup.button.callback('Go to menu', 'menu')]]),
+    });
+  } catch (error) {
+    console.error(`Wallet overview error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'load your wallet info');
+  }
+});
+
+bot.action('pools', async (ctx) => {
+  await ctx.answerCbQuery();
+
+  try {
+    await replyPoolsPage(ctx, 0);
+  } catch (error) {
+    console.error(`Pools error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'load the pools');
+  }
+});
+
+bot.action(/^pools_page:(\d+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+
+  try {
+    await replyPoolsPage(ctx, Number(ctx.match[1]), true);
+  } catch (error) {
+    console.error(`Pools page error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'load the pools');
+  }
+});
+
+bot.action(/^pool_detail:(\w+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const address = ctx.match[1];
+
+  try {
+    const registry = getPoolRegistry(ctx.network);
+    const pool = await registry.getPool(address);
+    const bins = await registry.getBinDistribution(address, POOL_DETAIL_BIN_RADIUS);
+
+    ctx.reply(
+      `${formatPoolSummary(pool)}\n` +
+        `Pool: ${escapeMarkdownV2(pool.address)}\n` +
+        escapeMarkdownV2(`Active bin: ${pool.activeBin}`) +
+        `\n\n*Liquidity around the active bin*\n` +
+        // Pre blocks only need backticks and backslashes escaped, and the chart contains neither
+        `\`\`\`\n   bin id     price\n${formatBinChart(bins, pool.activeBin)}\n\`\`\``,
+      {
+        parse_mode: 'MarkdownV2',
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback('Add liquidity to this pool', `pool_add:${pool.address}`)],
+          [Markup.button.callback('Liquidity chart', `pool_chart:${pool.address}`)],
+          [Markup.button.callback('Back to pools', 'pools')],
+          [Markup.button.callback('Go to menu', 'menu')],
+        ]),
+      }
+    );
+  } catch (error) {
+    console.error(`Pool detail error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'load this pool');
+  }
+});
+
+/**
+ * Sends the pool's liquidity histogram as an image, with the given range shaded.
+ */
+async function replyBinChart(ctx: MyContext, address: string, range?: { lowerBin: number; upperBin: number }) {
+  const registry = getPoolRegistry(ctx.network);
+  const pool = await registry.getPool(address);
+  const bins = await registry.getBinDistribution(address, POOL_CHART_BIN_RADIUS);
+  const caption =
+    `${pool.tokenX.symbol}/${pool.tokenY.symbol} liquidity by bin, valued in ${pool.tokenY.symbol}. ` +
+    `Blue is ${pool.tokenX.symbol}, orange is ${pool.tokenY.symbol}.\n` +
+    `Active bin ${pool.activeBin} (red) at ${formatAmount(pool.price)} ${pool.tokenY.symbol} per ${pool.tokenX.symbol}.` +
+    (range ? `\nYour range: bins ${range.lowerBin} to ${range.upperBin} (shaded).` : '');
+  await ctx.replyWithPhoto(
+    { source: renderBinLiquidityChart(bins, pool.activeBin, range) },
+    { caption: escapeMarkdownV2(caption), parse_mode: 'MarkdownV2' }
+  );
+}
+
+bot.action(/^pool_chart:(\w+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const address = ctx.match[1];
+
+  try {
+    // Overlay the user's own range in this pool, when they have positions there
+    let range: { lowerBin: number; upperBin: number } | undefined;
+    if (ctx.session.wallet) {
+      const positions = (
+        await createDlmmService({ user: new PublicKey(ctx.session.wallet.publicKey), network: ctx.network }).getPositions()
+      ).filter((p) => p.pool === address);
+      if (positions.length) {
+        range = {
+          lowerBin: Math.min(...positions.map((p) => p.lowerBin)),
+          upperBin: Math.max(...positions.map((p) => p.upperBin)),
+        };
+      }
+    }
+    await replyBinChart(ctx, address, range);
+  } catch (error) {
+    console.error(`Pool chart error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'draw the pool chart');
+  }
+});
+
+bot.action(/^pool_add:(\w+)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const address = ctx.match[1];
+
+  if (!ctx.session.wallet) {
+    replyWalletMissing(ctx);
+    return;
+  }
+
+  try {
+    const pool = await getPoolRegistry(ctx.network).getPool(address);
+    ctx.session.selectedPool = pool.address;
+    // Start the guided flow with the pool already picked; Back returns to the pool list
+    ctx.session.addLiquidityWizard = { step: 'range', history: ['pool'], pool: pool.address };
+    await showWizardStep(ctx);
+  } catch (error) {
+    console.error(`Pool add error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'load this pool');
+  }
+});
+
+bot.action('menu', async (ctx) => {
+  await ctx.answerCbQuery();
+
+  ctx.reply(
+    escapeMarkdownV2('What would you like to do next?'),
+    {
+      ...mainMenuKeyboard(ctx.network),
+      parse_mode: 'MarkdownV2',
+    }
+  );
+});
+
+// --- Text commands with wallet check ---
+
+bot.command('positions', async (ctx) => {
+  try {
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx); // Use the new function for clarity
+      return;
+    }
+    await replyPositions(ctx);
+  } catch (error) {
+    console.error(`Positions command error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'check your positions');
+  }
+});
+
+bot.command('add_liquidity', async (ctx) => {
+  const args = ctx.message.text.split(' ').slice(1).filter(Boolean);
+  // A price:<low>-<high> argument replaces the two bin IDs
+  const priceRangeArg = args.find((arg) => arg.startsWith('price:'));
+  const expectedArgs = priceRangeArg ? 4 : 5;
+  // The pool can be omitted after picking one from the pools list
+  if (args.length === expectedArgs - 1 && ctx.session.selectedPool) {
+    args.unshift(ctx.session.selectedPool);
+  }
+  // No arguments: walk the user through it instead
+  if (args.length === 0 && ctx.session.wallet) {
+    try {
+      ctx.session.addLiquidityWizard = { step: 'pool', history: [] };
+      await showWizardStep(ctx);
+    } catch (error) {
+      console.error(`Add liquidity wizard error for user ${ctx.from.id}:`, error);
+      replyError(ctx, error, 'start adding liquidity');
+    }
+    return;
+  }
+  if (args.length < expectedArgs) { 
+    return ctx.reply(
+      escapeMarkdownV2(
+        'Invalid format. Use:\n/add_liquidity <pool_address> <lower_bin> <upper_bin> <amount_x> <amount_y>\n' +
+          'or, with prices of token X in token Y:\n/add_liquidity <pool_address> price:<low>-<high> <amount_x> <amount_y>'
+      ),
+      { parse_mode: 'MarkdownV2' }
+    );
+  }
+  const pool = args[0];
+  const [amountX, amountY] = args.slice(expectedArgs - 2);
+  
+  if (!ctx.session.wallet) {
+    replyWalletMissing(ctx); // Use the new function for clarity
+    return;
+  }
+
+  let lowerBin: number;
+  let upperBin: number;
+  if (priceRangeArg) {
+    const range = parsePriceRange(priceRangeArg.slice('price:'.length));
+    if (!range) {
+      return ctx.reply(escapeMarkdownV2('Oops! Write the price range as price:<low>-<high>, for example price:140-165.'), { parse_mode: 'MarkdownV2' });
+    }
+    try {
+      const poolInfo = await getPoolRegistry(ctx.network).getPool(parseAddress(pool, 'pool address').toString());
+      ({ lowerBin, upperBin } = priceRangeToBinRange(range.low, range.high, poolInfo.price, poolInfo.binStep, poolInfo.activeBin));
+    } catch (error) {
+      console.error(`Add liquidity price conversion error for user ${ctx.from.id}:`, error);
+      return replyError(ctx, error, 'convert those prices to bins for this pool');
+    }
+  } else {
+    lowerBin = Number(args[1]);
+    upperBin = Number(args[2]);
+  }
+  const amountXStr = amountX.trim();
+  const amountYStr = amountY.trim();
+  
+  if (isNaN(lowerBin) || isNaN(upperBin) || lowerBin < 0 || upperBin < 0 || isNaN(Number(amountXStr)) || isNaN(Number(amountYStr)) || Number(amountXStr) <= 0 || Number(amountYStr) <= 0) {
+    return ctx.reply(escapeMarkdownV2('Oops! Please use valid positive numbers for bins and amounts\\. All inputs must be numerical except the pool address\\.'), { parse_mode: 'MarkdownV2' });
+  }
+  
+  try {
+    parseAddress(pool, 'pool address');
+    
+    await confirmLiquidityTx(ctx, { kind: 'add_liquidity', pool, lowerBin, upperBin, amountX: amountXStr, amountY: amountYStr });
+  } catch (error) {
+    console.error(`Add liquidity command error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'prepare your liquidity deposit');
+  }
+});
+
+bot.command('remove_liquidity', async (ctx) => {
+  const args = ctx.message.text.split(' ').slice(1).filter(Boolean);
+  if (args.length < 2) {
+    return ctx.reply(escapeMarkdownV2('Invalid format. Use: /remove_liquidity <position_address> <percent>, e.g. 50 to remove half.'), {
+      parse_mode: 'MarkdownV2',
+    });
+  }
+  const [positionPubkeyStr, amount] = args;
+  
+  if (!ctx.session.wallet) {
+    replyWalletMissing(ctx); // Use the new function for clarity
+    return;
+  }
+  
+  // The share of the position to remove, as a percentage; "50%" works too
+  const percent = Number(amount.replace(/%$/, ''));
+  if (!Number.isFinite(percent) || percent < 1 || percent > 100) {
+    return ctx.reply(escapeMarkdownV2(`"${amount}" isn’t a valid share. Give the percentage of the position to remove, from 1 to 100.`), {
+      parse_mode: 'MarkdownV2',
+    });
+  }
+  
+  try {
+    parseAddress(positionPubkeyStr, 'position address');
+    await confirmLiquidityTx(ctx, { kind: 'remove_liquidity', position: positionPubkeyStr, amount: String(percent) });
+  } catch (error) {
+    console.error(`Remove liquidity command error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'prepare your liquidity removal');
+  }
+});
+
+// --- Network switching ---
+
+const NETWORK_NOTES: Record<SolanaNetwork, string> = {
+  devnet: 'Devnet uses free test SOL from the faucet; nothing on it has real value.',
+  'mainnet-beta': 'Mainnet uses real funds: every transaction spends real SOL and tokens.',
+};
+
+const replyNetworkScreen = (ctx: MyContext) =>
+  ctx.reply(
+    escapeMarkdownV2(
+      `You are on ${NETWORK_LABELS[ctx.network]}. ${NETWORK_NOTES[ctx.network]}\n\n` +
+        'Each network has its own wallet and positions.'
+    ),
+    {
+      parse_mode: 'MarkdownV2',
+      ...Markup.inlineKeyboard([
+        ...SOLANA_NETWORKS.filter((network) => network !== ctx.network).map((network) => [
+          Markup.button.callback(`Switch to ${NETWORK_LABELS[network]}`, `net_switch:${network}`),
+        ]),
+        [Markup.button.callback('Go to menu', 'menu')],
+      ]),
     }
+  );
+
+bot.command('network', async (ctx) => {
+  try {
+    await replyNetworkScreen(ctx);
+  } catch (error) {
+    console.error(`Network command error for user ${ctx.from.id}:`, error);
+    replyError(ctx, error, 'load your network');
   }
 });
 
-// Action to request test tokens
-bot.action('request_tokens', async (ctx) => {
+bot.action('network', async (ctx) => {
   await ctx.answerCbQuery();
-  const userId = ctx.from!.id;
+  try {
+    await replyNetworkScreen(ctx);
+  } catch (error) {
+    console.error(`Network screen error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'load your network');
+  }
+});
 
+// Switching changes which wallet every command signs with, so it always asks first
+bot.action(/^net_switch:(devnet|mainnet-beta)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const target = ctx.match[1] as SolanaNetwork;
   try {
-    if (!ctx.session.wallet) {
-      replyWalletMissing(ctx);
-      return;
+    const wallet = await store.getWallet(ctx.from!.id, target);
+    const label = NETWORK_LABELS[target];
+    ctx.reply(
+      escapeMarkdownV2(
+        `Switch to ${label}? ${NETWORK_NOTES[target]}\n\n` +
+          (wallet
+            ? `Your ${label} wallet ${wallet.publicKey} will be used.`
+            : `You don't have a ${label} wallet yet, so you'll be asked to create or import one.`) +
+          '\nAnything unfinished, like a deposit waiting for confirmation, will be cancelled.'
+      ),
+      {
+        parse_mode: 'MarkdownV2',
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback(`Yes, switch to ${label}`, `net_confirm:${target}`)],
+          [Markup.button.callback('Cancel', 'menu')],
+        ]),
+      }
+    );
+  } catch (error) {
+    console.error(`Network switch error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'switch networks');
+  }
+});
+
+bot.action(/^net_confirm:(devnet|mainnet-beta)$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const userId = ctx.from!.id;
+  const target = ctx.match[1] as SolanaNetwork;
+  try {
+    const state = (await store.getState(userId)) || createDefaultUserState();
+    if (state.network !== target) {
+      // The last poll's readings belong to the old network's wallet; preferences (quiet hours, poll interval,
+      // digest) carry over, and alert rules are kept per network
+      const { lastBalance, lastPositions } = createDefaultUserState();
+      await store.saveState(userId, { ...state, network: target, lastBalance, lastPositions, lastPortfolio: undefined });
     }
+    // Everything in the session (wallet, pending flows, picked pool) belongs to the old network
+    ctx.session = {};
+    ctx.network = target;
 
-    if (!states[userId]) {
-      states[userId] = { lastBalance: 0, lastPositions: [], lastSignatures: [], network: 'devnet', lastFaucetTime: 0 };
+    if (!(await store.getWallet(userId, target))) {
+      ctx.reply(escapeMarkdownV2(`Switched to ${NETWORK_LABELS[target]}. Set up a wallet for this network to get started:`), {
+        parse_mode: 'MarkdownV2',
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback('Create a new wallet', 'create_wallet')],
+          [Markup.button.callback('Import a wallet', 'import_wallet')],
+        ]),
+      });
+      return;
     }
-    const state = states[userId];
-    const now = Date.now();
-    const timeSinceLastFaucet = (now - (state.lastFaucetTime || 0)) / 1000; // In seconds
-    const hourlyLimitSeconds = 60 * 60; // 1 hour
+    ctx.reply(escapeMarkdownV2(`Switched to ${NETWORK_LABELS[target]}. What would you like to do next?`), {
+      parse_mode: 'MarkdownV2',
+      ...mainMenuKeyboard(target),
+    });
+  } catch (error) {
+    console.error(`Network confirm error for user ${userId}:`, error);
+    replyError(ctx, error, 'switch networks');
+  }
+});
 
-    // Check hourly limit
-    if (timeSinceLastFaucet < hourlyLimitSeconds) {
-      const remainingTime = Math.ceil((hourlyLimitSeconds - timeSinceLastFaucet) / 60);
-      ctx.reply(escapeMarkdownV2(`Sorry, you can only request tokens once per hour. Wait *${remainingTime}* minutes and try again.`), { parse_mode: 'MarkdownV2' });
+// /tx: the user's most recent tracked transactions and where each one got to
+bot.command('tx', async (ctx) => {
+  try {
+    const transactions = await store.listTransactions(ctx.from.id, 10);
+    if (!transactions.length) {
+      ctx.reply(escapeMarkdownV2('No transactions yet. Transactions you send from this bot will show up here.'), { parse_mode: 'MarkdownV2' });
       return;
     }
+    const lines = transactions.map(
+      (tx, i) =>
+        escapeMarkdownV2(
+          `${i + 1}. ${TX_KIND_LABELS[tx.kind]}, ${txStatusLabel(tx)}\n` +
+            `${new Date(tx.createdAt).toISOString().slice(0, 16).replace('T', ' ')} UTC, ${describeTxParams(tx)}\n`
+        ) + `[${escapeMarkdownV2(`${tx.signature.slice(0, 10)}...`)}](${explorerTxUrl(tx.signature, tx.network)})`
+    );
+    ctx.reply(`${escapeMarkdownV2('Your recent transactions:')}\n\n${lines.join('\n\n')}`, {
+      parse_mode: 'MarkdownV2',
+      link_preview_options: { is_disabled: true },
+    });
+  } catch (error) {
+    console.error(`Transaction list error for user ${ctx.from.id}:`, error);
+    replyError(ctx, error, 'load your transactions');
+  }
+});
 
-    ctx.reply(escapeMarkdownV2('Requesting 2 test SOL, this may take a moment...'));
-    
-    const pubkey = new PublicKey(ctx.session.wallet.publicKey);
-    let signature;
-    
-    // --- Attempt with Primary and Fallback RPCs ---
+const EXPORT_USAGE =
+  `Use: /export [${EXPORT_FORMATS.join('|')}] [from YYYY-MM-DD] [to YYYY-MM-DD]\n` +
+  'Covers the last 30 days by default; both dates are inclusive (UTC). Use /export csv all for everything.';
+
+/**
+ * Parses `[format] [from] [to]` (or `all`). Throws with a user-facing message on bad input.
+ */
+const parseExportArgs = (tokens: string[], now = Date.now()) => {
+  let format: ExportFormat = 'csv';
+  if (EXPORT_FORMATS.includes(tokens[0]?.toLowerCase() as ExportFormat)) format = tokens.shift()!.toLowerCase() as ExportFormat;
+  if (tokens[0]?.toLowerCase() === 'all') return { format, from: 0, to: now };
+
+  const parseDay = (value: string) => {
+    const at = /^\d{4}-\d{2}-\d{2}$/.test(value) ? Date.parse(`${value}T00:00:00Z`) : NaN;
+    if (isNaN(at)) throw new Error(`"${value}" isn’t a date in YYYY-MM-DD format`);
+    return at;
+  };
+  const from = tokens[0] ? parseDay(tokens[0]) : now - 30 * 24 * 60 * 60 * 1000;
+  const to = tokens[1] ? parseDay(tokens[1]) + 24 * 60 * 60 * 1000 : now;
+  if (from >= to) throw new Error('The start date must be before the end date');
+  return { format, from, to };
+};
+
+// /export: positions, transactions and fee history as a CSV or JSON document, for accounting
+bot.command('export', async (ctx) => {
+  const userId = ctx.from.id;
+  try {
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx);
+      return;
+    }
+    let options: ReturnType<typeof parseExportArgs>;
     try {
-      signature = await requestAirdropWithRetry(connection, pubkey, 2e9); 
-    } catch (primaryError) {
-      console.warn(`Primary RPC failed: ${RPC_URL}. Trying fallback RPC...`);
-      const fallbackConnection = new Connection(FALLBACK_RPC_URL, 'confirmed');
-      signature = await requestAirdropWithRetry(fallbackConnection, pubkey, 2e9);
+      options = parseExportArgs(ctx.message.text.split(' ').slice(1).filter(Boolean));
+    } catch (error) {
+      return ctx.reply(escapeMarkdownV2(`${(error as Error).message}. ${EXPORT_USAGE}`), { parse_mode: 'MarkdownV2' });
     }
-    
-    // Success
-    states[userId] = { ...state, lastFaucetTime: now };
-    ctx.reply(
-      escapeMarkdownV2(`Success! You got 2 test SOL.\nTransaction Signature: ${signature.slice(0, 10)}....\nCheck your wallet in a few minutes.`), 
+    const { format, from, to } = options;
+
+    const [positions, transactions, rebalances, snapshots] = await Promise.all([
+      createDlmmService({ user: new PublicKey(ctx.session.wallet.publicKey), network: ctx.network }).getPositions(),
+      store.listTransactions(userId, Infinity),
+      store.listRebalanceOperations(userId),
+      // Snapshots from the day before the window too, so the first day's fees have a starting point
+      store.listPositionSnapshots(userId, ctx.network, Math.max(0, from - 24 * 60 * 60 * 1000)),
+    ]);
+    const now = Date.now();
+    const feeAccruals = claimsFees(ctx.network);
+    const input = { network: ctx.network, from, to, positions, transactions, rebalances, snapshots, now, feeAccruals };
+    const rows = buildExportRows(input);
+    const content = format === 'csv' ? toCsv(rows) : toJson(rows, input);
+    const day = (at: number) => new Date(at).toISOString().slice(0, 10);
+    const filename = `dlmm-${ctx.network}-${day(from)}-to-${day(to - 1)}.${format}`;
+
+    await ctx.replyWithDocument(
+      { source: Buffer.from(content, 'utf8'), filename },
       {
-        ...Markup.inlineKeyboard([[Markup.button.callback('Go to menu', 'menu')]]),
+        caption: escapeMarkdownV2(
+          `${rows.length} rows from ${day(from)} to ${day(to - 1)} (UTC) on ${NETWORK_LABELS[ctx.network]}. ` +
+            `Schema version ${EXPORT_SCHEMA_VERSION}: columns are ${EXPORT_COLUMNS.map(([column]) => column).join(', ')}.` +
+            (feeAccruals ? '' : ' No fee_accrual rows: swap fees are added to the positions’ bins, so they are part of the position amounts.')
+        ),
         parse_mode: 'MarkdownV2',
       }
     );
   } catch (error) {
-    console.error(`Request tokens error for user ${ctx.from!.id}:`, error);
-    const err = error as any;
-
-    // Step 1: Define the plain text error part (and escape it)
-    let replyMessage = 'Sorry, the airdrop service is unavailable or severely rate-limited right now.';
-    
-    if ((err.message || '').includes('rate limit') || (err.message || '').includes('Airdrop failed')) {
-      replyMessage += ' This is common on Devnet public RPCs.';
-    } else if ((err.message || '').includes('timeout') || (err.message || '').includes('network')) {
-      replyMessage += ' We encountered a network issue during the request.';
-    }
-    
-    const escapedReplyMessage = escapeMarkdownV2(replyMessage);
+    console.error(`Export error for user ${userId}:`, error);
+    replyError(ctx, error, 'build your export');
+  }
+});
 
-    // Step 2: Construct the final message using a template literal, ensuring backticks are used correctly for Markdown V2
-    const walletAddress = ctx.session.wallet?.publicKey || 'No wallet set';
-    const faucetLink = 'https://faucet.solana.com/';
+// /status (admins only): health of each RPC endpoint per network, preferred endpoint first, and poller metrics
+bot.command('status', async (ctx) => {
+  if (!ADMIN_USER_IDS.has(ctx.from.id)) {
+    ctx.reply(escapeMarkdownV2('This command is only available to bot operators.'), { parse_mode: 'MarkdownV2' });
+    return;
+  }
+  const now = Date.now();
+  const sections = listRpcManagers().map(([network, manager]) => {
+    const lines = manager.health().map((endpoint, i) => {
+      const state = endpoint.healthy
+        ? 'healthy'
+        : `cooling down for ${Math.ceil((endpoint.cooldownUntil - now) / 1000)}s`;
+      const latency = endpoint.latencyMs === null ? 'n/a' : `${Math.round(endpoint.latencyMs)} ms`;
+      return (
+        `${i + 1}. ${endpoint.url}\n` +
+        `${state}, latency ${latency}, error rate ${(endpoint.errorRate * 100).toFixed(1)}%\n` +
+        `${endpoint.requests} requests, ${endpoint.failures} failed` +
+        (endpoint.lastError ? `\nLast error: ${endpoint.lastError}` : '')
+      );
+    });
+    return `${NETWORK_LABELS[network]} RPC endpoints:\n\n${lines.join('\n\n')}`;
+  });
+  const poll = pollScheduler.metrics();
+  const lastRun = poll.lastRun
+    ? `Last run ${formatAge(poll.lastRun.startedAt)}: ${poll.lastRun.due} due, ${poll.lastRun.succeeded} ok, ` +
+      `${poll.lastRun.failed} failed, ${poll.lastRun.timedOut} timed out in ${poll.lastRun.durationMs} ms`
+    : 'No runs yet';
+  sections.push(
+    `Polling:\n\n${poll.jobs} wallets watched, ${poll.inFlight} polls in flight\n` +
+      `${poll.runs} runs, ${poll.jobsSucceeded} polls ok, ${poll.jobsFailed} failed, ${poll.skippedTicks} ticks skipped\n` +
+      `Average poll ${poll.averageJobMs === null ? 'n/a' : `${Math.round(poll.averageJobMs)} ms`}\n${lastRun}`
+  );
+  ctx.reply(escapeMarkdownV2(sections.join('\n\n')), {
+    parse_mode: 'MarkdownV2',
+    link_preview_options: { is_disabled: true },
+  });
+});
 
-    const finalMessage = 
-        escapedReplyMessage + 
-        '\n\n' +
-        escapeMarkdownV2('You can also try the official web faucet: ') + 
-        `\`${faucetLink}\`` + 
-        escapeMarkdownV2(' using your wallet address: ') + 
-        `\`${walletAddress}\``;
+bot.command('pollinterval', async (ctx) => {
+  const userId = ctx.from.id;
+  const arg = ctx.message.text.split(' ').slice(1).filter(Boolean)[0];
+  const options = `Choose one of ${POLL_INTERVAL_OPTIONS.join(', ')} minutes, e.g. /pollinterval 15, or /pollinterval default.`;
 
-    ctx.reply(finalMessage, { parse_mode: 'MarkdownV2' });
+  try {
+    const state = (await store.getState(userId)) || { ...createDefaultUserState(), network: ctx.network };
+    if (!arg) {
+      const current = state.pollIntervalMinutes ?? DEFAULT_POLL_INTERVAL_MINUTES;
+      return ctx.reply(escapeMarkdownV2(`Your wallet is checked for alerts every ${current} minutes. ${options}`), { parse_mode: 'MarkdownV2' });
+    }
+    const minutes = arg.toLowerCase() === 'default' ? undefined : Number(arg);
+    if (minutes !== undefined && !POLL_INTERVAL_OPTIONS.includes(minutes)) {
+      return ctx.reply(escapeMarkdownV2(`"${arg}" isn’t an available interval. ${options}`), { parse_mode: 'MarkdownV2' });
+    }
+    await store.saveState(userId, { ...state, pollIntervalMinutes: minutes });
+    ctx.reply(escapeMarkdownV2(`Your wallet will be checked every ${minutes ?? DEFAULT_POLL_INTERVAL_MINUTES} minutes.`), { parse_mode: 'MarkdownV2' });
+  } catch (error) {
+    console.error(`Poll interval error for user ${userId}:`, error);
+    replyError(ctx, error, 'change your poll interval');
   }
 });
 
-// Update action handlers
+// /claim [position_address] and /compound [position_address]: one position, or all of them without an address
+for (const command of ['claim', 'compound'] as const) {
+  bot.command(command, async (ctx) => {
+    try {
+      if (!ctx.session.wallet) {
+        replyWalletMissing(ctx);
+        return;
+      }
+      const address = ctx.message.text.split(' ').slice(1).find(Boolean);
+      if (address) parseAddress(address, 'position address'); // Validates the format before any lookup
+      await collectFees(ctx, command === 'compound', address);
+    } catch (error) {
+      console.error(`${command} command error for user ${ctx.from.id}:`, error);
+      replyError(ctx, error, 'collect your fees');
+    }
+  });
+}
 
-bot.action('positions', async (ctx) => {
-  await ctx.answerCbQuery();
-  
+bot.command('pools', async (ctx) => {
+  try {
+    await replyPoolsPage(ctx, 0);
+  } catch (error) {
+    console.error(`Pools command error for user ${ctx.from.id}:`, error);
+    replyError(ctx, error, 'load the pools');
+  }
+});
+
+bot.command('rebalance', async (ctx) => {
   try {
     if (!ctx.session.wallet) {
       replyWalletMissing(ctx); // Use the new function for clarity
       return;
     }
-    const message = await getPositions(new PublicKey(ctx.session.wallet.publicKey));
+    // Optional strategy argument: /rebalance [spot|curve|bid-ask]
+    const strategyArg = (ctx.message.text.split(' ')[1] || 'spot').toLowerCase() as RebalanceStrategy;
+    if (!REBALANCE_STRATEGIES.includes(strategyArg)) {
+      return ctx.reply(escapeMarkdownV2(`Unknown strategy. Use: /rebalance [${REBALANCE_STRATEGIES.join('|')}]`), { parse_mode: 'MarkdownV2' });
+    }
+    const { message, recommendations } = await getRebalanceSuggestion(new PublicKey(ctx.session.wallet.publicKey), ctx.network, strategyArg);
+    ctx.session.rebalancePlans = recommendations;
     ctx.reply(message, {
       parse_mode: 'MarkdownV2',
-      ...Markup.inlineKeyboard([[Markup.button.callback('Go to menu', 'menu')]]),
+      ...rebalanceKeyboard(strategyArg, recommendations),
     });
   } catch (error) {
-    console.error(`Positions error for user ${ctx.from!.id}:`, error);
-    const errorMessage = (error as Error).message || 'an unknown error occurred';
-    ctx.reply(escapeMarkdownV2(`Sorry, we couldn’t check your positions. Error: ${errorMessage}. Try again later.`), { parse_mode: 'MarkdownV2' });
+    console.error(`Rebalance command error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'suggest a rebalance');
   }
 });
 
-bot.action('add_liquidity', async (ctx) => {
-  await ctx.answerCbQuery();
-  
-  if (!ctx.session.wallet) {
-    replyWalletMissing(ctx); // Use the new function for clarity
-    return;
-  }
-  
-  ctx.reply(
-    escapeMarkdownV2('Add liquidity by typing: `/add_liquidity <pool_address> <lower_bin> <upper_bin> <amount_x> <amount_y>`\n\nOr try a test option:'),
-    {
-      ...Markup.inlineKeyboard([
-        [Markup.button.callback('Try a test amount', 'add_liquidity_mock')],
-        [Markup.button.callback('Go to menu', 'menu')],
-      ]),
-      parse_mode: 'MarkdownV2',
+bot.command('autorebalance', async (ctx) => {
+  const userId = ctx.from.id;
+  const [subcommand = 'list', indexArg, ...rest] = ctx.message.text.split(' ').slice(1).filter(Boolean);
+
+  try {
+    if (!ctx.session.wallet) {
+      replyWalletMissing(ctx);
+      return;
     }
-  );
+    const positions = await createDlmmService({ user: new PublicKey(ctx.session.wallet.publicKey), network: ctx.network }).getPositions();
+    const rules = await store.listAutoRebalanceRules(userId, ctx.network);
+    const ruleFor = (position: PositionData) => rules.find((rule) => findRulePosition(rule, [position]));
+
+    if (subcommand === 'list') {
+      if (!positions.length) {
+        return ctx.reply(escapeMarkdownV2('You don’t have any positions yet. Add liquidity first!'), { parse_mode: 'MarkdownV2' });
+      }
+      const lines = positions.map((p, i) => {
+        const rule = ruleFor(p);
+        return (
+          `*Position ${i + 1}* \\(${escapeMarkdownV2(`${p.lowerBin} to ${p.upperBin}`)}\\)\n` +
+          escapeMarkdownV2(rule ? formatAutoRebalanceRule(rule) : 'Auto-rebalance off.')
+        );
+      });
+      return ctx.reply(`*Auto\\-rebalancing*\n\n${lines.join('\n\n')}\n\n${escapeMarkdownV2(AUTO_REBALANCE_USAGE)}`, { parse_mode: 'MarkdownV2' });
+    }
+
+    const position = positions[Number(indexArg) - 1];
+    if (!['on', 'set', 'pause', 'resume', 'off'].includes(subcommand) || !position) {
+      return ctx.reply(escapeMarkdownV2(`${position || !indexArg ? '' : 'Unknown position number. '}${AUTO_REBALANCE_USAGE}`), { parse_mode: 'MarkdownV2' });
+    }
+    const existing = ruleFor(position);
+
+    let settings: Partial<AutoRebalanceSettings>;
+    try {
+      settings = parseAutoRebalanceSettings(rest);
+      if (settings.minFeesEarned && !claimsFees(ctx.network)) {
+        throw new Error(`minfees can’t be used here: ${FEES_IN_BINS_NOTE}`);
+      }
+    } catch (error) {
+      return ctx.reply(escapeMarkdownV2(`${(error as Error).message}. ${AUTO_REBALANCE_USAGE}`), { parse_mode: 'MarkdownV2' });
+    }
+
+    let rule: AutoRebalanceRule;
+    switch (subcommand) {
+      case 'on':
+        rule = existing ? { ...existing, ...settings, enabled: true, updatedAt: Date.now() } : createAutoRebalanceRule(position, ctx.network, settings);
+        break;
+      case 'off':
+        if (existing) await store.deleteAutoRebalanceRule(userId, ctx.network, existing.position);
+        return ctx.reply(escapeMarkdownV2(`Auto-rebalance turned off for position ${indexArg}.`), { parse_mode: 'MarkdownV2' });
+      default:
+        if (!existing) {
+          return ctx.reply(escapeMarkdownV2(`Position ${indexArg} isn’t set up for auto-rebalancing. Use /autorebalance on ${indexArg} first.`), { parse_mode: 'MarkdownV2' });
+        }
+        rule = { ...existing, ...settings, updatedAt: Date.now() };
+        if (subcommand === 'pause') rule.enabled = false;
+        if (subcommand === 'resume') rule = { ...rule, enabled: true, consecutiveOutOfRange: 0, lastNotice: undefined };
+    }
+    await store.saveAutoRebalanceRule(userId, rule);
+
+    const signingNote = keyVault.isPassphraseProtected(ctx.session.wallet)
+      ? '\n\nYour wallet has a passphrase, so auto-rebalances only run while it is unlocked.'
+      : '';
+    ctx.reply(escapeMarkdownV2(`Position ${indexArg}: ${formatAutoRebalanceRule(rule)}${signingNote}`), { parse_mode: 'MarkdownV2' });
+  } catch (error) {
+    console.error(`Autorebalance command error for user ${userId}:`, error);
+    replyError(ctx, error, 'update auto-rebalancing');
+  }
 });
 
-bot.action('add_liquidity_mock', async (ctx) => {
-  await ctx.answerCbQuery();
+// --- Alert rules ---
+
+const ALERTS_USAGE =
+  'Use:\n' +
+  '/alerts - list your alert rules on this network\n' +
+  '/alerts add range [position #] - a position goes out of range\n' +
+  '/alerts add price <pool address> above|below <price>\n' +
+  '/alerts add fees <amount> [position #] - uncollected fees exceed the amount\n' +
+  '/alerts add balance <SOL> - your SOL balance drops below the amount\n' +
+  '/alerts add change <position #> - a position changes (range, liquidity or amounts)\n' +
+  '/alerts mute|unmute|delete <rule #>\n' +
+  '/alerts quiet <start>-<end> [utc±H] - hold alerts during these hours, e.g. /alerts quiet 22-7 utc+2\n' +
+  '/alerts quiet off\n\n' +
+  `Add cooldown=M to an add command to wait at least M minutes between alerts from that rule (default ${DEFAULT_ALERT_COOLDOWN_MINUTES}).`;
+
+/**
+ * Parses the tokens after `/alerts add` into a rule. Throws with a user-facing message on bad input.
+ */
+const parseAlertRule = (network: SolanaNetwork, tokens: string[], positions: PositionData[]) => {
+  const cooldownToken = tokens.find((token) => token.toLowerCase().startsWith('cooldown='));
+  const [type, ...args] = tokens.filter((token) => token !== cooldownToken);
+  let cooldownMinutes: number | undefined;
+  if (cooldownToken) {
+    cooldownMinutes = Number(cooldownToken.split('=')[1]);
+    if (!cooldownToken.split('=')[1] || isNaN(cooldownMinutes) || cooldownMinutes < 0) throw new Error(`"${cooldownToken}" needs a non-negative number of minutes`);
+  }
+
+  const amount = (value: string | undefined, name: string) => {
+    const num = Number(value);
+    if (!value || isNaN(num) || num < 0) throw new Error(`Please give the ${name} as a non-negative number`);
+    return num;
+  };
+  const positionArg = (value: string | undefined, required: boolean) => {
+    if (value === undefined && !required) return undefined;
+    const position = positions[Number(value) - 1];
+    if (!position) throw new Error(value === undefined ? 'Please give a position number' : `Unknown position number "${value}"`);
+    if (!position.position) throw new Error('That position can’t be watched on its own');
+    return position.position;
+  };
+
+  switch (type?.toLowerCase()) {
+    case 'range':
+      return createAlertRule(network, 'out_of_range', { position: positionArg(args[0], false), cooldownMinutes });
+    case 'price': {
+      const [pool, direction, price] = args;
+      try {
+        new PublicKey(pool);
+      } catch {
+        throw new Error('Please give a valid pool address');
+      }
+      if (direction !== 'above' && direction !== 'below') throw new Error('Please say whether to alert above or below the price');
+      return createAlertRule(network, direction === 'above' ? 'price_above' : 'price_below', {
+        pool,
+        threshold: amount(price, 'price'),
+        cooldownMinutes,
+      });
+    }
+    case 'fees':
+      if (!claimsFees(network)) throw new Error(`Fee alerts aren’t available: ${FEES_IN_BINS_NOTE}`);
+      return createAlertRule(network, 'fees_above', { threshold: amount(args[0], 'fee amount'), position: positionArg(args[1], false), cooldownMinutes });
+    case 'balance':
+      return createAlertRule(network, 'balance_below', { threshold: amount(args[0], 'SOL amount'), cooldownMinutes });
+    case 'change':
+      return createAlertRule(network, 'position_changed', { position: positionArg(args[0], true), cooldownMinutes });
+    default:
+      throw new Error(type ? `Unknown alert type "${type}"` : 'Please say what to alert on');
+  }
+};
+
+/**
+ * Parses an optional `utc±H[:MM]` time zone into minutes east of UTC (UTC when missing).
+ * Throws with a user-facing message on bad input.
+ */
+const parseUtcOffset = (token: string | undefined) => {
+  if (!token) return 0;
+  const offset = /^(?:utc)?([+-])(\d{1,2})(?::(\d{2}))?$/i.exec(token);
+  if (!offset || Number(offset[2]) > 14) throw new Error(`Unknown time zone "${token}" (expected e.g. utc+2 or utc-5:30)`);
+  return (offset[1] === '-' ? -1 : 1) * (Number(offset[2]) * 60 + Number(offset[3] || 0));
+};
+
+const formatUtcOffset = (utcOffsetMinutes: number) => {
+  const abs = Math.abs(utcOffsetMinutes);
+  return `UTC${utcOffsetMinutes < 0 ? '-' : '+'}${Math.floor(abs / 60)}${abs % 60 ? `:${String(abs % 60).padStart(2, '0')}` : ''}`;
+};
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+/**
+ * Parses `<start>-<end> [utc±H[:MM]]`. Throws with a user-facing message on bad input.
+ */
+const parseQuietHours = (tokens: string[]): QuietHours => {
+  const match = /^(\d{1,2})-(\d{1,2})$/.exec(tokens[0] || '');
+  const startHour = Number(match?.[1]);
+  const endHour = Number(match?.[2]);
+  if (!match || startHour > 23 || endHour > 23) throw new Error('Please give the hours as <start>-<end>, e.g. 22-7');
+  return { startHour, endHour, utcOffsetMinutes: parseUtcOffset(tokens[1]) };
+};
+
+const formatQuietHours = ({ startHour, endHour, utcOffsetMinutes }: QuietHours) =>
+  `${formatHour(startHour)} to ${formatHour(endHour)} ${formatUtcOffset(utcOffsetMinutes)}`;
+
+const formatAlertRule = (rule: AlertRule, index: number) =>
+  `${index + 1}. Alert when ${describeAlertRule(rule)}. ` +
+  `${rule.muted ? 'Muted' : rule.triggered ? 'Active now' : 'Watching'}, cooldown ${rule.cooldownMinutes} min` +
+  (rule.lastFiredAt ? `, last alert ${new Date(rule.lastFiredAt).toISOString().replace('T', ' ').slice(0, 16)} UTC` : '') +
+  '.';
+
+bot.command('alerts', async (ctx) => {
+  const userId = ctx.from.id;
+  const [subcommand = 'list', ...args] = ctx.message.text.split(' ').slice(1).filter(Boolean);
 
   try {
     if (!ctx.session.wallet) {
-      replyWalletMissing(ctx); // Use the new function for clarity
+      replyWalletMissing(ctx);
       return;
     }
-    const keypair = Keypair.fromSecretKey(bs58.decode(ctx.session.wallet.privateKey));
-    // Pass the actual keypair for signing
-    const sig = await dlmmService.addLiquidity(1, 10, '1', '1', keypair); 
-    
-    ctx.reply(
-      escapeMarkdownV2(`Great! Your mock liquidity was added.\nTransaction Signature: ${sig.slice(0, 10)}....\nCheck your wallet soon.`), 
-      {
-        ...Markup.inlineKeyboard([[Markup.button.callback('Go to menu', 'menu')]]),
-        parse_mode: 'MarkdownV2',
+    const rules = (await store.listAlertRules(userId)).filter((rule) => rule.network === ctx.network);
+    const state = (await store.getState(userId)) || { ...createDefaultUserState(), network: ctx.network };
+
+    switch (subcommand.toLowerCase()) {
+      case 'list': {
+        const lines = rules.length ? rules.map(formatAlertRule) : ['No alert rules yet.'];
+        const quiet = state.quietHours ? `Quiet hours: ${formatQuietHours(state.quietHours)}.` : 'No quiet hours set.';
+        return ctx.reply(`*Alert rules*\n\n${escapeMarkdownV2(`${lines.join('\n')}\n\n${quiet}\n\n${ALERTS_USAGE}`)}`, {
+          parse_mode: 'MarkdownV2',
+        });
       }
-    );
+      case 'add': {
+        const positions = await createDlmmService({ user: new PublicKey(ctx.session.wallet.publicKey), network: ctx.network }).getPositions();
+        let rule: AlertRule;
+        try {
+          rule = parseAlertRule(ctx.network, args, positions);
+        } catch (error) {
+          return ctx.reply(escapeMarkdownV2(`${(error as Error).message}. ${ALERTS_USAGE}`), { parse_mode: 'MarkdownV2' });
+        }
+        await store.saveAlertRule(userId, rule);
+        return ctx.reply(escapeMarkdownV2(`Added: ${formatAlertRule(rule, rules.length)}`), { parse_mode: 'MarkdownV2' });
+      }
+      case 'mute':
+      case 'unmute':
+      case 'delete': {
+        const rule = rules[Number(args[0]) - 1];
+        if (!rule) {
+          return ctx.reply(escapeMarkdownV2(`${args[0] ? 'Unknown rule number. ' : ''}${ALERTS_USAGE}`), { parse_mode: 'MarkdownV2' });
+        }
+        if (subcommand.toLowerCase() === 'delete') {
+          await store.deleteAlertRule(userId, rule.id);
+          return ctx.reply(escapeMarkdownV2(`Deleted alert rule ${args[0]}.`), { parse_mode: 'MarkdownV2' });
+        }
+        const updated = { ...rule, muted: subcommand.toLowerCase() === 'mute', updatedAt: Date.now() };
+        await store.saveAlertRule(userId, updated);
+        return ctx.reply(escapeMarkdownV2(formatAlertRule(updated, Number(args[0]) - 1)), { parse_mode: 'MarkdownV2' });
+      }
+      case 'quiet': {
+        if (args[0]?.toLowerCase() === 'off') {
+          await store.saveState(userId, { ...state, quietHours: undefined });
+          return ctx.reply(escapeMarkdownV2('Quiet hours turned off.'), { parse_mode: 'MarkdownV2' });
+        }
+        let quietHours: QuietHours;
+        try {
+          quietHours = parseQuietHours(args);
+        } catch (error) {
+          return ctx.reply(escapeMarkdownV2(`${(error as Error).message}. ${ALERTS_USAGE}`), { parse_mode: 'MarkdownV2' });
+        }
+        await store.saveState(userId, { ...state, quietHours });
+        return ctx.reply(
+          escapeMarkdownV2(`Quiet hours set to ${formatQuietHours(quietHours)}. Alerts due in that window are sent once it ends.`),
+          { parse_mode: 'MarkdownV2' }
+        );
+      }
+      default:
+        return ctx.reply(escapeMarkdownV2(ALERTS_USAGE), { parse_mode: 'MarkdownV2' });
+    }
   } catch (error) {
-    console.error(`Add liquidity mock error for user ${ctx.from!.id}:`, error);
-    const errorMessage = (error as Error).message || 'an unknown error occurred';
-    ctx.reply(escapeMarkdownV2(`Sorry, we couldn’t add your liquidity. Error: ${errorMessage}. Try again later.`), { parse_mode: 'MarkdownV2' });
+    console.error(`Alerts command error for user ${userId}:`, error);
+    replyError(ctx, error, 'update your alerts');
   }
 });
 
-bot.action('remove_liquidity', async (ctx) => {
-  await ctx.answerCbQuery();
+// --- PnL reports ---
 
-  if (!ctx.session.wallet) {
-    replyWalletMissing(ctx); // Use the new function for clarity
-    return;
-  }
-  
-  ctx.reply(
-    escapeMarkdownV2('Remove liquidity by typing: `/remove_liquidity <position_pubkey> <amount>`\n\n_Note: You need the position\'s public key from the "See my positions" view to use this command._'),
-    {
-      ...Markup.inlineKeyboard([
-        [Markup.button.callback('Go to menu', 'menu')],
-      ]),
-      parse_mode: 'MarkdownV2',
-    }
+const PNL_WINDOW_LABELS: Record<PnlWindow, string> = { '24h': 'Last 24h', '7d': 'Last 7 days', open: 'Since open' };
+
+const formatSigned = (value: number) => `${value < 0 ? '-' : '+'}${formatAmount(Math.abs(value))}`;
+
+// "3d 4h" style length of a period
+const formatDuration = (ms: number) => {
+  const hours = Math.floor(ms / (60 * 60 * 1000));
+  if (hours >= 24) return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+  return hours ? `${hours}h ${Math.floor(ms / 60000) % 60}m` : `${Math.floor(ms / 60000)}m`;
+};
+
+const formatPositionPnl = (p: PositionPnl, index: number, feesReported: boolean) => {
+  const inRange = p.trackedMs ? `${((p.inRangeMs / p.trackedMs) * 100).toFixed(0)}% (${formatDuration(p.inRangeMs)})` : 'n/a';
+  const il = p.impermanentLossPercent === null ? '' : ` (${p.impermanentLossPercent.toFixed(2)}%)`;
+  return (
+    `*Position ${index + 1}* \\(${escapeMarkdownV2(`${p.tokenX}/${p.tokenY}${p.open ? '' : ', closed'}`)}\\)\n` +
+    escapeMarkdownV2(
+      `Value: ${formatAmount(p.valueStart)} to ${formatAmount(p.valueEnd)} ${p.tokenY}\n` +
+        (feesReported ? `Fees earned: ${formatAmount(p.feesEarned)} ${p.tokenY}\n` : '') +
+        `Impermanent loss vs holding: ${formatSigned(p.impermanentLoss)} ${p.tokenY}${il}\n` +
+        `Net PnL: ${formatSigned(p.netPnl)} ${p.tokenY}\n` +
+        `In range: ${inRange} of ${formatDuration(p.trackedMs)} tracked` +
+        (p.liquidityChanged ? '\nLiquidity was added or removed; those amounts are left out of the PnL.' : '')
+    )
   );
-});
+};
 
-bot.action('rebalance', async (ctx) => {
-  await ctx.answerCbQuery();
+const replyPnl = async (ctx: MyContext, window: PnlWindow) => {
+  const snapshots = await store.listPositionSnapshots(ctx.from!.id, ctx.network, pnlWindowStart(window));
+  const keyboard = Markup.inlineKeyboard([
+    PNL_WINDOWS.map((w) => Markup.button.callback(w === window ? `• ${PNL_WINDOW_LABELS[w]}` : PNL_WINDOW_LABELS[w], `pnl:${w}`)),
+    [Markup.button.callback('Go to menu', 'menu')],
+  ]);
+  if (!snapshots.length) {
+    return ctx.reply(
+      escapeMarkdownV2('No position history for this period yet. Positions are recorded every time your wallet is polled.'),
+      { parse_mode: 'MarkdownV2', ...keyboard }
+    );
+  }
+
+  const report = buildPnlReport(window, snapshots);
+  const feesReported = claimsFees(ctx.network);
+  const totals = report.totals.map(
+    (t) =>
+      `${t.token}: ${feesReported ? `fees ${formatAmount(t.feesEarned)}, ` : ''}IL ${formatSigned(t.impermanentLoss)}, net ${formatSigned(t.netPnl)}`
+  );
+  return ctx.reply(
+    `*PnL: ${escapeMarkdownV2(PNL_WINDOW_LABELS[window])}*\n\n` +
+      `${report.positions.map((p, i) => formatPositionPnl(p, i, feesReported)).join('\n\n')}\n\n` +
+      `*Overall*\n${escapeMarkdownV2(totals.join('\n'))}\n\n` +
+      escapeMarkdownV2(
+        'Values are in each pool’s quote token, from the snapshots taken at each poll.' +
+          (feesReported ? '' : ' Swap fees are added to the positions’ bins, so they are included in the values and the net PnL.')
+      ),
+    { parse_mode: 'MarkdownV2', ...keyboard }
+  );
+};
 
+// /pnl [24h|7d|open]
+bot.command('pnl', async (ctx) => {
+  const arg = ctx.message.text.split(' ').slice(1).filter(Boolean)[0]?.toLowerCase() ?? '24h';
   try {
     if (!ctx.session.wallet) {
-      replyWalletMissing(ctx); // Use the new function for clarity
+      replyWalletMissing(ctx);
       return;
     }
-    const suggestion = await getRebalanceSuggestion(new PublicKey(ctx.session.wallet.publicKey));
-    ctx.reply(suggestion, {
-      parse_mode: 'MarkdownV2',
-      ...Markup.inlineKeyboard([[Markup.button.callback('Go to menu', 'menu')]]),
-    });
+    if (!isPnlWindow(arg)) {
+      return ctx.reply(escapeMarkdownV2(`Use: /pnl [${PNL_WINDOWS.join('|')}]`), { parse_mode: 'MarkdownV2' });
+    }
+    await replyPnl(ctx, arg);
   } catch (error) {
-    console.error(`Rebalance error for user ${ctx.from!.id}:`, error);
-    const errorMessage = (error as Error).message || 'an unknown error occurred';
-    ctx.reply(escapeMarkdownV2(`Sorry, we couldn’t suggest a rebalance right now. Error: ${errorMessage}. Try again later.`), { parse_mode: 'MarkdownV2' });
+    console.error(`PnL command error for user ${ctx.from.id}:`, error);
+    replyError(ctx, error, 'build your PnL report');
   }
 });
 
-bot.action('wallet_overview', async (ctx) => {
+bot.action(/^pnl:(24h|7d|open)$/, async (ctx) => {
   await ctx.answerCbQuery();
-
   try {
     if (!ctx.session.wallet) {
-      replyWalletMissing(ctx); // Use the new function for clarity
+      replyWalletMissing(ctx);
       return;
     }
-    const overview = await getWalletOverview(new PublicKey(ctx.session.wallet.publicKey));
-    ctx.reply(overview, {
-      parse_mode: 'MarkdownV2',
-      ...Markup.inlineKeyboard([[Markup.button.callback('Go to menu', 'menu')]]),
-    });
+    await replyPnl(ctx, ctx.match[1] as PnlWindow);
   } catch (error) {
-    console.error(`Wallet overview error for user ${ctx.from!.id}:`, error);
-    const errorMessage = (error as Error).message || 'an unknown error occurred';
-    ctx.reply(escapeMarkdownV2(`Sorry, we couldn’t load your wallet info. Error: ${errorMessage}. Try again later.`), { parse_mode: 'MarkdownV2' });
+    console.error(`PnL action error for user ${ctx.from!.id}:`, error);
+    replyError(ctx, error, 'build your PnL report');
   }
 });
 
-bot.action('pools', async (ctx) => {
-  await ctx.answerCbQuery();
-  ctx.reply(
-    escapeMarkdownV2('Here are some example pool addresses to try (you must replace these with real addresses for actual interaction):\n\n- `9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin` (SOL/USDC example)\n- `7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU` (Another example)'),
-    {
-      ...Markup.inlineKeyboard([[Markup.button.callback('Go to menu', 'menu')]]),
-      parse_mode: 'MarkdownV2',
-    }
-  );
-});
+// --- Scheduled digests ---
 
-bot.action('menu', async (ctx) => {
-  await ctx.answerCbQuery();
+const DIGEST_USAGE =
+  'Use:\n' +
+  '/digest - show your digest schedule\n' +
+  '/digest daily <hour> [utc±H] - every day at that hour, e.g. /digest daily 8 utc+2\n' +
+  '/digest weekly <mon..sun> <hour> [utc±H] - once a week, e.g. /digest weekly mon 9\n' +
+  '/digest now - send a digest right away\n' +
+  '/digest off';
 
-  ctx.reply(
-    escapeMarkdownV2('What would you like to do next?'),
-    {
-      ...Markup.inlineKeyboard([
-        [Markup.button.callback('See my positions', 'positions')],
-        [Markup.button.callback('Add liquidity', 'add_liquidity')],
-        [Markup.button.callback('Remove liquidity', 'remove_liquidity')],
-        [Markup.button.callback('Get rebalance tips', 'rebalance')],
-        [Markup.button.callback('Check my wallet', 'wallet_overview')],
-        [Markup.button.callback('View pools', 'pools')],
-        [Markup.button.callback('Request Faucet', 'request_tokens')],
-      ]),
-      parse_mode: 'MarkdownV2',
+/**
+ * Parses `daily <hour> [tz]` or `weekly <day> <hour> [tz]`. Throws with a user-facing message on bad input.
+ */
+const parseDigestSettings = (tokens: string[], now = Date.now()): DigestSettings => {
+  const frequency = tokens[0]?.toLowerCase();
+  if (frequency !== 'daily' && frequency !== 'weekly') throw new Error('Please choose daily or weekly');
+  const args = tokens.slice(1);
+  let weekday = 0;
+  if (frequency === 'weekly') {
+    weekday = DIGEST_WEEKDAYS.indexOf(args.shift()?.toLowerCase().slice(0, 3) as (typeof DIGEST_WEEKDAYS)[number]);
+    if (weekday === -1) throw new Error('Please give the day as mon, tue, wed, thu, fri, sat or sun');
+  }
+  const hour = Number(args[0]);
+  if (!/^\d{1,2}$/.test(args[0] || '') || hour > 23) throw new Error('Please give the hour as 0 to 23');
+  return { frequency, hour, weekday, utcOffsetMinutes: parseUtcOffset(args[1]), enabledAt: now };
+};
+
+const formatDigestSchedule = ({ frequency, hour, weekday, utcOffsetMinutes }: DigestSettings) =>
+  `${frequency === 'weekly' ? `every ${DIGEST_WEEKDAYS[weekday]}` : 'every day'} at ${formatHour(hour)} ${formatUtcOffset(utcOffsetMinutes)}`;
+
+// Date and time in the user's time zone, e.g. "2024-05-01 08:00 UTC+2"
+const formatLocalTime = (at: number, utcOffsetMinutes: number) =>
+  `${new Date(at + utcOffsetMinutes * 60000).toISOString().slice(0, 16).replace('T', ' ')} ${formatUtcOffset(utcOffsetMinutes)}`;
+
+/**
+ * The digest for the period since the user's last one, built from the same reads as the wallet overview.
+ */
+const buildDigestMessage = async (userId: number, userWallet: PublicKey, network: SolanaNetwork, settings: DigestSettings, now = Date.now()) => {
+  const from = settings.lastSentAt ?? settings.enabledAt;
+  const [portfolio, lamports, rebalances, transactions, snapshots] = await Promise.all([
+    loadPortfolio(userWallet, network),
+    getRpcManager(network).connection.getBalance(userWallet),
+    store.listRebalanceOperations(userId),
+    store.listTransactions(userId, Infinity),
+    // Starting one poll interval early gives the first interval of the period a reading to compare against
+    store.listPositionSnapshots(userId, network, from - Math.max(...POLL_INTERVAL_OPTIONS) * 60000),
+  ]);
+
+  const pools = new Map<string, { activeBin: number }>();
+  for (const address of new Set(portfolio.positions.map((p) => p.pool))) {
+    try {
+      pools.set(address, await getPoolRegistry(network).getPool(address));
+    } catch (error) {
+      // The position is listed without its range status
+      console.error(`Digest for ${userId}: failed to load pool ${address}:`, error);
     }
+  }
+
+  const report = buildDigestReport({ network, from, to: now, positions: portfolio.positions, pools, snapshots, rebalances, transactions });
+  const feesReported = claimsFees(network);
+  const positionLines = report.positions.map(({ position: p, inRange, feesEarned }, i) => {
+    const status = inRange === null ? 'range status unavailable' : inRange ? '✅ in range' : '⚠️ out of range';
+    const fees = feesReported ? `, fees ${formatSigned(feesEarned)} ${p.tokenY}` : '';
+    return `${i + 1}. ${p.tokenX}/${p.tokenY}, bins ${p.lowerBin} to ${p.upperBin}: ${status}${fees}`;
+  });
+  const feeSummary = !feesReported
+    ? 'added to your positions’ bins (not tracked separately)'
+    : report.feeTotals.length
+      ? report.feeTotals.map((f) => `${formatAmount(f.amount)} ${f.token}`).join(', ')
+      : 'none recorded';
+  const rebalanceLines = report.rebalancesFailed.map(
+    (op) => `- ${op.status === 'partial' ? 'Partial' : 'Failed'}: ${op.position.slice(0, 8)}...${op.error ? ` (${op.error})` : ''}`
+  );
+  const txLines = report.failedTransactions.map(
+    (tx) => `- ${TX_KIND_LABELS[tx.kind]}, ${tx.status} ${formatAge(tx.createdAt)}${tx.error ? `: ${tx.error}` : ''}`
   );
-});
 
-// --- Text commands with wallet check ---
+  return (
+    networkBadge(network, true) +
+    escapeMarkdownV2(
+      `📬 ${settings.frequency === 'weekly' ? 'Weekly' : 'Daily'} digest\n` +
+        `Since ${formatLocalTime(from, settings.utcOffsetMinutes)}\n\n` +
+        `Balance: ${formatAmount(lamports / 1e9)} SOL` +
+        (portfolio.prices.size ? `, portfolio total ${formatUsd(portfolio.valuation.totalUsd)}` : '') +
+        `\n\nPositions:\n${positionLines.length ? positionLines.join('\n') : 'No open positions.'}\n\n` +
+        `Fees earned: ${feeSummary}\n` +
+        `Rebalances: ${report.rebalancesCompleted.length} completed, ${report.rebalancesFailed.length} failed` +
+        (rebalanceLines.length ? `\n${rebalanceLines.join('\n')}` : '') +
+        `\nFailed transactions: ${txLines.length ? `\n${txLines.join('\n')}` : 'none'}`
+    )
+  );
+};
+
+/**
+ * Sends the digest if one is due and records when it went out. Called from the user's poll.
+ */
+const sendDigestIfDue = async (userId: number, userWallet: PublicKey, network: SolanaNetwork, settings: DigestSettings) => {
+  const now = Date.now();
+  if (!isDigestDue(settings, now)) return;
+  const message = await buildDigestMessage(userId, userWallet, network, settings, now);
+  const footer = `\n\nNext digest: ${formatLocalTime(nextDigestSlot(settings, now), settings.utcOffsetMinutes)}. Change it with /digest.`;
+  await bot.telegram.sendMessage(userId, message + escapeMarkdownV2(footer), { parse_mode: 'MarkdownV2' });
+  // Only mark this schedule as sent; the user may have changed or turned it off in the meantime
+  const latest = await store.getState(userId);
+  if (latest?.digest?.enabledAt === settings.enabledAt) await store.saveState(userId, { ...latest, digest: { ...latest.digest, lastSentAt: now } });
+};
+
+// /digest [daily <hour> [tz] | weekly <day> <hour> [tz] | now | off]
+bot.command('digest', async (ctx) => {
+  const userId = ctx.from.id;
+  const [subcommand = 'show', ...args] = ctx.message.text.split(' ').slice(1).filter(Boolean);
 
-bot.command('positions', async (ctx) => {
   try {
     if (!ctx.session.wallet) {
-      replyWalletMissing(ctx); // Use the new function for clarity
+      replyWalletMissing(ctx);
       return;
     }
-    const message = await getPositions(new PublicKey(ctx.session.wallet.publicKey));
-    ctx.reply(message, {
-      parse_mode: 'MarkdownV2',
-      ...Markup.inlineKeyboard([[Markup.button.callback('Go to menu', 'menu')]]),
-    });
+    const state = (await store.getState(userId)) || { ...createDefaultUserState(), network: ctx.network };
+
+    switch (subcommand.toLowerCase()) {
+      case 'show': {
+        const current = state.digest
+          ? `Your digest goes out ${formatDigestSchedule(state.digest)}. Next: ${formatLocalTime(nextDigestSlot(state.digest), state.digest.utcOffsetMinutes)}.`
+          : 'Digests are off.';
+        return ctx.reply(escapeMarkdownV2(`${current}\n\n${DIGEST_USAGE}`), { parse_mode: 'MarkdownV2' });
+      }
+      case 'off':
+        await store.saveState(userId, { ...state, digest: undefined });
+        return ctx.reply(escapeMarkdownV2('Digests turned off.'), { parse_mode: 'MarkdownV2' });
+      case 'now': {
+        // A preview: covers the same period as the next scheduled digest (or the last day) and doesn't reset it
+        const settings: DigestSettings = state.digest ?? {
+          frequency: 'daily',
+          hour: 0,
+          weekday: 0,
+          utcOffsetMinutes: 0,
+          enabledAt: Date.now() - 24 * 60 * 60 * 1000,
+        };
+        const message = await buildDigestMessage(userId, new PublicKey(ctx.session.wallet.publicKey), ctx.network, settings);
+        const footer = state.digest ? '' : '\n\nDigests are off. Turn them on with /digest daily <hour> or /digest weekly <day> <hour>.';
+        return ctx.reply(message + escapeMarkdownV2(footer), { parse_mode: 'MarkdownV2' });
+      }
+      case 'daily':
+      case 'weekly': {
+        let digest: DigestSettings;
+        try {
+          digest = parseDigestSettings([subcommand, ...args]);
+        } catch (error) {
+          return ctx.reply(escapeMarkdownV2(`${(error as Error).message}. ${DIGEST_USAGE}`), { parse_mode: 'MarkdownV2' });
+        }
+        await store.saveState(userId, { ...state, digest });
+        return ctx.reply(
+          escapeMarkdownV2(
+            `Your digest will go out ${formatDigestSchedule(digest)}, starting ${formatLocalTime(nextDigestSlot(digest), digest.utcOffsetMinutes)}.`
+          ),
+          { parse_mode: 'MarkdownV2' }
+        );
+      }
+      default:
+        return ctx.reply(escapeMarkdownV2(DIGEST_USAGE), { parse_mode: 'MarkdownV2' });
+    }
   } catch (error) {
-    console.error(`Positions command error for user ${ctx.from!.id}:`, error);
-    const errorMessage = (error as Error).message || 'an unknown error occurred';
-    ctx.reply(escapeMarkdownV2(`Sorry, we couldn’t check your positions. Error: ${errorMessage}. Try again later.`), { parse_mode: 'MarkdownV2' });
+    console.error(`Digest command error for user ${userId}:`, error);
+    replyError(ctx, error, 'update your digest');
   }
 });
 
-bot.command('add_liquidity', async (ctx) => {
-  const args = ctx.message.text.split(' ').slice(1) || []; 
-  if (args.length < 5) { 
-    return ctx.reply(
-      escapeMarkdownV2('Invalid format\\. Use: `/add_liquidity <pool_address> <lower_bin> <upper_bin> <amount_x> <amount_y>`'),
-      { parse_mode: 'MarkdownV2' }
-    );
-  }
-  const [pool, lowerBinStr, upperBinStr, amountX, amountY] = args;
-  
+// --- Wallet key protection ---
+
+bot.command('set_passphrase', async (ctx) => {
+  const userId = ctx.from.id;
+  const passphrase = ctx.message.text.split(' ').slice(1).join(' ').trim();
+  // The message contains a secret, so don't leave it in the chat history
+  ctx.deleteMessage().catch(() => undefined);
+
   if (!ctx.session.wallet) {
-    replyWalletMissing(ctx); // Use the new function for clarity
+    replyWalletMissing(ctx);
     return;
   }
-  
-  const lowerBin = Number(lowerBinStr);
-  const upperBin = Number(upperBinStr);
-  const amountXStr = amountX.trim();
-  const amountYStr = amountY.trim();
-  
-  if (isNaN(lowerBin) || isNaN(upperBin) || lowerBin < 0 || upperBin < 0 || isNaN(Number(amountXStr)) || isNaN(Number(amountYStr)) || Number(amountXStr) <= 0 || Number(amountYStr) <= 0) {
-    return ctx.reply(escapeMarkdownV2('Oops! Please use valid positive numbers for bins and amounts\\. All inputs must be numerical except the pool address\\.'), { parse_mode: 'MarkdownV2' });
+  if (passphrase.length < 8) {
+    return ctx.reply(escapeMarkdownV2('Please use a passphrase of at least 8 characters: /set_passphrase <passphrase>'), { parse_mode: 'MarkdownV2' });
   }
-  
+
   try {
-    // Basic validation for Public Key format
-    new PublicKey(pool);
-    
-    const keypair = Keypair.fromSecretKey(bs58.decode(ctx.session.wallet.privateKey));
-    await dlmmService.init(pool, keypair.publicKey); 
-    
-    // Call the service, passing the signing Keypair
-    const sig = await dlmmService.addLiquidity(lowerBin, upperBin, amountXStr, amountYStr, keypair); 
-    
+    ctx.session.wallet = keyVault.changePassphrase(userId, ctx.session.wallet, passphrase);
+    await store.saveWallet(userId, ctx.network, ctx.session.wallet);
     ctx.reply(
-      escapeMarkdownV2(`Great! Your liquidity was added\\.\nTransaction Signature: ${sig.slice(0, 10)}\\.\\.\\.\\.\\nCheck your wallet soon\\.`), 
-      {
-        parse_mode: 'MarkdownV2',
-        ...Markup.inlineKeyboard([[Markup.button.callback('Go to menu', 'menu')]]),
-      }
+      escapeMarkdownV2('Passphrase set! Your wallet is now locked. Use /unlock <passphrase> before adding or removing liquidity, and /lock when you are done.'),
+      { parse_mode: 'MarkdownV2' }
     );
   } catch (error) {
-    console.error(`Add liquidity command error for user ${ctx.from!.id}:`, error);
-    const errorMessage = (error as Error).message || 'an unknown error occurred';
-    
-    // FIX: Enhanced error handling for common transaction issues
-    if (errorMessage.includes('Invalid public key')) {
-       ctx.reply(escapeMarkdownV2('Error: The pool address provided is not a valid Solana Public Key\\. Please check the format (must be 32\\-44 characters)\\.'), { parse_mode: 'MarkdownV2' });
-    } else if (errorMessage.includes('Insufficient balance') || errorMessage.includes('Simulation failed')) {
-       ctx.reply(escapeMarkdownV2('Error: Transaction failed (e\\.g\\., Insufficient SOL/tokens, or invalid bin range)\\. Did you try using /faucet first\\?'), { parse_mode: 'MarkdownV2' });
-    } else {
-       ctx.reply(escapeMarkdownV2(`Transaction error: ${errorMessage}\\. Please verify your inputs and try again\\.`), { parse_mode: 'MarkdownV2' });
+    if (error instanceof WalletLockedError) {
+      ctx.reply(escapeMarkdownV2('Unlock your wallet with your current passphrase first (/unlock <passphrase>), then set a new one.'), { parse_mode: 'MarkdownV2' });
+      return;
     }
+    console.error(`Set passphrase error for user ${userId}:`, error);
+    replyError(ctx, error, 'set your passphrase');
   }
 });
 
-bot.command('remove_liquidity', async (ctx) => {
-  const args = ctx.message.text.split(' ').slice(1) || []; 
-  if (args.length < 2) {
-    return ctx.reply(
-      escapeMarkdownV2('Invalid format\\. Use: `/remove_liquidity <position_pubkey> <amount>`'),
-      { parse_mode: 'MarkdownV2' }
-    );
-  }
-  const [positionPubkeyStr, amount] = args;
-  
+bot.command('remove_passphrase', async (ctx) => {
+  const userId = ctx.from.id;
+
   if (!ctx.session.wallet) {
-    replyWalletMissing(ctx); // Use the new function for clarity
+    replyWalletMissing(ctx);
     return;
   }
-  
-  const amountNum = Number(amount);
-  if (isNaN(amountNum) || amountNum <= 0) {
-    return ctx.reply(escapeMarkdownV2('Oops! Please use a valid positive number for the amount to remove\\.'), { parse_mode: 'MarkdownV2' });
+  if (!keyVault.isPassphraseProtected(ctx.session.wallet)) {
+    return ctx.reply(escapeMarkdownV2('Your wallet has no passphrase set.'), { parse_mode: 'MarkdownV2' });
   }
-  
+
   try {
-    // Basic validation for Public Key format
-    const positionPubkey = new PublicKey(positionPubkeyStr); 
-    
-    const keypair = Keypair.fromSecretKey(bs58.decode(ctx.session.wallet.privateKey));
-    
-    await dlmmService.init('', keypair.publicKey); // Init for signing context
-    // Call the service, passing the signing Keypair
-    const sig = await dlmmService.removeLiquidity(positionPubkey, amount, keypair);
-    
-    ctx.reply(
-      escapeMarkdownV2(`Great! Your liquidity was removed\\.\nTransaction Signature: ${sig.slice(0, 10)}\\.\\.\\.\\.\\nCheck your wallet soon\\.`), 
-      {
-        parse_mode: 'MarkdownV2',
-        ...Markup.inlineKeyboard([[Markup.button.callback('Go to menu', 'menu')]]),
-      }
-    );
+    ctx.session.wallet = keyVault.changePassphrase(userId, ctx.session.wallet);
+    await store.saveWallet(userId, ctx.network, ctx.session.wallet);
+    ctx.reply(escapeMarkdownV2('Passphrase removed. Your key is still encrypted with the bot’s master key.'), { parse_mode: 'MarkdownV2' });
   } catch (error) {
-    console.error(`Remove liquidity command error for user ${ctx.from!.id}:`, error);
-    const errorMessage = (error as Error).message || 'an unknown error occurred';
-    
-    // FIX: Enhanced error handling for common transaction issues
-    if (errorMessage.includes('Invalid public key')) {
-       ctx.reply(escapeMarkdownV2('Error: The position address provided is not a valid Solana Public Key\\. Please check the format\\.'), { parse_mode: 'MarkdownV2' });
-    } else if (errorMessage.includes('Position not found') || errorMessage.includes('Invalid amount')) {
-       ctx.reply(escapeMarkdownV2('Error: Could not find or access the position, or the removal amount is invalid\\.'), { parse_mode: 'MarkdownV2' });
-    } else {
-       ctx.reply(escapeMarkdownV2(`Transaction error: ${errorMessage}\\. Please verify your inputs and try again\\.`), { parse_mode: 'MarkdownV2' });
+    if (error instanceof WalletLockedError) {
+      ctx.reply(escapeMarkdownV2('Unlock your wallet first (/unlock <passphrase>), then remove the passphrase.'), { parse_mode: 'MarkdownV2' });
+      return;
     }
+    console.error(`Remove passphrase error for user ${userId}:`, error);
+    replyError(ctx, error, 'remove your passphrase');
   }
 });
 
-bot.command('rebalance', async (ctx) => {
+bot.command('unlock', async (ctx) => {
+  const userId = ctx.from.id;
+  const passphrase = ctx.message.text.split(' ').slice(1).join(' ').trim();
+  ctx.deleteMessage().catch(() => undefined);
+
+  if (!ctx.session.wallet) {
+    replyWalletMissing(ctx);
+    return;
+  }
+  if (!keyVault.isPassphraseProtected(ctx.session.wallet)) {
+    return ctx.reply(escapeMarkdownV2('Your wallet has no passphrase, so there is nothing to unlock.'), { parse_mode: 'MarkdownV2' });
+  }
+  if (!passphrase) {
+    return ctx.reply(escapeMarkdownV2('Use: /unlock <passphrase>'), { parse_mode: 'MarkdownV2' });
+  }
+
   try {
-    if (!ctx.session.wallet) {
-      replyWalletMissing(ctx); // Use the new function for clarity
-      return;
-    }
-    const suggestion = await getRebalanceSuggestion(new PublicKey(ctx.session.wallet.publicKey));
-    ctx.reply(suggestion, {
-      parse_mode: 'MarkdownV2',
-      ...Markup.inlineKeyboard([[Markup.button.callback('Go to menu', 'menu')]]),
-    });
+    const expiresAt = keyVault.unlock(userId, ctx.session.wallet, passphrase);
+    const minutes = Math.round((expiresAt.getTime() - Date.now()) / 60000);
+    ctx.reply(escapeMarkdownV2(`Wallet unlocked for ${minutes} minutes. Send /lock to lock it sooner.`), { parse_mode: 'MarkdownV2' });
   } catch (error) {
-    console.error(`Rebalance command error for user ${ctx.from!.id}:`, error);
-    const errorMessage = (error as Error).message || 'an unknown error occurred';
-    ctx.reply(escapeMarkdownV2(`Sorry, we couldn’t suggest a rebalance. Error: ${errorMessage}. Try again later.`), { parse_mode: 'MarkdownV2' });
+    console.error(`Unlock error for user ${userId}:`, (error as Error).message);
+    replyError(ctx, error, 'unlock your wallet');
   }
 });
 
+bot.command('lock', async (ctx) => {
+  keyVault.lock(ctx.from.id);
+  ctx.reply(escapeMarkdownV2('Wallet locked.'), { parse_mode: 'MarkdownV2' });
+});
+
 bot.command('faucet', async (ctx) => {
   // Directly call the action handler to avoid code duplication
   await bot.handleUpdate({
@@ -761,52 +3186,264 @@ bot.catch((err, ctx) => {
   const error = err as Error;
   console.error(`Telegraf error for user ${ctx?.from?.id || 'unknown'} in chat ${ctx.chat?.id || 'unknown'}:`, error.message, error);
   if (ctx) {
-    ctx.reply(escapeMarkdownV2('Sorry, something went wrong on our end\\. Please try again later\\. If this happens often, report the error\\.'), { parse_mode: 'MarkdownV2' }).catch(() => {
+    replyError(ctx, error, 'handle that request').catch(() => {
       console.error('Failed to send error message to user.');
     });
   }
 });
 
-// --- New HTTP Server for Landing Page Redirect ---
+// --- HTTP server: landing redirect, Telegram webhook, health and metrics ---
+
+// How updates reach the bot: long polling (the default) or a webhook served by the HTTP server below
+const BOT_MODE = process.env.BOT_MODE || 'polling';
+if (BOT_MODE !== 'polling' && BOT_MODE !== 'webhook') {
+  console.error(`Error: unknown BOT_MODE "${BOT_MODE}" (expected "polling" or "webhook")`);
+  process.exit(1);
+}
+
+// Public base URL Telegram posts updates to. Render sets RENDER_EXTERNAL_URL for web services.
+const WEBHOOK_URL = (process.env.WEBHOOK_URL || process.env.RENDER_EXTERNAL_URL || '').replace(/\/+$/, '');
+if (BOT_MODE === 'webhook' && !WEBHOOK_URL) {
+  console.error('Error: BOT_MODE=webhook needs WEBHOOK_URL (the public https URL of this server)');
+  process.exit(1);
+}
+// Both default to values derived from the bot token: stable across restarts, and unguessable without the token
+const WEBHOOK_PATH = `/${(process.env.WEBHOOK_PATH || `telegram/${createHash('sha256').update(botToken).digest('hex').slice(0, 32)}`).replace(/^\/+/, '')}`;
+const WEBHOOK_SECRET_TOKEN = process.env.WEBHOOK_SECRET_TOKEN || createHmac('sha256', botToken).update('webhook-secret-token').digest('hex');
+// Telegram rejects setWebhook for any other secret_token
+if (!/^[A-Za-z0-9_-]{1,256}$/.test(WEBHOOK_SECRET_TOKEN)) {
+  console.error('Error: WEBHOOK_SECRET_TOKEN must be 1-256 characters of A-Z, a-z, 0-9, _ and -');
+  process.exit(1);
+}
+
+// Telegram updates are a few KB; anything much bigger isn't one
+const MAX_UPDATE_BYTES = 1024 * 1024;
+
+// True once the bot receives updates: polling has started or the webhook is registered
+let botReady = false;
+const webhookRequests = new LabeledCounter();
+// Webhook updates acknowledged but still being handled, so shutdown can wait for them
+const pendingUpdates = new Set<Promise<void>>();
+
+const safeEqual = (a: string, b: string) => {
+  const [left, right] = [Buffer.from(a), Buffer.from(b)];
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+/**
+ * Takes one update from Telegram. Updates are acknowledged before they are handled, so a slow handler (e.g.
+ * one sending a transaction) never makes Telegram time out and deliver the same update again.
+ */
+const handleWebhook = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const token = req.headers['x-telegram-bot-api-secret-token'];
+  if (req.method !== 'POST' || typeof token !== 'string' || !safeEqual(token, WEBHOOK_SECRET_TOKEN)) {
+    webhookRequests.inc({ status: 'rejected' });
+    res.writeHead(403).end();
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > MAX_UPDATE_BYTES) {
+      webhookRequests.inc({ status: 'too_large' });
+      res.writeHead(413).end();
+      return;
+    }
+    chunks.push(chunk);
+  }
+  let update: Parameters<typeof bot.handleUpdate>[0];
+  try {
+    update = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    webhookRequests.inc({ status: 'invalid' });
+    res.writeHead(400).end();
+    return;
+  }
+
+  res.writeHead(200).end();
+  webhookRequests.inc({ status: 'accepted' });
+  const handling = bot
+    .handleUpdate(update)
+    .catch((error) => console.error(`Webhook update ${update.update_id} failed:`, error))
+    .finally(() => pendingUpdates.delete(handling));
+  pendingUpdates.add(handling);
+};
 
 /**
- * Starts a minimal HTTP server to redirect web requests (like clicking the Render URL)
- * to a dedicated landing page.
+ * Storage and RPC health. Storage is checked on every call; RPC endpoints report what their own health checks saw.
  */
-const startLandingPageServer = () => {
-    // IMPORTANT: Change this to your actual landing page URL
-    const LANDING_PAGE_URL = 'https://docs.saros.finance/saros-dlmm/dlmm-mechanism'; 
-    const PORT = process.env.PORT || 3000;
+const checkHealth = async () => {
+  const storage = await store.checkHealth().then(
+    () => ({ healthy: true }),
+    (error) => ({ healthy: false, error: (error as Error).message })
+  );
+  const rpc = Object.fromEntries(
+    listRpcManagers().map(([network, manager]) => {
+      const endpoints = manager.health();
+      return [network, { healthyEndpoints: endpoints.filter((e) => e.healthy).length, endpoints: endpoints.length }];
+    })
+  );
+  // A network is usable while any of its endpoints is
+  const rpcHealthy = Object.values(rpc).every((network) => network.healthyEndpoints > 0);
+  return { mode: BOT_MODE, ready: botReady && storage.healthy && rpcHealthy, storage, rpc };
+};
 
-    const server = http.createServer((req, res) => {
-        // Only redirect requests to the root path
-        if (req.url === '/') {
-            console.log(`Web request received. Redirecting to: ${LANDING_PAGE_URL}`);
-            res.writeHead(302, { 'Location': LANDING_PAGE_URL });
-            res.end();
-        } else {
-            // Respond with a 404 for any other path
-            res.writeHead(404, { 'Content-Type': 'text/plain' });
-            res.end('Not Found');
-        }
-    });
+const collectMetrics = async (): Promise<Metric[]> => {
+  const health = await checkHealth();
+  const poll = pollScheduler.metrics();
+  const endpoints = listRpcManagers().flatMap(([network, manager]) =>
+    // The host only: endpoint URLs often carry an API key
+    manager.health().map((endpoint, index) => ({ ...endpoint, labels: { network, endpoint: new URL(endpoint.url).host, index: String(index) } }))
+  );
+  return [
+    { name: 'bot_ready', help: 'Whether the bot is receiving updates and its storage and RPC are usable', type: 'gauge', samples: [{ value: Number(health.ready) }] },
+    { name: 'bot_updates_total', help: 'Telegram updates handled, by type', type: 'counter', samples: updatesReceived.samples() },
+    { name: 'bot_webhook_requests_total', help: 'Requests to the webhook path, by outcome', type: 'counter', samples: webhookRequests.samples() },
+    { name: 'bot_storage_up', help: 'Whether storage can be read and written', type: 'gauge', samples: [{ value: Number(health.storage.healthy) }] },
+    {
+      name: 'bot_rpc_endpoint_up',
+      help: 'Whether the RPC endpoint is in rotation (not cooling down after failures)',
+      type: 'gauge',
+      samples: endpoints.map((e) => ({ labels: e.labels, value: Number(e.healthy) })),
+    },
+    { name: 'bot_rpc_requests_total', help: 'RPC calls sent to the endpoint', type: 'counter', samples: endpoints.map((e) => ({ labels: e.labels, value: e.requests })) },
+    { name: 'bot_rpc_failures_total', help: 'RPC calls to the endpoint that failed', type: 'counter', samples: endpoints.map((e) => ({ labels: e.labels, value: e.failures })) },
+    {
+      name: 'bot_rpc_latency_seconds',
+      help: 'Moving average of the endpoint latency',
+      type: 'gauge',
+      samples: endpoints.filter((e) => e.latencyMs !== null).map((e) => ({ labels: e.labels, value: e.latencyMs! / 1000 })),
+    },
+    { name: 'bot_rpc_error_ratio', help: 'Moving average of failed calls to the endpoint, 0-1', type: 'gauge', samples: endpoints.map((e) => ({ labels: e.labels, value: e.errorRate })) },
+    { name: 'bot_poll_wallets', help: 'Wallets watched by the background poller', type: 'gauge', samples: [{ value: poll.jobs }] },
+    { name: 'bot_poll_in_flight', help: 'Wallet polls running now', type: 'gauge', samples: [{ value: poll.inFlight }] },
+    { name: 'bot_poll_runs_total', help: 'Poll runs that found wallets due', type: 'counter', samples: [{ value: poll.runs }] },
+    { name: 'bot_poll_skipped_ticks_total', help: 'Poll ticks skipped because the previous one was still running', type: 'counter', samples: [{ value: poll.skippedTicks }] },
+    {
+      name: 'bot_poll_jobs_total',
+      help: 'Wallet polls finished, by outcome (timeouts count as failed)',
+      type: 'counter',
+      samples: [
+        { labels: { outcome: 'succeeded' }, value: poll.jobsSucceeded },
+        { labels: { outcome: 'failed' }, value: poll.jobsFailed },
+      ],
+    },
+    {
+      name: 'bot_poll_job_duration_seconds',
+      help: 'Average time one wallet poll takes',
+      type: 'gauge',
+      samples: poll.averageJobMs === null ? [] : [{ value: poll.averageJobMs / 1000 }],
+    },
+    {
+      name: 'bot_poll_last_run_duration_seconds',
+      help: 'How long the last poll run took',
+      type: 'gauge',
+      samples: poll.lastRun ? [{ value: poll.lastRun.durationMs / 1000 }] : [],
+    },
+    { name: 'process_uptime_seconds', help: 'Time since the process started', type: 'gauge', samples: [{ value: process.uptime() }] },
+    { name: 'process_resident_memory_bytes', help: 'Resident memory size', type: 'gauge', samples: [{ value: process.memoryUsage().rss }] },
+    { name: 'nodejs_heap_used_bytes', help: 'V8 heap in use', type: 'gauge', samples: [{ value: process.memoryUsage().heapUsed }] },
+  ];
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Starts the HTTP server: `/` redirects web visitors (like clicking the Render URL) to a landing page,
+ * `/healthz` fails only when storage is unusable, `/readyz` also fails until the bot receives updates or
+ * while every RPC endpoint of a network is down, and `/metrics` is for Prometheus. In webhook mode it
+ * also takes Telegram updates on the webhook path.
+ */
+const startHttpServer = () => {
+  // IMPORTANT: Change this to your actual landing page URL
+  const LANDING_PAGE_URL = 'https://docs.saros.finance/saros-dlmm/dlmm-mechanism';
+  const PORT = process.env.PORT || 3000;
+
+  const route = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const path = (req.url || '/').split('?')[0];
+    if (BOT_MODE === 'webhook' && path === WEBHOOK_PATH) return handleWebhook(req, res);
+    switch (path) {
+      case '/':
+        console.log(`Web request received. Redirecting to: ${LANDING_PAGE_URL}`);
+        res.writeHead(302, { Location: LANDING_PAGE_URL });
+        res.end();
+        return;
+      case '/healthz': {
+        const health = await checkHealth();
+        return sendJson(res, health.storage.healthy ? 200 : 503, { status: health.storage.healthy ? 'ok' : 'unavailable', ...health });
+      }
+      case '/readyz': {
+        const health = await checkHealth();
+        return sendJson(res, health.ready ? 200 : 503, { status: health.ready ? 'ready' : 'not ready', ...health });
+      }
+      case '/metrics':
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        res.end(formatPrometheus(await collectMetrics()));
+        return;
+      default:
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not Found');
+    }
+  };
 
-    server.listen(PORT, () => {
-        console.log(`HTTP Redirect Server running on port ${PORT}.`);
+  const server = http.createServer((req, res) => {
+    route(req, res).catch((error) => {
+      console.error(`HTTP ${req.method} ${req.url} failed:`, error);
+      if (!res.headersSent) res.writeHead(500);
+      res.end();
     });
+  });
+  server.listen(PORT, () => {
+    console.log(`HTTP server running on port ${PORT} (${BOT_MODE} mode).`);
+  });
+  return server;
+};
+
+let httpServer: http.Server | null = null;
+
+/**
+ * Registers the webhook with Telegram. Telegram then only sends updates carrying the secret token.
+ */
+const startWebhook = async () => {
+  bot.botInfo ??= await bot.telegram.getMe();
+  await bot.telegram.setWebhook(`${WEBHOOK_URL}${WEBHOOK_PATH}`, { secret_token: WEBHOOK_SECRET_TOKEN });
+  botReady = true;
+  console.log(`Webhook registered at ${WEBHOOK_URL} for @${bot.botInfo.username}`);
 };
 
 // Launch with Retry
 async function launchBotWithRetry(maxRetries = 5, delayMs = 5000) {
-  // Start the HTTP redirect server first, as it needs to run concurrently
-  startLandingPageServer(); 
+  // Start the HTTP server first: it runs alongside the bot, and in webhook mode it is how updates arrive
+  httpServer = startHttpServer();
+  await migrateLegacyWallets();
+  const migratedSnapshots = await store.migrateLegacyPositionSnapshots();
+  if (migratedSnapshots) console.log(`Moved ${migratedSnapshots} position snapshots to the snapshot log`);
+  const migratedRules = await store.migrateLegacyAutoRebalanceRules();
+  if (migratedRules) console.log(`Assigned ${migratedRules} auto-rebalance rule(s) without a network to devnet`);
+  await txTracker.resume();
+  SOLANA_NETWORKS.forEach((network) => getRpcManager(network).startHealthChecks());
+  pollScheduler.start();
+  startSnapshotPruning();
   
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      await bot.launch();
-      console.log(`Bot launched successfully on attempt ${attempt}`);
+      if (BOT_MODE === 'webhook') {
+        await startWebhook();
+        return;
+      }
+      // Resolves only once polling stops
+      await bot.launch(() => {
+        botReady = true;
+        console.log(`Bot launched successfully on attempt ${attempt}`);
+      });
       return;
     } catch (error) {
+      botReady = false;
       console.error(`Launch attempt ${attempt} failed: ${(error as Error).message}`);
       if (attempt === maxRetries) throw error;
       await new Promise((resolve) => setTimeout(resolve, delayMs));
@@ -815,99 +3452,162 @@ async function launchBotWithRetry(maxRetries = 5, delayMs = 5000) {
   throw new Error('Bot launch failed after all retries.'); 
 }
 
-// Polling for alerts (runs every 5 minutes = 300,000ms)
-setInterval(async () => {
-  for (const [userIdStr, walletData] of Object.entries(wallets)) {
-    const userId = Number(userIdStr);
-    
-    if (!states[userId]) {
-      states[userId] = { lastBalance: 0, lastPositions: [], lastSignatures: [], network: 'devnet' };
-    }
-    
-    try {
-      const state = states[userId];
-      let currentBalance = state.lastBalance;
-      let currentPositions: PositionData[] = state.lastPositions;
-      let currentSignatures = state.lastSignatures;
-      const userPublicKey = new PublicKey(walletData.publicKey);
-
-      // --- 1. Fetch Balance with Retry ---
-      for (let attempt = 0; attempt < 3; attempt++) {
-        try {
-          currentBalance = await connection.getBalance(userPublicKey) / 1e9;
-          break;
-        } catch (err) {
-          if (attempt === 2) throw err;
-          await new Promise((r) => setTimeout(r, 2000));
-        }
-      }
+// --- Background polling ---
 
-      // --- 2. Fetch Positions ---
-      await dlmmService.init('', userPublicKey);
-      currentPositions = await dlmmService.getPositions(userPublicKey) as PositionData[];
+const DEFAULT_POLL_INTERVAL_MINUTES = 5;
+// Poll frequencies users can choose with /pollinterval
+const POLL_INTERVAL_OPTIONS = [1, 5, 15, 30, 60];
 
-      // --- 3. Fetch Signatures with Retry ---
-      for (let attempt = 0; attempt < 3; attempt++) {
-        try {
-          const signatures = await connection.getSignaturesForAddress(userPublicKey, { limit: 5 });
-          currentSignatures = signatures.map((s) => s.signature);
-          break;
-        } catch (err) {
-          if (attempt === 2) throw err;
-          await new Promise((r) => setTimeout(r, 2000));
-        }
-      }
+interface WalletPollJob extends PollJob {
+  userId: number;
+  walletData: WalletData;
+  network: SolanaNetwork;
+}
 
-      // --- 4. Alert Logic ---
-      let alert = '';
-      const oldBalanceStr = state.lastBalance.toFixed(4);
-      const newBalanceStr = currentBalance.toFixed(4);
-      
-      if (newBalanceStr !== oldBalanceStr) { 
-        alert += `Balance changed: ${oldBalanceStr} to ${newBalanceStr} SOL\n`;
-      }
-      
-      // Compare positions by stringifying the filtered data (e.g., ignoring fees that change constantly)
-      const positionsChanged = JSON.stringify(currentPositions.map(p => ({ p: p.pool, l: p.lowerBin, u: p.upperBin, liq: p.liquidity }))) !== 
-                             JSON.stringify(state.lastPositions.map(p => ({ p: p.pool, l: p.lowerBin, u: p.upperBin, liq: p.liquidity })));
+/**
+ * One job per user, for the wallet on the network they have selected. Wallets on other networks aren't watched.
+ */
+const listPollJobs = async () => {
+  const jobs: WalletPollJob[] = [];
+  for (const [userId, walletData, network] of await store.listWallets()) {
+    const state = await store.getState(userId);
+    if ((state && isSolanaNetwork(state.network) ? state.network : defaultNetwork()) !== network) continue;
+    const intervalMinutes = state?.pollIntervalMinutes ?? DEFAULT_POLL_INTERVAL_MINUTES;
+    jobs.push({ key: `${userId}:${network}`, intervalMs: intervalMinutes * 60000, userId, walletData, network });
+  }
+  return jobs;
+};
 
-      if (positionsChanged) {
-        alert += 'Your DLMM positions have updated (new position or range change)!\n';
-      }
-      if (currentSignatures.some((sig) => !state.lastSignatures.includes(sig))) {
-        alert += 'New activity detected in your wallet (new transaction signature)!\n';
-      }
+// How long position snapshots are kept for /pnl
+const SNAPSHOT_RETENTION_DAYS = Number(process.env.SNAPSHOT_RETENTION_DAYS) || 90;
+const SNAPSHOT_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
 
-      if (alert) {
-        // Use an actual newline, and then escape the *entire* message.
-        await bot.telegram.sendMessage(
-            userId, 
-            escapeMarkdownV2(`🚨 Hey! Something changed:\n${alert}`), 
-            { parse_mode: 'MarkdownV2' }
-        );
-      }
+let snapshotPruneTimer: NodeJS.Timeout | null = null;
+let snapshotPrune: Promise<void> = Promise.resolve();
+
+/**
+ * Deletes snapshots past the retention period, for every user at once, off the poll path.
+ */
+const pruneSnapshots = () => {
+  snapshotPrune = snapshotPrune
+    .then(async () => {
+      const deleted = await store.deletePositionSnapshotsBefore(Date.now() - SNAPSHOT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      if (deleted) console.log(`Pruned ${deleted} position snapshots older than ${SNAPSHOT_RETENTION_DAYS} days`);
+    })
+    .catch((error) => console.error('Snapshot pruning failed:', error));
+};
+
+const startSnapshotPruning = () => {
+  if (snapshotPruneTimer) return;
+  pruneSnapshots();
+  snapshotPruneTimer = setInterval(pruneSnapshots, SNAPSHOT_PRUNE_INTERVAL_MS);
+  snapshotPruneTimer.unref();
+};
+
+// getMultipleAccounts accepts at most 100 accounts per call
+const MAX_ACCOUNTS_PER_CALL = 100;
+
+/**
+ * SOL balances for a batch of poll jobs, keyed by job, with one RPC call per network and 100 wallets.
+ */
+const fetchPollBalances = async (jobs: WalletPollJob[]) => {
+  const balances = new Map<string, number>();
+  for (const network of SOLANA_NETWORKS) {
+    const onNetwork = jobs.filter((job) => job.network === network);
+    for (let i = 0; i < onNetwork.length; i += MAX_ACCOUNTS_PER_CALL) {
+      const chunk = onNetwork.slice(i, i + MAX_ACCOUNTS_PER_CALL);
+      const accounts = await getRpcManager(network).connection.getMultipleAccountsInfo(
+        chunk.map((job) => new PublicKey(job.walletData.publicKey))
+      );
+      // A wallet that was never funded has no account yet
+      chunk.forEach((job, j) => balances.set(job.key, (accounts[j]?.lamports ?? 0) / 1e9));
+    }
+  }
+  return balances;
+};
+
+/**
+ * One user's poll: records position history, checks their alert rules, runs auto-rebalances and saves what it read.
+ */
+const pollWallet = async ({ key, userId, walletData, network }: WalletPollJob, balances: Map<string, number>) => {
+  const state = (await store.getState(userId)) || createDefaultUserState();
+  const userPublicKey = new PublicKey(walletData.publicKey);
 
-      // Update state for next poll
-      states[userId] = { 
-        ...state, 
-        lastBalance: currentBalance, 
-        lastPositions: currentPositions, 
-        lastSignatures: currentSignatures 
-      };
+  // --- 1. Balance, fetched for the whole batch up front ---
+  const currentBalance = balances.get(key)!;
+
+  // --- 2. Fetch Positions ---
+  // Fresh read-only context per user, so poll iterations never share signer state
+  const currentPositions = await createDlmmService({ user: userPublicKey, network }).getPositions() as PositionData[];
+
+  // --- 3. Pool state for the positions and the alert rules ---
+  const rules = (await store.listAlertRules(userId)).filter((rule) => rule.network === network);
+  const pools = new Map<string, { activeBin: number; price: number }>();
+  for (const address of alertPools(rules, currentPositions)) {
+    try {
+      const pool = await getPoolRegistry(network).getPool(address);
+      pools.set(address, { activeBin: pool.activeBin, price: pool.price });
     } catch (error) {
-      console.error(`Polling error for ${userIdStr}:`, error);
+      // Rules and snapshots for this pool just skip this round
+      console.error(`Polling error for ${userId}: failed to load pool ${address}:`, error);
     }
   }
-}, 300000); // 5 minutes
 
-process.on('SIGINT', () => {
-    bot.stop('SIGINT');
-    // Note: The HTTP server will shut down when the main process exits.
-});
-process.on('SIGTERM', () => {
-    bot.stop('SIGTERM');
+  // --- 4. Record position history for /pnl ---
+  const polledAt = Date.now();
+  await store.savePositionSnapshots(
+    userId,
+    currentPositions.filter((p) => pools.has(p.pool)).map((p) => createPositionSnapshot(network, p, pools.get(p.pool)!, polledAt))
+  );
+
+  // --- 5. Check the user's alert rules ---
+  if (rules.length) {
+    const evaluation = evaluateAlertRules(rules, { balance: currentBalance, positions: currentPositions, pools }, state.quietHours);
+    for (const { message } of evaluation.alerts) {
+      await bot.telegram.sendMessage(userId, networkBadge(network, true) + escapeMarkdownV2(`🔔 Alert: ${message}`), {
+        parse_mode: 'MarkdownV2',
+      });
+    }
+    for (const rule of evaluation.rules) await store.saveAlertRule(userId, rule);
+  }
+
+  // --- 6. Auto-rebalance opted-in positions ---
+  await runAutoRebalances(userId, walletData, network, currentPositions);
+
+  // Update state for next poll. Re-read first: the user may have changed settings while this poll ran,
+  // and readings from before a network switch belong to the old network
+  const latest = (await store.getState(userId)) || state;
+  if (latest.network !== state.network) return;
+  await store.saveState(userId, { ...latest, lastBalance: currentBalance, lastPositions: currentPositions });
+
+  // --- 7. Scheduled digest, with the first poll after its time ---
+  if (latest.digest) await sendDigestIfDue(userId, userPublicKey, network, latest.digest);
+};
+
+const pollScheduler = new PollScheduler<WalletPollJob, Map<string, number>>({
+  listJobs: listPollJobs,
+  prepare: fetchPollBalances,
+  run: pollWallet,
+  concurrency: Number(process.env.POLL_CONCURRENCY) || undefined,
 });
 
+const shutdown = async (signal: string) => {
+  botReady = false;
+  // The webhook stays registered: Telegram holds updates until this or the next instance takes them
+  if (BOT_MODE === 'polling') bot.stop(signal);
+  httpServer?.close();
+  // Let updates and polls already running finish, so replies and alerts go out and state is saved
+  await Promise.allSettled(pendingUpdates);
+  await pollScheduler.stop();
+  if (snapshotPruneTimer) clearInterval(snapshotPruneTimer);
+  await snapshotPrune;
+  listRpcManagers().forEach(([, manager]) => manager.stop());
+  // Flush any pending writes before exit
+  await store.close();
+};
+process.once('SIGINT', () => void shutdown('SIGINT').catch((error) => console.error('Shutdown failed:', error)));
+process.once('SIGTERM', () => void shutdown('SIGTERM').catch((error) => console.error('Shutdown failed:', error)));
+
 launchBotWithRetry().catch((error) => {
   console.error('Failed to launch bot after retries:', (error as Error).message);
   process.exit(1);
@@ -0,0 +1,183 @@
+import { randomUUID } from 'crypto';
+import { AlertRule, AlertRuleKind, PositionData, QuietHours, SolanaNetwork } from '../types.js';
+import { InvalidInputError } from './errors.js';
+
+export const DEFAULT_ALERT_COOLDOWN_MINUTES = 60;
+
+// Rules that watch positions; without `position` they cover all of the user's positions
+const POSITION_RULES: AlertRuleKind[] = ['out_of_range', 'fees_above', 'position_changed'];
+
+/**
+ * What the poller read this round, for one user on one network.
+ */
+export interface AlertSnapshot {
+  balance: number; // SOL
+  positions: PositionData[];
+  // Active bin and price (token X in token Y) per pool address, for the positions' pools and price rules
+  pools: Map<string, { activeBin: number; price: number }>;
+}
+
+export interface FiredAlert {
+  rule: AlertRule;
+  message: string;
+}
+
+export interface AlertEvaluation {
+  rules: AlertRule[]; // Updated state; persist these whatever fired
+  alerts: FiredAlert[];
+  held: number; // Alerts that are due but waiting for quiet hours or a cooldown to end
+}
+
+export function createAlertRule(
+  network: SolanaNetwork,
+  kind: AlertRuleKind,
+  options: { position?: string; pool?: string; threshold?: number; cooldownMinutes?: number } = {}
+): AlertRule {
+  if ((kind === 'price_above' || kind === 'price_below') && (!options.pool || options.threshold === undefined)) {
+    throw new InvalidInputError('Price alerts need a pool and a price');
+  }
+  if ((kind === 'fees_above' || kind === 'balance_below') && options.threshold === undefined) {
+    throw new InvalidInputError('This alert needs an amount');
+  }
+  if (kind === 'position_changed' && !options.position) throw new InvalidInputError('Change alerts need a position');
+  const now = Date.now();
+  return {
+    id: randomUUID(),
+    network,
+    kind,
+    position: options.position,
+    pool: options.pool,
+    threshold: options.threshold,
+    cooldownMinutes: options.cooldownMinutes ?? DEFAULT_ALERT_COOLDOWN_MINUTES,
+    muted: false,
+    triggered: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 8)}...`;
+
+export function describeAlertRule(rule: AlertRule): string {
+  const scope = rule.position ? `position ${shortAddress(rule.position)}` : 'any position';
+  switch (rule.kind) {
+    case 'out_of_range':
+      return `${scope} goes out of range`;
+    case 'price_above':
+      return `price in pool ${shortAddress(rule.pool!)} rises above ${rule.threshold}`;
+    case 'price_below':
+      return `price in pool ${shortAddress(rule.pool!)} falls below ${rule.threshold}`;
+    case 'fees_above':
+      return `uncollected fees on ${scope} exceed ${rule.threshold}`;
+    case 'balance_below':
+      return `SOL balance drops below ${rule.threshold}`;
+    case 'position_changed':
+      return `${scope} changes`;
+  }
+}
+
+/**
+ * True when `now` falls in the quiet window. Windows may wrap midnight (e.g. 22 to 7).
+ */
+export function isQuietTime(quietHours: QuietHours | undefined, now = Date.now()): boolean {
+  if (!quietHours || quietHours.startHour === quietHours.endHour) return false;
+  const localHour = new Date(now + quietHours.utcOffsetMinutes * 60000).getUTCHours();
+  const { startHour, endHour } = quietHours;
+  return startHour < endHour ? localHour >= startHour && localHour < endHour : localHour >= startHour || localHour < endHour;
+}
+
+// Fields whose change counts as the position changing; fees are left out since they grow every poll
+const positionFingerprint = (positions: PositionData[]) =>
+  JSON.stringify(positions.map((p) => [p.position ?? p.pool, p.lowerBin, p.upperBin, p.liquidity, p.amountX, p.amountY]));
+
+/**
+ * Whether the rule's condition holds, with the alert text if so. `snapshot` is only set for change rules.
+ */
+function checkRule(rule: AlertRule, data: AlertSnapshot): { active: boolean; detail: string; snapshot?: string } {
+  const watched = POSITION_RULES.includes(rule.kind)
+    ? data.positions.filter((p) => !rule.position || p.position === rule.position)
+    : [];
+  const label = (p: PositionData) => `${p.tokenX}/${p.tokenY} ${p.position ? shortAddress(p.position) : shortAddress(p.pool)}`;
+
+  switch (rule.kind) {
+    case 'out_of_range': {
+      const out = watched.filter((p) => {
+        const pool = data.pools.get(p.pool);
+        return pool !== undefined && (pool.activeBin < p.lowerBin || pool.activeBin > p.upperBin);
+      });
+      const detail = out.map((p) => `${label(p)}: active bin ${data.pools.get(p.pool)!.activeBin}, range ${p.lowerBin} to ${p.upperBin}`);
+      return { active: out.length > 0, detail: detail.join('\n') };
+    }
+    case 'price_above':
+    case 'price_below': {
+      const price = data.pools.get(rule.pool!)?.price;
+      if (price === undefined) return { active: false, detail: '' };
+      const active = rule.kind === 'price_above' ? price > rule.threshold! : price < rule.threshold!;
+      return { active, detail: `Current price: ${price}` };
+    }
+    case 'fees_above': {
+      const over = watched.filter((p) => p.feesEarned > rule.threshold!);
+      return { active: over.length > 0, detail: over.map((p) => `${label(p)}: ${p.feesEarned} in fees`).join('\n') };
+    }
+    case 'balance_below':
+      return { active: data.balance < rule.threshold!, detail: `Balance: ${data.balance} SOL` };
+    case 'position_changed': {
+      const snapshot = positionFingerprint(watched);
+      const changed = rule.lastSnapshot !== undefined && snapshot !== rule.lastSnapshot;
+      const detail = watched.length
+        ? watched.map((p) => `${label(p)}: range ${p.lowerBin} to ${p.upperBin}, holding ${p.amountX} ${p.tokenX} + ${p.amountY} ${p.tokenY}`).join('\n')
+        : 'The position is gone (withdrawn or closed).';
+      return { active: changed, detail, snapshot };
+    }
+  }
+}
+
+/**
+ * Runs every rule against one poll's data. Pure function: the caller sends `alerts` and saves `rules`.
+ *
+ * Conditions alert once when they start to hold and re-arm when they clear. An alert that falls in quiet
+ * hours or in the rule's cooldown is held rather than dropped: the rule stays armed, so it fires once both
+ * have passed if the condition still holds. Muted rules keep tracking state but never alert.
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  data: AlertSnapshot,
+  quietHours?: QuietHours,
+  now = Date.now()
+): AlertEvaluation {
+  const quiet = isQuietTime(quietHours, now);
+  const alerts: FiredAlert[] = [];
+  let held = 0;
+
+  const updated = rules.map((rule) => {
+    const { active, detail, snapshot } = checkRule(rule, data);
+    // A change is an event rather than a lasting condition, so change rules never stay triggered
+    const next: AlertRule = {
+      ...rule,
+      triggered: active && rule.kind !== 'position_changed',
+      lastSnapshot: snapshot ?? rule.lastSnapshot,
+    };
+
+    if (!active || rule.muted) return next;
+    if (rule.triggered) return rule; // Already reported and still holding
+
+    const coolingDown = rule.lastFiredAt !== undefined && now - rule.lastFiredAt < rule.cooldownMinutes * 60000;
+    if (quiet || coolingDown) {
+      // Left armed (and a change rule keeps its old snapshot), so the alert goes out once this passes
+      held++;
+      return rule;
+    }
+    const fired = { ...next, lastFiredAt: now, updatedAt: now };
+    alerts.push({ rule: fired, message: `${describeAlertRule(rule)}\n${detail}`.trim() });
+    return fired;
+  });
+
+  return { rules: updated, alerts, held };
+}
+
+/**
+ * Pools the rules and positions need state for.
+ */
+export const alertPools = (rules: AlertRule[], positions: PositionData[]) => [
+  ...new Set([...positions.map((p) => p.pool), ...rules.map((r) => r.pool).filter((pool): pool is string => Boolean(pool))]),
+];
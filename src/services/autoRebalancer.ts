@@ -0,0 +1,121 @@
+import { AutoRebalanceRule, PositionData, RebalanceOperation, SolanaNetwork } from '../types.js';
+import { RebalanceRecommendation, RebalanceStrategy } from './rebalanceEngine.js';
+import { InvalidInputError } from './errors.js';
+
+export interface AutoRebalanceSettings {
+  strategy: RebalanceStrategy;
+  outOfRangePolls: number;
+  maxPerDay: number;
+  minFeesEarned: number;
+}
+
+export const DEFAULT_AUTO_REBALANCE_SETTINGS: AutoRebalanceSettings = {
+  strategy: 'spot',
+  outOfRangePolls: 3,
+  maxPerDay: 2,
+  minFeesEarned: 0,
+};
+
+export interface AutoRebalanceDecision {
+  rule: AutoRebalanceRule; // Updated counters; persist this whatever the decision
+  action: 'idle' | 'waiting' | 'rebalance' | 'skipped';
+  reason: string;
+  notify: boolean; // True when the user hasn't been told about this skip reason yet
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function createAutoRebalanceRule(
+  position: PositionData,
+  network: SolanaNetwork,
+  settings: Partial<AutoRebalanceSettings> = {}
+): AutoRebalanceRule {
+  if (!position.position) throw new InvalidInputError('Position address unknown; this position cannot be auto-rebalanced');
+  const now = Date.now();
+  return {
+    network,
+    position: position.position,
+    pool: position.pool,
+    ...DEFAULT_AUTO_REBALANCE_SETTINGS,
+    ...settings,
+    enabled: true,
+    consecutiveOutOfRange: 0,
+    rebalanceTimes: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Finds the position a rule applies to. A rebalance opens a new position account, so when the
+ * original address is gone the rule follows the position it created in the same pool.
+ */
+export function findRulePosition(rule: AutoRebalanceRule, positions: PositionData[]) {
+  const byAddress = positions.find((p) => p.position === rule.position);
+  if (byAddress || !rule.lastTargetRange) return byAddress;
+  const { lowerBin, upperBin } = rule.lastTargetRange;
+  return positions.find((p) => p.pool === rule.pool && p.position && p.lowerBin === lowerBin && p.upperBin === upperBin);
+}
+
+/**
+ * Decides what the poller should do with one rule this poll. Pure function: the caller executes
+ * the rebalance and records it with `recordAutoRebalance`.
+ */
+export function evaluateAutoRebalance(
+  rule: AutoRebalanceRule,
+  rec: RebalanceRecommendation,
+  position: PositionData,
+  now = Date.now()
+): AutoRebalanceDecision {
+  const next: AutoRebalanceRule = {
+    ...rule,
+    rebalanceTimes: rule.rebalanceTimes.filter((t) => now - t < DAY_MS),
+    updatedAt: now,
+  };
+
+  if (!next.enabled) {
+    return { rule: next, action: 'idle', reason: 'Paused.', notify: false };
+  }
+  if (rec.inRange) {
+    return { rule: { ...next, consecutiveOutOfRange: 0, lastNotice: undefined }, action: 'idle', reason: 'In range.', notify: false };
+  }
+
+  next.consecutiveOutOfRange = rule.consecutiveOutOfRange + 1;
+  if (next.consecutiveOutOfRange < next.outOfRangePolls) {
+    return {
+      rule: next,
+      action: 'waiting',
+      reason: `Out of range for ${next.consecutiveOutOfRange} of ${next.outOfRangePolls} polls.`,
+      notify: false,
+    };
+  }
+
+  let skipReason = '';
+  if (next.rebalanceTimes.length >= next.maxPerDay) {
+    skipReason = `Daily limit of ${next.maxPerDay} auto-rebalances reached.`;
+  } else if (position.feesEarned < next.minFeesEarned) {
+    skipReason = `Fees earned (${position.feesEarned}) are below the minimum of ${next.minFeesEarned}.`;
+  }
+  if (skipReason) {
+    const notify = skipReason !== rule.lastNotice;
+    return { rule: { ...next, lastNotice: skipReason }, action: 'skipped', reason: skipReason, notify };
+  }
+
+  return { rule: next, action: 'rebalance', reason: rec.reason, notify: true };
+}
+
+/**
+ * Updates a rule after the poller ran a rebalance for it. Every attempt counts towards the daily
+ * limit. A partial failure leaves the liquidity in the wallet, so the rule is paused.
+ */
+export function recordAutoRebalance(rule: AutoRebalanceRule, op: RebalanceOperation, now = Date.now()): AutoRebalanceRule {
+  return {
+    ...rule,
+    enabled: op.status === 'partial' ? false : rule.enabled,
+    consecutiveOutOfRange: 0,
+    rebalanceTimes: [...rule.rebalanceTimes, now],
+    lastTargetRange: op.status === 'completed' ? op.toRange : rule.lastTargetRange,
+    lastNotice: undefined,
+    updatedAt: now,
+  };
+}
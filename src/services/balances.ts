@@ -0,0 +1,52 @@
+import { Connection, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { getTokenSymbol } from './tokenList.js';
+
+export const NATIVE_MINT = 'So11111111111111111111111111111111111111112';
+
+// SPL Token and Token-2022; a wallet can hold accounts under either
+const TOKEN_PROGRAM_IDS = ['TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA', 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb'];
+
+/**
+ * A token the wallet holds, in UI units.
+ */
+export interface TokenHolding {
+  mint: string;
+  symbol: string;
+  decimals: number;
+  amount: number;
+}
+
+/**
+ * UI balance of `mint` held by `owner`, summed over all its token accounts.
+ * The wrapped SOL mint reports the native SOL balance, since DLMM deposits wrap it on the fly.
+ */
+export async function getTokenBalance(connection: Connection, owner: PublicKey, mint: string): Promise<number> {
+  if (mint === NATIVE_MINT) {
+    return (await connection.getBalance(owner)) / LAMPORTS_PER_SOL;
+  }
+  const { value } = await connection.getParsedTokenAccountsByOwner(owner, { mint: new PublicKey(mint) });
+  return value.reduce((sum, account) => sum + (account.account.data.parsed?.info?.tokenAmount?.uiAmount || 0), 0);
+}
+
+/**
+ * Native SOL first, then one entry per mint the owner has token accounts for, summed over its accounts.
+ * Empty accounts are kept, since they still exist on-chain and hold rent.
+ */
+export async function getTokenHoldings(connection: Connection, owner: PublicKey): Promise<TokenHolding[]> {
+  const [lamports, ...accountLists] = await Promise.all([
+    connection.getBalance(owner),
+    ...TOKEN_PROGRAM_IDS.map((programId) => connection.getParsedTokenAccountsByOwner(owner, { programId: new PublicKey(programId) })),
+  ]);
+  const byMint = new Map<string, TokenHolding>();
+  for (const { value } of accountLists) {
+    for (const { account } of value) {
+      const info = account.data.parsed?.info;
+      if (!info?.mint || !info.tokenAmount) continue;
+      const amount = info.tokenAmount.uiAmount || 0;
+      const existing = byMint.get(info.mint);
+      if (existing) existing.amount += amount;
+      else byMint.set(info.mint, { mint: info.mint, symbol: getTokenSymbol(info.mint), decimals: info.tokenAmount.decimals, amount });
+    }
+  }
+  return [{ mint: NATIVE_MINT, symbol: 'SOL', decimals: 9, amount: lamports / LAMPORTS_PER_SOL }, ...byMint.values()];
+}
@@ -0,0 +1,111 @@
+// Conversions between DLMM bin IDs and prices. Pure functions, no RPC.
+//
+// A bin's price grows by a fixed factor of (1 + binStep / 10000) per bin, so
+//   price(binId) = (1 + binStep / 10000) ^ (binId - BIN_ID_OFFSET) * 10 ^ (decimalsX - decimalsY)
+// where the decimals term turns the raw base-unit price into token X priced in token Y.
+//
+// Reference values (bin step 1, 6/6 decimals): bin 8388608 = 1.0, bin 8388708 = 1.0001^100 ≈ 1.010050.
+// Bin step 20 (SOL 9 / USDC 6 decimals): bin 8388608 = 1000, bin 8388608 - 1000 = 1000 * 1.002^-1000 ≈ 135.61.
+
+import { InvalidInputError } from './errors.js';
+
+// Saros stores bin IDs offset by 2^23 so that the offset bin trades at a raw price of exactly 1
+export const BIN_ID_OFFSET = 8388608;
+
+export type BinRounding = 'nearest' | 'down' | 'up';
+
+const stepFactor = (binStep: number) => 1 + binStep / 10000;
+
+const round = (value: number, rounding: BinRounding) => {
+  // Absorb floating point noise so that exact bin prices map back to their own bin
+  const snapped = Math.abs(value - Math.round(value)) < 1e-9 ? Math.round(value) : value;
+  if (rounding === 'down') return Math.floor(snapped);
+  if (rounding === 'up') return Math.ceil(snapped);
+  return Math.round(snapped);
+};
+
+/**
+ * Price of token X in token Y (UI units) at an absolute bin ID.
+ */
+export function getPriceFromBinId(binId: number, binStep: number, decimalsX: number, decimalsY: number): number {
+  return Math.pow(stepFactor(binStep), binId - BIN_ID_OFFSET) * Math.pow(10, decimalsX - decimalsY);
+}
+
+/**
+ * Absolute bin ID holding `price` (token X in token Y, UI units).
+ * Use 'down' for a range's lower bound and 'up' for its upper bound to keep the whole price range covered.
+ */
+export function getBinIdFromPrice(
+  price: number,
+  binStep: number,
+  decimalsX: number,
+  decimalsY: number,
+  rounding: BinRounding = 'nearest'
+): number {
+  if (!(price > 0)) throw new InvalidInputError('Price must be a positive number');
+  const rawPrice = price / Math.pow(10, decimalsX - decimalsY);
+  return BIN_ID_OFFSET + round(Math.log(rawPrice) / Math.log(stepFactor(binStep)), rounding);
+}
+
+/**
+ * Price at `binId` given the known price at the active bin. Works whatever the pool's bin ID origin.
+ */
+export const binPrice = (activePrice: number, binStep: number, binId: number, activeBin: number) =>
+  activePrice * Math.pow(stepFactor(binStep), binId - activeBin);
+
+/**
+ * Bin holding `price` given the known price at the active bin, the inverse of `binPrice`.
+ */
+export function priceToBinId(
+  price: number,
+  activePrice: number,
+  binStep: number,
+  activeBin: number,
+  rounding: BinRounding = 'nearest'
+): number {
+  if (!(price > 0)) throw new InvalidInputError('Price must be a positive number');
+  return activeBin + round(Math.log(price / activePrice) / Math.log(stepFactor(binStep)), rounding);
+}
+
+/**
+ * Converts a price range to the bin range that covers it.
+ */
+export function priceRangeToBinRange(low: number, high: number, activePrice: number, binStep: number, activeBin: number) {
+  if (!(low > 0) || !(high > low)) throw new InvalidInputError('Price range must be two positive prices with low < high');
+  return {
+    lowerBin: priceToBinId(low, activePrice, binStep, activeBin, 'down'),
+    upperBin: priceToBinId(high, activePrice, binStep, activeBin, 'up'),
+  };
+}
+
+/**
+ * Parses "low-high" (e.g. "140-165" or "0.0041-0.0045") into numbers. Returns null on bad input.
+ */
+export function parsePriceRange(text: string): { low: number; high: number } | null {
+  const match = text.trim().match(/^(\d*\.?\d+)\s*-\s*(\d*\.?\d+)$/);
+  if (!match) return null;
+  const low = Number(match[1]);
+  const high = Number(match[2]);
+  return low > 0 && high > low ? { low, high } : null;
+}
+
+/**
+ * Parses the `amount` of a removal, a percentage of the position from 1 to 100.
+ */
+export function parseRemovePercent(amount: string) {
+  const percent = Number(amount);
+  if (!amount || !Number.isFinite(percent) || percent <= 0 || percent > 100) {
+    throw new InvalidInputError('Invalid amount for removal (use a percentage between 1 and 100)');
+  }
+  return percent;
+}
+
+/**
+ * The bins a removal of `percent` of a position withdraws: that share of its bins, rounded and at
+ * least one, taken whole from the top of the range.
+ */
+export function removedBinRange(lowerBin: number, upperBin: number, percent: number) {
+  const binCount = upperBin - lowerBin + 1;
+  const binsToRemove = Math.max(1, Math.round((binCount * percent) / 100));
+  return { firstBin: upperBin - binsToRemove + 1, lastBin: upperBin, binCount, binsToRemove };
+}
@@ -0,0 +1,133 @@
+import { Raster, Rgb, GLYPH_HEIGHT } from './raster.js';
+import { BinRow } from './poolRegistry.js';
+import { accruedFees, snapshotValue } from './pnl.js';
+import { PositionSnapshot } from '../types.js';
+
+const WIDTH = 800;
+const HEIGHT = 420;
+const MARGIN = { top: 20, right: 80, bottom: 50, left: 80 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+const LABEL_SCALE = 2;
+
+const COLORS = {
+  background: [255, 255, 255],
+  axis: [60, 60, 60],
+  grid: [230, 230, 230],
+  label: [40, 40, 40],
+  tokenX: [79, 129, 189],
+  tokenY: [247, 150, 70],
+  range: [222, 242, 222],
+  active: [200, 40, 40],
+  value: [79, 129, 189],
+  fees: [46, 160, 67],
+  inRange: [46, 160, 67],
+  outOfRange: [200, 40, 40],
+} satisfies Record<string, Rgb>;
+
+// Compact axis label: the glyph set only has digits, a few symbols and K/M
+const formatAxis = (value: number) => {
+  const abs = Math.abs(value);
+  if (abs >= 1e6) return `${(value / 1e6).toFixed(1)}M`;
+  if (abs >= 1e4) return `${(value / 1e3).toFixed(1)}K`;
+  if (abs === 0) return '0';
+  return Number(value.toPrecision(3)).toString();
+};
+
+const formatTime = (at: number) => {
+  const d = new Date(at);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(d.getUTCMonth() + 1)}/${pad(d.getUTCDate())} ${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}`;
+};
+
+/**
+ * Frame with horizontal grid lines and value labels on the left (and optionally the right) axis.
+ */
+function drawFrame(raster: Raster, leftMax: number, rightMax?: number) {
+  const steps = 4;
+  for (let i = 0; i <= steps; i++) {
+    const y = MARGIN.top + PLOT_HEIGHT - (PLOT_HEIGHT * i) / steps;
+    raster.line(MARGIN.left, y, MARGIN.left + PLOT_WIDTH, y, i === 0 ? COLORS.axis : COLORS.grid);
+    const left = formatAxis((leftMax * i) / steps);
+    raster.text(MARGIN.left - 8 - Raster.textWidth(left, LABEL_SCALE), y - GLYPH_HEIGHT, left, COLORS.label, LABEL_SCALE);
+    if (rightMax !== undefined) raster.text(MARGIN.left + PLOT_WIDTH + 8, y - GLYPH_HEIGHT, formatAxis((rightMax * i) / steps), COLORS.fees, LABEL_SCALE);
+  }
+  raster.line(MARGIN.left, MARGIN.top, MARGIN.left, MARGIN.top + PLOT_HEIGHT, COLORS.axis);
+}
+
+const xLabel = (raster: Raster, x: number, value: string, color: Rgb = COLORS.label) =>
+  raster.text(x - Raster.textWidth(value, LABEL_SCALE) / 2, MARGIN.top + PLOT_HEIGHT + 12, value, color, LABEL_SCALE);
+
+/**
+ * Bar per bin, split into its token X (valued in token Y) and token Y reserves. The user's range is shaded
+ * and the active bin is marked in red.
+ */
+export function renderBinLiquidityChart(bins: BinRow[], activeBin: number, range?: { lowerBin: number; upperBin: number }): Buffer {
+  const raster = new Raster(WIDTH, HEIGHT, COLORS.background);
+  const sorted = [...bins].sort((a, b) => a.binId - b.binId);
+  const maxValue = sorted.reduce((max, bin) => Math.max(max, bin.value), 0) || 1;
+  const slot = PLOT_WIDTH / Math.max(sorted.length, 1);
+  const barWidth = Math.max(1, slot * 0.8);
+
+  sorted.forEach((bin, i) => {
+    if (range && bin.binId >= range.lowerBin && bin.binId <= range.upperBin) {
+      raster.fillRect(MARGIN.left + i * slot, MARGIN.top, slot + 1, PLOT_HEIGHT, COLORS.range);
+    }
+  });
+  drawFrame(raster, maxValue);
+
+  sorted.forEach((bin, i) => {
+    const x = MARGIN.left + i * slot + (slot - barWidth) / 2;
+    const base = MARGIN.top + PLOT_HEIGHT;
+    const yHeight = (bin.reserveY / maxValue) * PLOT_HEIGHT;
+    const xHeight = ((bin.reserveX * bin.price) / maxValue) * PLOT_HEIGHT;
+    raster.fillRect(x, base - yHeight, barWidth, yHeight, COLORS.tokenY);
+    raster.fillRect(x, base - yHeight - xHeight, barWidth, xHeight, COLORS.tokenX);
+    if (bin.binId === activeBin) {
+      const centre = x + barWidth / 2;
+      raster.line(centre, MARGIN.top, centre, base, COLORS.active, 2);
+      xLabel(raster, centre, String(bin.binId), COLORS.active);
+    }
+  });
+
+  if (sorted.length) {
+    xLabel(raster, MARGIN.left + slot / 2, String(sorted[0].binId));
+    xLabel(raster, MARGIN.left + PLOT_WIDTH - slot / 2, String(sorted[sorted.length - 1].binId));
+  }
+  return raster.toPng();
+}
+
+/**
+ * Position value (left axis) and fees earned since the first snapshot (right axis) over time, with a strip
+ * under the plot that is green while the position was in range and red while it was out.
+ */
+export function renderPositionHistoryChart(snapshots: PositionSnapshot[]): Buffer {
+  const raster = new Raster(WIDTH, HEIGHT, COLORS.background);
+  const sorted = [...snapshots].sort((a, b) => a.at - b.at);
+  const values = sorted.map(snapshotValue);
+  const fees: number[] = [];
+  sorted.forEach((snapshot, i) => fees.push(i === 0 ? 0 : fees[i - 1] + accruedFees(sorted[i - 1], snapshot)));
+  const maxValue = values.reduce((max, value) => Math.max(max, value), 0) || 1;
+  const maxFees = fees[fees.length - 1] || 1;
+  drawFrame(raster, maxValue, maxFees);
+
+  const start = sorted[0]?.at ?? 0;
+  const span = (sorted[sorted.length - 1]?.at ?? 0) - start || 1;
+  const xAt = (at: number) => MARGIN.left + ((at - start) / span) * PLOT_WIDTH;
+  const yAt = (value: number, max: number) => MARGIN.top + PLOT_HEIGHT - (value / max) * PLOT_HEIGHT;
+
+  for (let i = 1; i < sorted.length; i++) {
+    const [x0, x1] = [xAt(sorted[i - 1].at), xAt(sorted[i].at)];
+    raster.fillRect(x0, MARGIN.top + PLOT_HEIGHT + 2, x1 - x0 + 1, 6, sorted[i - 1].inRange ? COLORS.inRange : COLORS.outOfRange);
+    raster.line(x0, yAt(fees[i - 1], maxFees), x1, yAt(fees[i], maxFees), COLORS.fees, 2);
+    raster.line(x0, yAt(values[i - 1], maxValue), x1, yAt(values[i], maxValue), COLORS.value, 3);
+  }
+
+  if (sorted.length) {
+    const first = formatTime(start);
+    const last = formatTime(start + span);
+    raster.text(MARGIN.left, MARGIN.top + PLOT_HEIGHT + 16, first, COLORS.label, LABEL_SCALE);
+    raster.text(MARGIN.left + PLOT_WIDTH - Raster.textWidth(last, LABEL_SCALE), MARGIN.top + PLOT_HEIGHT + 16, last, COLORS.label, LABEL_SCALE);
+  }
+  return raster.toPng();
+}
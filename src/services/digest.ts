@@ -0,0 +1,97 @@
+import { DigestSettings, PositionData, PositionSnapshot, RebalanceOperation, SolanaNetwork, TrackedTransaction } from '../types.js';
+import { accruedFees, snapshotPositionKey } from './pnl.js';
+
+export const DIGEST_WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * The most recent time at or before `now` the digest was scheduled for, in UTC milliseconds.
+ */
+export function lastDigestSlot({ frequency, hour, weekday, utcOffsetMinutes }: DigestSettings, now = Date.now()) {
+  // Work in the user's local time, where the slot is a whole hour on a whole day
+  const local = now + utcOffsetMinutes * 60000;
+  let slot = Math.floor(local / DAY_MS) * DAY_MS + hour * HOUR_MS;
+  if (slot > local) slot -= DAY_MS;
+  if (frequency === 'weekly') slot -= ((new Date(slot).getUTCDay() - weekday + 7) % 7) * DAY_MS;
+  return slot - utcOffsetMinutes * 60000;
+}
+
+export const nextDigestSlot = (settings: DigestSettings, now = Date.now()) =>
+  lastDigestSlot(settings, now) + (settings.frequency === 'weekly' ? 7 : 1) * DAY_MS;
+
+/**
+ * True once a scheduled time has passed that no digest has gone out for yet. A bot that was down over
+ * several slots sends one digest, not one per missed slot.
+ */
+export const isDigestDue = (settings: DigestSettings, now = Date.now()) =>
+  lastDigestSlot(settings, now) > (settings.lastSentAt ?? settings.enabledAt);
+
+export interface DigestInput {
+  network: SolanaNetwork;
+  from: number;
+  to: number;
+  positions: PositionData[];
+  pools: Map<string, { activeBin: number }>;
+  snapshots: PositionSnapshot[]; // Should start one poll before `from`, so the first interval is counted
+  rebalances: RebalanceOperation[];
+  transactions: TrackedTransaction[];
+}
+
+export interface DigestPosition {
+  position: PositionData;
+  inRange: boolean | null; // Null when the pool couldn't be read
+  feesEarned: number; // Since `from`, in the position's token Y
+}
+
+export interface DigestReport {
+  from: number;
+  to: number;
+  positions: DigestPosition[];
+  feeTotals: Array<{ token: string; amount: number }>; // Includes positions closed during the period
+  rebalancesCompleted: RebalanceOperation[];
+  rebalancesFailed: RebalanceOperation[]; // Failed or partial
+  failedTransactions: TrackedTransaction[]; // Failed or expired
+}
+
+/**
+ * What happened on one network between `from` and `to`. Pure function; callers load the records.
+ */
+export function buildDigestReport({ network, from, to, positions, pools, snapshots, rebalances, transactions }: DigestInput): DigestReport {
+  const inPeriod = (at: number) => at > from && at <= to;
+
+  const fees = new Map<string, { token: string; amount: number }>();
+  const history = new Map<string, PositionSnapshot>();
+  for (const snapshot of [...snapshots].filter((s) => s.network === network).sort((a, b) => a.at - b.at)) {
+    const previous = history.get(snapshot.position);
+    history.set(snapshot.position, snapshot);
+    if (!previous || !inPeriod(snapshot.at)) continue;
+    const earned = fees.get(snapshot.position) ?? { token: snapshot.tokenY, amount: 0 };
+    earned.amount += accruedFees(previous, snapshot);
+    fees.set(snapshot.position, earned);
+  }
+
+  const feeTotals = new Map<string, number>();
+  for (const { token, amount } of fees.values()) feeTotals.set(token, (feeTotals.get(token) ?? 0) + amount);
+
+  const periodRebalances = rebalances.filter((r) => (r.network ?? 'devnet') === network && inPeriod(r.createdAt));
+  return {
+    from,
+    to,
+    positions: positions.map((position) => {
+      const pool = pools.get(position.pool);
+      return {
+        position,
+        inRange: pool ? pool.activeBin >= position.lowerBin && pool.activeBin <= position.upperBin : null,
+        feesEarned: fees.get(snapshotPositionKey(position))?.amount ?? 0,
+      };
+    }),
+    feeTotals: [...feeTotals].map(([token, amount]) => ({ token, amount })),
+    rebalancesCompleted: periodRebalances.filter((r) => r.status === 'completed'),
+    rebalancesFailed: periodRebalances.filter((r) => r.status === 'failed' || r.status === 'partial'),
+    failedTransactions: transactions.filter(
+      (tx) => tx.network === network && inPeriod(tx.createdAt) && (tx.status === 'failed' || tx.status === 'expired')
+    ),
+  };
+}
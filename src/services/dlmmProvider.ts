@@ -0,0 +1,144 @@
+import { PublicKey, Keypair, TransactionSignature } from '@solana/web3.js';
+import { RebalanceStrategy } from './rebalanceEngine.js';
+import { TransactionStatus } from '../types.js';
+import { TokenHolding } from './balances.js';
+
+/**
+ * A position as reported by a DLMM backend, before DlmmService formats it for the bot.
+ */
+export interface ProviderPosition {
+  pool: string;
+  position?: string; // On-chain position account, when the backend knows it
+  lowerBinId: number;
+  upperBinId: number;
+  liquidity: string; // Value in token Y, token X priced at each bin's price (unchanged by swaps within the bins)
+  feesOwed: string;
+  amountX?: string; // UI amounts of each token held by the position
+  amountY?: string;
+  tokenXMint?: string;
+  tokenYMint?: string;
+}
+
+/**
+ * On-chain state of a DLMM pool needed to reason about ranges.
+ */
+export interface PoolState {
+  address: string;
+  activeBin: number;
+  binStep: number; // In basis points
+  price: number; // Price of token X in token Y at the active bin
+}
+
+export interface PoolToken {
+  mint: string;
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * Market data for one pool, as listed by the pool registry.
+ */
+export interface PoolInfo extends PoolState {
+  tokenX: PoolToken;
+  tokenY: PoolToken;
+  tvl: number; // Reserves valued in token Y
+  feeTier: number; // Base trade fee in percent
+}
+
+/**
+ * Reserves held in one bin, in UI units.
+ */
+export interface BinLiquidity {
+  binId: number;
+  reserveX: number;
+  reserveY: number;
+}
+
+export interface AddLiquidityParams {
+  pool: PublicKey | null;
+  lowerBin: number;
+  upperBin: number;
+  amountX: string; // UI amounts (e.g. "1.5"), converted to base units by the provider
+  amountY: string;
+  shape?: RebalanceStrategy; // How the amounts are spread over the range; spot (uniform) by default
+  signer: Keypair;
+}
+
+export interface RemoveLiquidityParams {
+  pool: PublicKey | null;
+  positionPubkey: PublicKey;
+  amount: string;
+  signer: Keypair;
+}
+
+export interface ClaimFeesParams {
+  pool: PublicKey | null;
+  positionPubkey: PublicKey;
+  signer: Keypair;
+}
+
+export interface ClaimFeesResult {
+  signature: TransactionSignature;
+  amountX: string; // UI amounts received
+  amountY: string;
+}
+
+// Simulations only need the paying wallet, not its keypair
+export type SimulateAddLiquidityParams = Omit<AddLiquidityParams, 'signer'> & { payer: PublicKey };
+export type SimulateRemoveLiquidityParams = Omit<RemoveLiquidityParams, 'signer'> & { payer: PublicKey };
+
+/**
+ * Expected change to one of the wallet's token balances, in UI units. Negative amounts leave the wallet.
+ */
+export interface TokenDelta {
+  mint: string;
+  symbol: string;
+  amount: number;
+}
+
+/**
+ * Outcome of simulating every transaction an operation would send, without signing anything.
+ */
+export interface SimulationResult {
+  deltas: TokenDelta[]; // Deposits and withdrawals, excluding SOL spent on fees and rent
+  computeUnits: number; // Consumed by the simulated transactions
+  feeLamports: number; // Base and priority fees over all transactions
+  rentLamports: number; // Deposits for accounts the simulated transactions create
+  transactionCount: number;
+  // Transactions that use accounts created earlier in the same batch can't be simulated on their own
+  simulatedCount: number;
+  error?: string; // First simulation failure, if any
+}
+
+export interface TransactionStatusResult {
+  status: Exclude<TransactionStatus, 'expired'>; // 'pending' = not seen on-chain yet
+  error?: string;
+}
+
+/**
+ * The operations DlmmService needs from a DLMM backend.
+ * Implemented by the offline mock and by the Saros SDK adapter.
+ */
+export interface DlmmProvider {
+  readonly name: string;
+  // False when swap fees are added to the position's bins (Saros): there is nothing separate to claim,
+  // and positions always report feesOwed as 0
+  readonly claimsFees: boolean;
+  getUserPositions(user: PublicKey, pool: PublicKey | null): Promise<ProviderPosition[]>;
+  getPoolState(pool: string): Promise<PoolState>;
+  listPoolAddresses(): Promise<string[]>;
+  getPoolInfo(pool: string): Promise<PoolInfo>;
+  // Bins within `radius` of the active bin, lowest bin first
+  getBinDistribution(pool: string, radius: number): Promise<BinLiquidity[]>;
+  createPositionAndAddLiquidity(params: AddLiquidityParams): Promise<TransactionSignature>;
+  // `amount` is a percentage (1-100) of the position's bins, withdrawn whole from the top of the range (see removedBinRange)
+  removeLiquidity(params: RemoveLiquidityParams): Promise<TransactionSignature>;
+  claimFees(params: ClaimFeesParams): Promise<ClaimFeesResult>;
+  simulateAddLiquidity(params: SimulateAddLiquidityParams): Promise<SimulationResult>;
+  simulateRemoveLiquidity(params: SimulateRemoveLiquidityParams): Promise<SimulationResult>;
+  // UI balance of `mint` held by `owner`; the wrapped SOL mint reports native SOL
+  getTokenBalance(owner: PublicKey, mint: string): Promise<number>;
+  // Native SOL first, then every SPL token the owner has an account for
+  getTokenHoldings(owner: PublicKey): Promise<TokenHolding[]>;
+  getTransactionStatus(signature: string): Promise<TransactionStatusResult>;
+}
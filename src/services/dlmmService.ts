@@ -1,49 +1,22 @@
-import { Connection, PublicKey, Keypair, TransactionSignature } from '@solana/web3.js';
+import { PublicKey, Keypair, TransactionSignature } from '@solana/web3.js';
+import { MODE } from '@saros-finance/dlmm-sdk';
 import * as dotenv from 'dotenv';
 import bs58 from 'bs58';
+import { DlmmProvider, PoolState, SimulationResult } from './dlmmProvider.js';
+import { MockDLMM } from './mockDlmmProvider.js';
+import { SarosDlmmProvider } from './sarosDlmmProvider.js';
+import { recommendRebalance, RebalanceRecommendation, RebalanceStrategy } from './rebalanceEngine.js';
+import { PositionData, RebalanceOperation } from '../types.js';
+import { randomUUID } from 'crypto';
+import { getTokenSymbol } from './tokenList.js';
+import { evaluatePreflight, PreflightResult, requiredMints } from './preflight.js';
+import { InsufficientFundsError, InvalidInputError, NotInitializedError, toDlmmError } from './errors.js';
+import { getRpcManager } from './rpcManager.js';
+import { defaultNetwork, networkEnv } from './network.js';
+import { SolanaNetwork } from '../types.js';
 
 dotenv.config();
 
-/**
- * MockDLMM object simulates the core interactions with the DLMM program.
- * In a real application, this would be replaced by a dedicated SDK client.
- */
-const MockDLMM = {
-  // Mock function to simulate fetching existing positions
-  async getUserPositions(user: PublicKey) {
-    return [
-      {
-        pool: 'mockPoolAddress',
-        lowerBinId: 100,
-        upperBinId: 200,
-        liquidity: '1000',
-        feesOwed: '10',
-      },
-    ];
-  },
-  
-  // Mock function for adding liquidity and creating a position
-  async createPositionAndAddLiquidity(lowerBin: number, upperBin: number, amountX: string, amountY: string) {
-    if (isNaN(lowerBin) || isNaN(upperBin) || !amountX || !amountY) {
-      throw new Error('Invalid liquidity parameters');
-    }
-    const txSig = `mockTx_${lowerBin}_${upperBin}_${amountX}_${amountY}_${Date.now()}`;
-    console.log('MockDLMM.createPositionAndAddLiquidity called with:', { lowerBin, upperBin, amountX, amountY }, 'returning:', txSig);
-    return txSig;
-  },
-  
-  // Mock function for removing liquidity
-  async removeLiquidity(positionPubkey: PublicKey, amount: string) {
-    if (!amount || isNaN(Number(amount))) throw new Error('Invalid amount for removal');
-    const txSig = `mockRemoveTx_${positionPubkey.toString()}_${amount}_${Date.now()}`;
-    console.log('MockDLMM.removeLiquidity called with:', { positionPubkey, amount }, 'returning:', txSig);
-    return txSig;
-  },
-};
-
-const RPC_URL = process.env.SOLANA_RPC_URL || 'https://api.devnet.solana.com';
-const connection = new Connection(RPC_URL, 'confirmed');
-
 // Global bot wallet (used for non-user-specific signing or fallback)
 const walletPrivateKey = process.env.WALLET_PRIVATE_KEY;
 let botWallet: Keypair | null = null;
@@ -65,108 +38,453 @@ if (walletPrivateKey) {
   console.warn('WALLET_PRIVATE_KEY not found in .env; using user wallet only');
 }
 
+/**
+ * Picks the DLMM backend from `DLMM_PROVIDER`: `mock` (default, offline) or `saros` (real SDK).
+ * The SDK adapter runs against `network` and scans `DLMM_POOL_ADDRESSES` (per network, see networkEnv)
+ * when no pool is given. `DLMM_PRIORITY_FEE_MICROLAMPORTS` fixes the priority fee; otherwise it follows
+ * the network, capped by `DLMM_MAX_PRIORITY_FEE_MICROLAMPORTS`.
+ */
+export function createDlmmProvider(kind = process.env.DLMM_PROVIDER || 'mock', network = defaultNetwork()): DlmmProvider {
+  switch (kind) {
+    case 'mock':
+      return MockDLMM;
+    case 'saros':
+      return new SarosDlmmProvider({
+        mode: network === 'mainnet-beta' ? MODE.MAINNET : MODE.DEVNET,
+        rpc: getRpcManager(network),
+        watchedPools: (networkEnv('DLMM_POOL_ADDRESSES', network) || '').split(',').map((a) => a.trim()).filter(Boolean),
+        priorityFeeMicroLamports: process.env.DLMM_PRIORITY_FEE_MICROLAMPORTS ? Number(process.env.DLMM_PRIORITY_FEE_MICROLAMPORTS) : undefined,
+        maxPriorityFeeMicroLamports: process.env.DLMM_MAX_PRIORITY_FEE_MICROLAMPORTS ? Number(process.env.DLMM_MAX_PRIORITY_FEE_MICROLAMPORTS) : undefined,
+      });
+    default:
+      throw new Error(`Unknown DLMM_PROVIDER "${kind}" (expected "mock" or "saros")`);
+  }
+}
+
+export interface DlmmServiceOptions {
+  // The user this service acts for: a Keypair enables signing, a PublicKey is read-only
+  user: PublicKey | Keypair;
+  // Pool to operate on; omit to read positions across all watched pools
+  poolAddress?: string;
+  // Sign with the global bot wallet when no user Keypair is given. Off unless explicitly requested.
+  allowBotWalletFallback?: boolean;
+  // Cluster to work on; picks the shared provider for it unless `provider` is given
+  network?: SolanaNetwork;
+  provider?: DlmmProvider;
+}
+
+/**
+ * Fees collected from one position, in UI amounts of the pool's tokens.
+ */
+export interface FeeClaim {
+  position: string;
+  pool: string;
+  tokenX: string;
+  tokenY: string;
+  signature: TransactionSignature;
+  amountX: number;
+  amountY: number;
+}
+
+export interface FeeCompound extends FeeClaim {
+  addSignature?: TransactionSignature;
+  // Set when the fees were claimed but could not be re-added; they stay in the wallet
+  error?: string;
+}
+
+export interface FeeClaimFailure {
+  position: string;
+  error: string;
+}
+
+// Rough fee model for confirmation screens: base fee per signature plus a priority fee allowance
+const LAMPORTS_PER_SIGNATURE = 5000;
+const PRIORITY_FEE_LAMPORTS_PER_TX = 10000;
+// A rebalance is one remove transaction plus setup, position creation and deposit on the add side
+const REBALANCE_TX_COUNT = 4;
+
+// Providers hold no per-user state, so one instance per network is shared by every service context
+const sharedProviders = new Map<SolanaNetwork, DlmmProvider>();
+export function getSharedProvider(network = defaultNetwork()) {
+  let provider = sharedProviders.get(network);
+  if (!provider) {
+    provider = createDlmmProvider(undefined, network);
+    sharedProviders.set(network, provider);
+  }
+  return provider;
+}
+
+/**
+ * Throws the typed error for a failed preflight check, so nothing known to fail is ever sent.
+ */
+function assertPreflight(preflight: PreflightResult) {
+  if (preflight.ok) return;
+  const { reason, message } = preflight.failure!;
+  if (reason === 'insufficient_sol' || reason === 'insufficient_token') throw new InsufficientFundsError(message);
+  throw toDlmmError(new Error(message), 'Preflight check failed');
+}
+
+/**
+ * Creates a DlmmService scoped to one user and one pool.
+ * Build a new one per request or poll; instances never change signer after construction.
+ */
+export function createDlmmService(options: DlmmServiceOptions) {
+  return new DlmmService(options);
+}
+
 export class DlmmService {
-  private dlmm: typeof MockDLMM | null = null;
-  private userWallet: Keypair | null = null;
+  readonly owner: PublicKey;
+  readonly poolAddress: PublicKey | null;
+  readonly network: SolanaNetwork;
+  private readonly signer: Keypair | null;
+  private readonly dlmm: DlmmProvider;
 
-  /**
-   * Initializes the service, optionally setting the user's Keypair for signing.
-   * @param poolAddress The pool address (ignored in mock).
-   * @param userWallet The user's public key or keypair.
-   */
-  async init(poolAddress: string, userWallet?: PublicKey | Keypair) {
-    console.log('DlmmService init called with poolAddress:', poolAddress, 'userWallet provided:', !!userWallet);
-    
-    // Set the user wallet context for the service
-    if (userWallet instanceof Keypair) {
-      this.userWallet = userWallet;
-    } else if (userWallet) {
-      // If only PublicKey is provided, we can't sign transactions, 
-      // but we use it for read-only operations.
-      // Since this class performs signing, this path is mostly for reading.
-      console.warn('Only PublicKey provided. Transactions require a Keypair.');
-    }
+  constructor({ user, poolAddress, allowBotWalletFallback = false, network, provider = getSharedProvider(network) }: DlmmServiceOptions) {
+    // Validates the address up front so bad input fails before any transaction is built
+    this.poolAddress = poolAddress ? new PublicKey(poolAddress) : null;
+    this.network = network ?? defaultNetwork();
+    this.dlmm = provider;
 
-    if (!this.userWallet && botWallet) {
-        // Fallback to bot wallet if no user wallet is explicitly set and bot wallet exists
-        this.userWallet = botWallet;
+    if (user instanceof Keypair) {
+      this.owner = user.publicKey;
+      this.signer = user;
+    } else {
+      // Read-only context: transactions need an explicit fallback to the bot wallet
+      this.owner = user;
+      this.signer = allowBotWalletFallback ? botWallet : null;
+      if (allowBotWalletFallback && !botWallet) {
+        console.warn('Bot wallet fallback requested but WALLET_PRIVATE_KEY is not configured.');
+      }
     }
+  }
 
-    // Assign the mock implementation
-    this.dlmm = MockDLMM;
-    console.log('DlmmService init successful.');
-    return this.dlmm;
+  private requireSigner() {
+    if (!this.signer) {
+      throw new NotInitializedError('This DLMM context has no signing keypair (read-only user, bot wallet fallback not enabled)');
+    }
+    return this.signer;
   }
 
   /**
-   * Fetches mock DLMM positions for a given user.
+   * Fetches DLMM positions for the context's user in its pool (or all watched pools).
    */
-  async getPositions(userPublicKey: PublicKey) {
-    console.log('getPositions called with userPublicKey:', userPublicKey.toString());
-    if (!this.dlmm) throw new Error('DLMM not initialized');
+  async getPositions() {
     try {
-      const positions = await this.dlmm.getUserPositions(userPublicKey);
-      const formattedPositions = positions.map((pos) => ({
+      const positions = await this.dlmm.getUserPositions(this.owner, this.poolAddress);
+      return positions.map((pos) => ({
         pool: pos.pool.toString(),
+        position: pos.position,
         lowerBin: pos.lowerBinId,
         upperBin: pos.upperBinId,
         // Ensure numbers are returned for cleaner comparison in the bot logic
         liquidity: Number(pos.liquidity), 
         feesEarned: Number(pos.feesOwed),
+        amountX: Number(pos.amountX || 0),
+        amountY: Number(pos.amountY || 0),
+        tokenX: pos.tokenXMint ? getTokenSymbol(pos.tokenXMint) : 'X',
+        tokenY: pos.tokenYMint ? getTokenSymbol(pos.tokenYMint) : 'Y',
+        tokenXMint: pos.tokenXMint,
+        tokenYMint: pos.tokenYMint,
       }));
-      console.log('getPositions returned:', formattedPositions);
-      return formattedPositions;
     } catch (error) {
       console.error('getPositions error:', error);
-      throw new Error(`Failed to fetch positions: ${(error as Error).message}`);
+      throw toDlmmError(error, 'Failed to fetch positions');
+    }
+  }
+
+  /**
+   * Native SOL and every SPL token the owner holds, in UI units.
+   */
+  async getTokenHoldings() {
+    try {
+      return await this.dlmm.getTokenHoldings(this.owner);
+    } catch (error) {
+      console.error('getTokenHoldings error:', error);
+      throw toDlmmError(error, 'Failed to fetch token balances');
+    }
+  }
+
+  /**
+   * Simulates adding liquidity and checks the wallet can pay for the deposits, rent and fees. Sends nothing.
+   */
+  async preflightAddLiquidity(
+    lowerBin: number,
+    upperBin: number,
+    amountX: string,
+    amountY: string,
+    shape: RebalanceStrategy = 'spot'
+  ): Promise<PreflightResult> {
+    try {
+      const simulation = await this.dlmm.simulateAddLiquidity({
+        pool: this.poolAddress,
+        lowerBin,
+        upperBin,
+        amountX,
+        amountY,
+        shape,
+        payer: this.owner,
+      });
+      return await this.checkBalances(simulation);
+    } catch (error) {
+      throw toDlmmError(error, 'Preflight check failed');
     }
   }
 
   /**
-   * Simulates adding liquidity. Requires a Keypair for signing.
+   * Simulates removing liquidity from a position and checks the wallet can pay the fees. Sends nothing.
    */
-  async addLiquidity(lowerBin: number, upperBin: number, amountX: string, amountY: string, userKeypair: Keypair): Promise<TransactionSignature> {
-    console.log('addLiquidity called with signer:', userKeypair.publicKey.toString());
-    if (!this.dlmm) throw new Error('DLMM not initialized');
-    
+  async preflightRemoveLiquidity(positionPubkey: PublicKey, amount: string): Promise<PreflightResult> {
     try {
+      const simulation = await this.dlmm.simulateRemoveLiquidity({ pool: this.poolAddress, positionPubkey, amount, payer: this.owner });
+      return await this.checkBalances(simulation);
+    } catch (error) {
+      throw toDlmmError(error, 'Preflight check failed');
+    }
+  }
+
+  private async checkBalances(simulation: SimulationResult) {
+    const mints = requiredMints(simulation);
+    const amounts = await Promise.all(mints.map((mint) => this.dlmm.getTokenBalance(this.owner, mint)));
+    return evaluatePreflight(simulation, new Map(mints.map((mint, i) => [mint, amounts[i]])));
+  }
+
+  /**
+   * Adds liquidity to the context's pool, signed by the context's keypair.
+   * `shape` spreads the amounts over the range like the rebalance strategies (uniform by default).
+   */
+  async addLiquidity(
+    lowerBin: number,
+    upperBin: number,
+    amountX: string,
+    amountY: string,
+    shape: RebalanceStrategy = 'spot'
+  ): Promise<TransactionSignature> {
+    try {
+      const signer = this.requireSigner();
+      console.log('addLiquidity called with signer:', signer.publicKey.toString());
       if (isNaN(lowerBin) || isNaN(upperBin) || !amountX || !amountY) {
-        throw new Error('Invalid input parameters for liquidity addition');
+        throw new InvalidInputError('Invalid input parameters for liquidity addition');
       }
-      // The Mock DLMM handles the actual transaction simulation
-      const tx = await this.dlmm.createPositionAndAddLiquidity(lowerBin, upperBin, amountX, amountY);
+      // Never send a deposit that is known to fail
+      const preflight = await this.preflightAddLiquidity(lowerBin, upperBin, amountX, amountY, shape);
+      assertPreflight(preflight);
+      const tx = await this.dlmm.createPositionAndAddLiquidity({
+        pool: this.poolAddress,
+        lowerBin,
+        upperBin,
+        amountX,
+        amountY,
+        shape,
+        signer,
+      });
       console.log('addLiquidity returned tx:', tx);
       return tx;
     } catch (error) {
       console.error('addLiquidity error:', error);
-      throw new Error(`Add liquidity failed: ${(error as Error).message}`);
+      throw toDlmmError(error, 'Add liquidity failed');
     }
   }
 
   /**
-   * Simulates removing liquidity. Requires a Keypair for signing.
+   * Removes liquidity from a position, signed by the context's keypair.
+   */
+  async removeLiquidity(positionPubkey: PublicKey, amount: string): Promise<TransactionSignature> {
+    return (await this.withdraw(positionPubkey, amount)).signature;
+  }
+
+  /**
+   * Removes liquidity and returns the token amounts it withdrew, as quoted by the preflight simulation
+   * right before sending (token X first, then token Y).
    */
-  async removeLiquidity(positionPubkey: PublicKey, amount: string, userKeypair: Keypair): Promise<TransactionSignature> {
-    console.log('removeLiquidity called with signer:', userKeypair.publicKey.toString());
-    if (!this.dlmm) throw new Error('DLMM not initialized');
-    
+  private async withdraw(positionPubkey: PublicKey, amount: string): Promise<{ signature: TransactionSignature; amountX: number; amountY: number }> {
     try {
-      if (!amount || isNaN(Number(amount))) throw new Error('Invalid amount for removal');
-      // The Mock DLMM handles the actual transaction simulation
-      const tx = await this.dlmm.removeLiquidity(positionPubkey, amount);
+      const signer = this.requireSigner();
+      console.log('removeLiquidity called with signer:', signer.publicKey.toString());
+      if (!amount || isNaN(Number(amount))) throw new InvalidInputError('Invalid amount for removal');
+      const preflight = await this.preflightRemoveLiquidity(positionPubkey, amount);
+      assertPreflight(preflight);
+      const tx = await this.dlmm.removeLiquidity({
+        pool: this.poolAddress,
+        positionPubkey,
+        amount,
+        signer,
+      });
       console.log('removeLiquidity returned tx:', tx);
-      return tx;
+      const [deltaX, deltaY] = preflight.deltas;
+      return { signature: tx, amountX: Math.max(deltaX?.amount ?? 0, 0), amountY: Math.max(deltaY?.amount ?? 0, 0) };
     } catch (error) {
       console.error('removeLiquidity error:', error);
-      throw new Error(`Remove liquidity failed: ${(error as Error).message}`);
+      throw toDlmmError(error, 'Remove liquidity failed');
+    }
+  }
+
+  /**
+   * Claims the fees a position has earned into the signer's wallet.
+   */
+  async claimFees(position: PositionData): Promise<FeeClaim> {
+    try {
+      const signer = this.requireSigner();
+      if (!position.position) throw new InvalidInputError('Position address unknown; cannot claim fees for this position');
+      console.log('claimFees called for position:', position.position);
+      const result = await this.dlmm.claimFees({
+        pool: new PublicKey(position.pool),
+        positionPubkey: new PublicKey(position.position),
+        signer,
+      });
+      console.log('claimFees returned:', result);
+      return {
+        position: position.position,
+        pool: position.pool,
+        tokenX: position.tokenX,
+        tokenY: position.tokenY,
+        signature: result.signature,
+        amountX: Number(result.amountX),
+        amountY: Number(result.amountY),
+      };
+    } catch (error) {
+      console.error('claimFees error:', error);
+      throw toDlmmError(error, 'Claim fees failed');
+    }
+  }
+
+  /**
+   * Claims a position's fees, then deposits them back into the same range.
+   * A failed deposit is reported in `error` rather than thrown, because the claim already went through.
+   */
+  async compoundFees(position: PositionData): Promise<FeeCompound> {
+    const claim = await this.claimFees(position);
+    if (claim.amountX <= 0 && claim.amountY <= 0) return claim;
+
+    try {
+      // The deposit targets the position's pool, whatever pool this context was built for
+      const addService = new DlmmService({ user: this.requireSigner(), poolAddress: position.pool, network: this.network, provider: this.dlmm });
+      const addSignature = await addService.addLiquidity(
+        position.lowerBin,
+        position.upperBin,
+        claim.amountX.toFixed(6),
+        claim.amountY.toFixed(6)
+      );
+      return { ...claim, addSignature };
+    } catch (error) {
+      return { ...claim, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Claims (or compounds) fees from every position of the context's user that has an address and earned fees.
+   * Positions are processed one by one so a failure doesn't stop the rest.
+   */
+  async claimAllFees(compound = false): Promise<{ claims: FeeCompound[]; failures: FeeClaimFailure[] }> {
+    const positions = (await this.getPositions()).filter((p) => p.position && p.feesEarned > 0);
+    const claims: FeeCompound[] = [];
+    const failures: FeeClaimFailure[] = [];
+    for (const position of positions) {
+      try {
+        claims.push(compound ? await this.compoundFees(position) : await this.claimFees(position));
+      } catch (error) {
+        failures.push({ position: position.position!, error: (error as Error).message });
+      }
+    }
+    return { claims, failures };
+  }
+
+  /**
+   * Estimated network fees in SOL for applying a rebalance (excludes refundable account rent).
+   */
+  estimateRebalanceFee() {
+    return (REBALANCE_TX_COUNT * (LAMPORTS_PER_SIGNATURE + PRIORITY_FEE_LAMPORTS_PER_TX)) / 1e9;
+  }
+
+  /**
+   * Applies a recommendation: withdraws the whole position, then re-deposits what was withdrawn into the proposed range.
+   * The re-deposit is sized from the withdrawal's own quote, not the recommendation, whose amounts may be stale.
+   * Runs as one tracked operation; `onUpdate` is called after each step so callers can persist progress.
+   * If the add leg fails after the remove succeeded, the operation ends in the 'partial' state.
+   */
+  async executeRebalance(
+    rec: RebalanceRecommendation,
+    onUpdate: (op: RebalanceOperation) => Promise<void> | void = () => undefined
+  ): Promise<RebalanceOperation> {
+    if (!rec.position) throw new InvalidInputError('Position address unknown; cannot rebalance this position');
+    const now = Date.now();
+    const op: RebalanceOperation = {
+      id: randomUUID(),
+      network: this.network,
+      pool: rec.pool,
+      position: rec.position,
+      strategy: rec.strategy,
+      fromRange: rec.currentRange,
+      toRange: rec.proposedRange,
+      amountX: rec.amountX,
+      amountY: rec.amountY,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    };
+    const update = async (changes: Partial<RebalanceOperation>) => {
+      Object.assign(op, changes, { updatedAt: Date.now() });
+      await onUpdate({ ...op });
+    };
+    await update({});
+
+    try {
+      const { signature: removeSignature, amountX, amountY } = await this.withdraw(new PublicKey(rec.position), '100');
+      await update({ status: 'removed', removeSignature, amountX, amountY });
+    } catch (error) {
+      await update({ status: 'failed', error: (error as Error).message });
+      return op;
+    }
+
+    try {
+      // The add leg always targets the recommendation's pool, whatever pool this context was built for
+      const addService = new DlmmService({ user: this.requireSigner(), poolAddress: rec.pool, network: this.network, provider: this.dlmm });
+      const addSignature = await addService.addLiquidity(
+        rec.proposedRange.lowerBin,
+        rec.proposedRange.upperBin,
+        op.amountX.toFixed(6),
+        op.amountY.toFixed(6),
+        rec.strategy
+      );
+      await update({ status: 'completed', addSignature });
+    } catch (error) {
+      await update({ status: 'partial', error: (error as Error).message });
+    }
+    return op;
+  }
+
+  /**
+   * Fetches the pool's active bin and bin step.
+   */
+  async getPoolState(poolAddress: string) {
+    try {
+      return await this.dlmm.getPoolState(poolAddress);
+    } catch (error) {
+      console.error('getPoolState error:', error);
+      throw toDlmmError(error, 'Failed to fetch pool state');
     }
   }
 
   /**
-   * Provides a mock rebalance suggestion.
+   * Runs the rebalance engine against one position using its pool's current active bin.
+   */
+  async suggestRebalance(position: PositionData, strategy: RebalanceStrategy = 'spot'): Promise<RebalanceRecommendation> {
+    const pool = await this.getPoolState(position.pool);
+    return recommendRebalance(position, pool, { strategy });
+  }
+
+  /**
+   * Builds a recommendation for every position of the context's user.
+   * Pool state is fetched once per pool.
    */
-  async suggestRebalance(position: any) {
-    console.log('suggestRebalance called with position:', position);
-    return 'Suggestion: Shift 20% liquidity to lower bins for better yield\\. The market is moving in your favor\\! No action needed at this time\\.';
+  async getRebalanceRecommendations(strategy: RebalanceStrategy = 'spot'): Promise<RebalanceRecommendation[]> {
+    const positions = await this.getPositions();
+    const poolStates = new Map<string, Promise<PoolState>>();
+    return Promise.all(
+      positions.map(async (position) => {
+        if (!poolStates.has(position.pool)) poolStates.set(position.pool, this.getPoolState(position.pool));
+        const pool = await poolStates.get(position.pool)!;
+        return recommendRebalance(position, pool, { strategy });
+      })
+    );
   }
 }
@@ -0,0 +1,99 @@
+export type DlmmErrorCode =
+  | 'INVALID_INPUT'
+  | 'INSUFFICIENT_FUNDS'
+  | 'RPC_UNAVAILABLE'
+  | 'SLIPPAGE_EXCEEDED'
+  | 'POSITION_NOT_FOUND'
+  | 'NOT_INITIALIZED';
+
+/**
+ * Base class for failures the bot can explain to the user. `code` is stable; messages are for logs and details.
+ */
+export class DlmmError extends Error {
+  constructor(readonly code: DlmmErrorCode, message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'DlmmError';
+  }
+}
+
+export class InvalidInputError extends DlmmError {
+  constructor(message: string, options?: ErrorOptions) {
+    super('INVALID_INPUT', message, options);
+    this.name = 'InvalidInputError';
+  }
+}
+
+export class InsufficientFundsError extends DlmmError {
+  constructor(message: string, options?: ErrorOptions) {
+    super('INSUFFICIENT_FUNDS', message, options);
+    this.name = 'InsufficientFundsError';
+  }
+}
+
+export class RpcUnavailableError extends DlmmError {
+  constructor(message: string, options?: ErrorOptions) {
+    super('RPC_UNAVAILABLE', message, options);
+    this.name = 'RpcUnavailableError';
+  }
+}
+
+export class SlippageExceededError extends DlmmError {
+  constructor(message: string, options?: ErrorOptions) {
+    super('SLIPPAGE_EXCEEDED', message, options);
+    this.name = 'SlippageExceededError';
+  }
+}
+
+export class PositionNotFoundError extends DlmmError {
+  constructor(message = 'Position not found', options?: ErrorOptions) {
+    super('POSITION_NOT_FOUND', message, options);
+    this.name = 'PositionNotFoundError';
+  }
+}
+
+// A wallet, signer or on-chain account that has to exist first (e.g. an uninitialized pool or bin array)
+export class NotInitializedError extends DlmmError {
+  constructor(message: string, options?: ErrorOptions) {
+    super('NOT_INITIALIZED', message, options);
+    this.name = 'NotInitializedError';
+  }
+}
+
+const ERROR_CLASSES: Record<DlmmErrorCode, new (message: string, options?: ErrorOptions) => DlmmError> = {
+  INVALID_INPUT: InvalidInputError,
+  INSUFFICIENT_FUNDS: InsufficientFundsError,
+  RPC_UNAVAILABLE: RpcUnavailableError,
+  SLIPPAGE_EXCEEDED: SlippageExceededError,
+  POSITION_NOT_FOUND: PositionNotFoundError,
+  NOT_INITIALIZED: NotInitializedError,
+};
+
+// How untyped errors from the SDK, web3.js and the RPC are recognised, checked in order
+const MESSAGE_PATTERNS: Array<[DlmmErrorCode, RegExp]> = [
+  ['RPC_UNAVAILABLE', /fetch failed|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|socket hang up|Too Many Requests|Bad Gateway|Service Unavailable|Gateway Timeout|rate limit/i],
+  ['INSUFFICIENT_FUNDS', /insufficient (funds|lamports|balance)|custom program error: 0x1\b|no record of a prior credit/i],
+  ['SLIPPAGE_EXCEEDED', /slippage/i],
+  ['POSITION_NOT_FOUND', /position not found|position .*does not exist/i],
+  ['NOT_INITIALIZED', /AccountNotInitialized|not initialized|could not find account|account does not exist/i],
+  ['INVALID_INPUT', /invalid public key|non-base58|invalid (amount|input|liquidity parameters)/i],
+];
+
+/**
+ * The code an error matches: its own for a DlmmError, otherwise guessed from the message. Null if unrecognised.
+ */
+export function classifyError(error: unknown): DlmmErrorCode | null {
+  if (error instanceof DlmmError) return error.code;
+  const message = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+  return MESSAGE_PATTERNS.find(([, pattern]) => pattern.test(message))?.[0] ?? null;
+}
+
+/**
+ * Rethrow helper for service boundaries. Typed errors pass through unchanged; recognised ones become the
+ * matching class and unrecognised ones a plain Error, both prefixed with `context` and keeping the original as cause.
+ */
+export function toDlmmError(error: unknown, context: string): Error {
+  if (error instanceof DlmmError) return error;
+  const message = `${context}: ${error instanceof Error ? error.message : String(error)}`;
+  const code = classifyError(error);
+  return code ? new ERROR_CLASSES[code](message, { cause: error }) : new Error(message, { cause: error });
+}
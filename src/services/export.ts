@@ -0,0 +1,223 @@
+import { PositionData, PositionSnapshot, RebalanceOperation, SolanaNetwork, TrackedTransaction } from '../types.js';
+import { accruedFees } from './pnl.js';
+
+export const EXPORT_FORMATS = ['csv', 'json'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Bump when a column is renamed, removed or changes meaning. New columns are only ever appended.
+export const EXPORT_SCHEMA_VERSION = 1;
+
+/**
+ * The export's columns, in CSV order. Every row has every column; cells that don't apply are empty.
+ * Amounts are in UI units of the row's tokens, timestamps are ISO 8601 in UTC.
+ */
+export const EXPORT_COLUMNS = [
+  ['record_type', 'position (held at export time), transaction (sent through the bot), or fee_accrual (uncollected fees earned per UTC day, from poll history)'],
+  ['timestamp', 'When the transaction was sent, the start of the fee day, or the export time for positions'],
+  ['network', 'devnet or mainnet-beta'],
+  ['action', 'add_liquidity, remove_liquidity or claim_fees for transactions; empty otherwise'],
+  ['status', 'Transaction status (pending, processed, confirmed, finalized, failed, expired), or for rebalance legs the rebalance status (completed, partial, failed); empty otherwise'],
+  ['pool', 'Pool address'],
+  ['position', 'Position address'],
+  ['token_x', 'Symbol of the pool token X'],
+  ['token_y', 'Symbol of the pool token Y'],
+  ['amount_x', 'Token X held (position), deposited (add_liquidity) or received (claim_fees)'],
+  ['amount_y', 'Token Y held (position), deposited (add_liquidity) or received (claim_fees)'],
+  ['fees', 'Uncollected fees (position) or fees earned that day (fee_accrual), as the pool reports them'],
+  ['lower_bin', 'Lowest bin of the range'],
+  ['upper_bin', 'Highest bin of the range'],
+  ['signature', 'Transaction signature'],
+  ['detail', 'Free-text notes, e.g. the share removed, the rebalance it belongs to, or an error'],
+] as const;
+
+export type ExportColumn = (typeof EXPORT_COLUMNS)[number][0];
+export type ExportRow = Record<ExportColumn, string>;
+
+export interface ExportInput {
+  network: SolanaNetwork;
+  from: number;
+  to: number;
+  positions: PositionData[];
+  transactions: TrackedTransaction[];
+  rebalances: RebalanceOperation[];
+  snapshots: PositionSnapshot[];
+  now?: number;
+  feeAccruals?: boolean; // False when the provider doesn't report fees, so every accrual would be 0
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const iso = (at: number) => new Date(at).toISOString();
+const cell = (value: string | number | undefined) => (value === undefined ? '' : String(value));
+
+const emptyRow = (): ExportRow =>
+  Object.fromEntries(EXPORT_COLUMNS.map(([column]) => [column, ''])) as ExportRow;
+
+/**
+ * Builds the export rows: current positions first, then transactions and fee accruals in time order.
+ * Pure function; callers load the records and pick the format.
+ */
+export function buildExportRows({
+  network,
+  from,
+  to,
+  positions,
+  transactions,
+  rebalances,
+  snapshots,
+  now = Date.now(),
+  feeAccruals = true,
+}: ExportInput): ExportRow[] {
+  const inRange = (at: number) => at >= from && at < to;
+
+  // Transactions only record what was sent; the pool and tokens come from what the bot has seen since
+  const positionPools = new Map<string, string>();
+  const poolTokens = new Map<string, { tokenX: string; tokenY: string }>();
+  for (const p of [...snapshots, ...positions]) {
+    if (p.position) positionPools.set(p.position, p.pool);
+    poolTokens.set(p.pool, { tokenX: p.tokenX, tokenY: p.tokenY });
+  }
+  const tokensFor = (pool: string | undefined, position: string | undefined) => {
+    const resolvedPool = pool || (position && positionPools.get(position)) || '';
+    const tokens = poolTokens.get(resolvedPool);
+    return { pool: resolvedPool, token_x: tokens?.tokenX ?? '', token_y: tokens?.tokenY ?? '' };
+  };
+
+  const positionRows = positions.map((p) => ({
+    ...emptyRow(),
+    record_type: 'position',
+    timestamp: iso(now),
+    network,
+    pool: p.pool,
+    position: cell(p.position),
+    token_x: p.tokenX,
+    token_y: p.tokenY,
+    amount_x: cell(p.amountX),
+    amount_y: cell(p.amountY),
+    fees: cell(p.feesEarned),
+    lower_bin: cell(p.lowerBin),
+    upper_bin: cell(p.upperBin),
+  }));
+
+  const timed: Array<{ at: number; row: ExportRow }> = [];
+
+  for (const tx of transactions.filter((t) => t.network === network && inRange(t.createdAt))) {
+    const { params } = tx;
+    const position = params.position === undefined ? undefined : String(params.position);
+    const isRemove = tx.kind === 'remove_liquidity';
+    timed.push({
+      at: tx.createdAt,
+      row: {
+        ...emptyRow(),
+        record_type: 'transaction',
+        timestamp: iso(tx.createdAt),
+        network,
+        action: tx.kind,
+        status: tx.status,
+        ...tokensFor(params.pool === undefined ? undefined : String(params.pool), position),
+        position: cell(position),
+        amount_x: isRemove ? '' : cell(params.amountX),
+        amount_y: isRemove ? '' : cell(params.amountY),
+        lower_bin: cell(params.lowerBin),
+        upper_bin: cell(params.upperBin),
+        signature: tx.signature,
+        detail: [isRemove ? `removed ${params.amount}` : '', params.source ? `from ${params.source}` : '', tx.error ?? '']
+          .filter(Boolean)
+          .join('; '),
+      },
+    });
+  }
+
+  // A rebalance is a full withdrawal followed by a deposit, so it exports as those two transactions
+  for (const op of rebalances.filter((r) => (r.network ?? 'devnet') === network && inRange(r.createdAt))) {
+    const legs = [
+      { action: 'remove_liquidity', signature: op.removeSignature, range: op.fromRange, amounts: false, detail: 'removed 100%' },
+      { action: 'add_liquidity', signature: op.addSignature, range: op.toRange, amounts: true, detail: '' },
+    ];
+    for (const leg of legs.filter((l) => l.signature)) {
+      timed.push({
+        at: op.createdAt,
+        row: {
+          ...emptyRow(),
+          record_type: 'transaction',
+          timestamp: iso(op.createdAt),
+          network,
+          action: leg.action,
+          status: op.status,
+          ...tokensFor(op.pool, op.position),
+          position: op.position,
+          amount_x: leg.amounts ? cell(op.amountX) : '',
+          amount_y: leg.amounts ? cell(op.amountY) : '',
+          lower_bin: cell(leg.range.lowerBin),
+          upper_bin: cell(leg.range.upperBin),
+          signature: leg.signature!,
+          detail: [leg.detail, `rebalance ${op.id} (${op.strategy})`, op.error ?? ''].filter(Boolean).join('; '),
+        },
+      });
+    }
+  }
+
+  // Fees earned per position per UTC day, attributed to the day of the later snapshot
+  const byPosition = new Map<string, PositionSnapshot[]>();
+  for (const s of feeAccruals ? [...snapshots].filter((s) => s.network === network).sort((a, b) => a.at - b.at) : []) {
+    const history = byPosition.get(s.position);
+    if (history) history.push(s);
+    else byPosition.set(s.position, [s]);
+  }
+  for (const history of byPosition.values()) {
+    const days = new Map<number, number>();
+    for (let i = 1; i < history.length; i++) {
+      if (!inRange(history[i].at)) continue;
+      const day = Math.floor(history[i].at / DAY_MS) * DAY_MS;
+      days.set(day, (days.get(day) ?? 0) + accruedFees(history[i - 1], history[i]));
+    }
+    const last = history[history.length - 1];
+    for (const [day, fees] of days) {
+      timed.push({
+        at: day,
+        row: {
+          ...emptyRow(),
+          record_type: 'fee_accrual',
+          timestamp: iso(day),
+          network,
+          pool: last.pool,
+          position: last.position,
+          token_x: last.tokenX,
+          token_y: last.tokenY,
+          fees: cell(fees),
+          lower_bin: cell(last.lowerBin),
+          upper_bin: cell(last.upperBin),
+        },
+      });
+    }
+  }
+
+  return [...positionRows, ...timed.sort((a, b) => a.at - b.at).map((entry) => entry.row)];
+}
+
+// RFC 4180: quote cells with commas, quotes or line breaks, doubling any quotes
+const csvCell = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export function toCsv(rows: ExportRow[]): string {
+  const header = EXPORT_COLUMNS.map(([column]) => column);
+  return [header, ...rows.map((row) => header.map((column) => row[column]))].map((cells) => cells.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * JSON document with the same rows as the CSV, plus the schema and the period it covers.
+ */
+export function toJson(rows: ExportRow[], { network, from, to, now = Date.now() }: Pick<ExportInput, 'network' | 'from' | 'to' | 'now'>): string {
+  return JSON.stringify(
+    {
+      schemaVersion: EXPORT_SCHEMA_VERSION,
+      generatedAt: iso(now),
+      network,
+      from: iso(from),
+      to: iso(to),
+      columns: EXPORT_COLUMNS.map(([name, description]) => ({ name, description })),
+      rows,
+    },
+    null,
+    2
+  );
+}
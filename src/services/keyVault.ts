@@ -0,0 +1,181 @@
+import { Keypair } from '@solana/web3.js';
+import * as crypto from 'crypto';
+import * as dotenv from 'dotenv';
+import bs58 from 'bs58';
+import { WalletData, EncryptedSecret } from '../types.js';
+
+dotenv.config();
+
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const MASTER_KEY_SALT = 'saros-dlmm-bot/key-vault/v1';
+const DEFAULT_UNLOCK_MS = 15 * 60 * 1000; // 15 minutes
+
+/**
+ * Thrown when a wallet is passphrase-protected and has not been unlocked (or the unlock expired).
+ */
+export class WalletLockedError extends Error {
+  constructor(message = 'Wallet is locked. Unlock it with /unlock <passphrase>.') {
+    super(message);
+    this.name = 'WalletLockedError';
+  }
+}
+
+/**
+ * Encrypts wallet secret keys at rest and hands out Keypairs only through decrypt/unlock.
+ * Every secret is sealed with the master key; wallets with a passphrase additionally mix the
+ * passphrase into the key derivation, so the master key alone can't decrypt them.
+ */
+export class KeyVault {
+  private masterKey: Buffer;
+  // Decrypted keypairs for passphrase-protected wallets, kept only until the unlock expires.
+  private unlocked = new Map<number, { publicKey: string; keypair: Keypair; expiresAt: number }>();
+
+  constructor(masterSecret: string, private readonly unlockMs = DEFAULT_UNLOCK_MS) {
+    if (!masterSecret) throw new Error('Key vault master key is empty');
+    this.masterKey = crypto.scryptSync(masterSecret, MASTER_KEY_SALT, KEY_LENGTH);
+  }
+
+  /**
+   * Seals a keypair into storable wallet data.
+   */
+  sealWallet(keypair: Keypair, passphrase?: string): WalletData {
+    return {
+      publicKey: keypair.publicKey.toString(),
+      encryptedKey: this.encrypt(keypair.secretKey, passphrase),
+    };
+  }
+
+  /**
+   * Returns true if the wallet's key was stored in plaintext before the vault existed.
+   */
+  needsMigration(wallet: WalletData) {
+    return !wallet.encryptedKey && !!wallet.privateKey;
+  }
+
+  /**
+   * Re-seals a legacy plaintext wallet with the master key and drops the raw key.
+   */
+  migrateWallet(wallet: WalletData): WalletData {
+    if (!wallet.privateKey) throw new Error('Wallet has no legacy private key to migrate');
+    const keypair = Keypair.fromSecretKey(bs58.decode(wallet.privateKey));
+    if (keypair.publicKey.toString() !== wallet.publicKey) {
+      throw new Error('Legacy private key does not match the stored public key');
+    }
+    return this.sealWallet(keypair);
+  }
+
+  isPassphraseProtected(wallet: WalletData) {
+    return !!wallet.encryptedKey?.passphraseProtected;
+  }
+
+  /**
+   * Returns the unlock expiry for a passphrase-protected wallet, or null if it is locked.
+   */
+  unlockedUntil(userId: number, wallet: WalletData): Date | null {
+    const entry = this.getUnlocked(userId, wallet);
+    return entry ? new Date(entry.expiresAt) : null;
+  }
+
+  /**
+   * Decrypts the wallet's keypair for signing.
+   * Throws WalletLockedError if the wallet needs a passphrase and isn't currently unlocked.
+   */
+  getKeypair(userId: number, wallet: WalletData): Keypair {
+    if (this.needsMigration(wallet)) {
+      return Keypair.fromSecretKey(bs58.decode(wallet.privateKey!));
+    }
+    if (!wallet.encryptedKey) throw new Error('Wallet has no stored key');
+
+    if (this.isPassphraseProtected(wallet)) {
+      const entry = this.getUnlocked(userId, wallet);
+      if (!entry) throw new WalletLockedError();
+      return entry.keypair;
+    }
+    return this.decryptKeypair(wallet);
+  }
+
+  /**
+   * Verifies the passphrase and keeps the decrypted keypair available for the unlock window.
+   */
+  unlock(userId: number, wallet: WalletData, passphrase: string, ttlMs = this.unlockMs): Date {
+    if (!this.isPassphraseProtected(wallet)) {
+      throw new Error('This wallet has no passphrase set');
+    }
+    const keypair = this.decryptKeypair(wallet, passphrase);
+    const expiresAt = Date.now() + ttlMs;
+    this.unlocked.set(userId, { publicKey: wallet.publicKey, keypair, expiresAt });
+    return new Date(expiresAt);
+  }
+
+  lock(userId: number) {
+    return this.unlocked.delete(userId);
+  }
+
+  /**
+   * Re-seals the wallet with a new passphrase, or with the master key only if `passphrase` is empty.
+   * The wallet must currently be decryptable (unlocked if it already has a passphrase).
+   */
+  changePassphrase(userId: number, wallet: WalletData, passphrase?: string): WalletData {
+    const keypair = this.getKeypair(userId, wallet);
+    this.lock(userId);
+    return this.sealWallet(keypair, passphrase || undefined);
+  }
+
+  private getUnlocked(userId: number, wallet: WalletData) {
+    const entry = this.unlocked.get(userId);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now() || entry.publicKey !== wallet.publicKey) {
+      this.unlocked.delete(userId);
+      return null;
+    }
+    return entry;
+  }
+
+  private deriveKey(salt: Buffer, passphrase?: string) {
+    if (!passphrase) return this.masterKey;
+    return crypto.scryptSync(Buffer.concat([this.masterKey, Buffer.from(passphrase, 'utf8')]), salt, KEY_LENGTH);
+  }
+
+  private encrypt(secret: Uint8Array, passphrase?: string): EncryptedSecret {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(CIPHER, this.deriveKey(salt, passphrase), iv);
+    const ciphertext = Buffer.concat([cipher.update(secret), cipher.final()]);
+    return {
+      version: 1,
+      passphraseProtected: !!passphrase,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64'),
+    };
+  }
+
+  private decryptKeypair(wallet: WalletData, passphrase?: string): Keypair {
+    const sealed = wallet.encryptedKey!;
+    try {
+      const decipher = crypto.createDecipheriv(
+        CIPHER,
+        this.deriveKey(Buffer.from(sealed.salt, 'base64'), passphrase),
+        Buffer.from(sealed.iv, 'base64')
+      );
+      decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'));
+      const secret = Buffer.concat([decipher.update(Buffer.from(sealed.ciphertext, 'base64')), decipher.final()]);
+      return Keypair.fromSecretKey(secret);
+    } catch {
+      throw new Error(passphrase ? 'Wrong passphrase' : 'Failed to decrypt wallet key (check WALLET_ENCRYPTION_KEY)');
+    }
+  }
+}
+
+/**
+ * Builds the vault from `WALLET_ENCRYPTION_KEY`. `WALLET_UNLOCK_MINUTES` sets how long a passphrase unlock lasts.
+ */
+export function createKeyVault(masterSecret = process.env.WALLET_ENCRYPTION_KEY) {
+  if (!masterSecret) {
+    throw new Error('WALLET_ENCRYPTION_KEY not found in .env; it is required to encrypt stored wallet keys');
+  }
+  const unlockMinutes = Number(process.env.WALLET_UNLOCK_MINUTES);
+  return new KeyVault(masterSecret, unlockMinutes > 0 ? unlockMinutes * 60 * 1000 : DEFAULT_UNLOCK_MS);
+}
@@ -0,0 +1,48 @@
+/**
+ * One metric family as scraped from /metrics. Counters only ever go up while the process lives.
+ */
+export interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge';
+  samples: Array<{ labels?: Record<string, string>; value: number }>;
+}
+
+// Label values escape backslashes, quotes and line breaks; HELP text only backslashes and line breaks
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+const escapeHelp = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+
+const formatValue = (value: number) => (Number.isNaN(value) ? 'NaN' : Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : '-Inf');
+
+/**
+ * Renders metrics in the Prometheus text exposition format (version 0.0.4).
+ */
+export function formatPrometheus(metrics: Metric[]): string {
+  const lines: string[] = [];
+  for (const { name, help, type, samples } of metrics) {
+    lines.push(`# HELP ${name} ${escapeHelp(help)}`, `# TYPE ${name} ${type}`);
+    for (const { labels, value } of samples) {
+      const pairs = Object.entries(labels ?? {}).map(([key, label]) => `${key}="${escapeLabel(label)}"`);
+      lines.push(`${name}${pairs.length ? `{${pairs.join(',')}}` : ''} ${formatValue(value)}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Counter keyed by a label set, for things counted as they happen (updates, webhook requests).
+ */
+export class LabeledCounter {
+  private counts = new Map<string, { labels: Record<string, string>; value: number }>();
+
+  inc(labels: Record<string, string>, by = 1) {
+    const key = JSON.stringify(labels);
+    const entry = this.counts.get(key) ?? { labels, value: 0 };
+    entry.value += by;
+    this.counts.set(key, entry);
+  }
+
+  samples() {
+    return [...this.counts.values()].map(({ labels, value }) => ({ labels, value }));
+  }
+}
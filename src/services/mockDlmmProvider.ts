@@ -0,0 +1,174 @@
+import { PublicKey } from '@solana/web3.js';
+import {
+  DlmmProvider,
+  AddLiquidityParams,
+  RemoveLiquidityParams,
+  ClaimFeesParams,
+  PoolInfo,
+  SimulateAddLiquidityParams,
+  SimulateRemoveLiquidityParams,
+} from './dlmmProvider.js';
+import { InvalidInputError } from './errors.js';
+import { parseRemovePercent, removedBinRange } from './binMath.js';
+
+// Stable fake accounts so pool- and position-level actions work offline
+export const MOCK_POOL_ADDRESS = '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin';
+const MOCK_POSITION_ADDRESS = new PublicKey(new Uint8Array(32).fill(7)).toString();
+const mockAddress = (seed: number) => new PublicKey(new Uint8Array(32).fill(seed)).toString();
+
+const SOL = { mint: 'So11111111111111111111111111111111111111112', symbol: 'SOL', decimals: 9 };
+const USDC = { mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', symbol: 'USDC', decimals: 6 };
+const USDT = { mint: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', symbol: 'USDT', decimals: 6 };
+const SAROS = { mint: 'SarosY6Vscao718M4A778z4CGtvcwcGef5M9MEH1LGL', symbol: 'SAROS', decimals: 6 };
+
+// Fixture pools served offline by the pool registry. The first one holds the mock position.
+export const MOCK_POOLS: PoolInfo[] = [
+  { address: MOCK_POOL_ADDRESS, tokenX: SOL, tokenY: USDC, activeBin: 215, binStep: 20, price: 152.34, tvl: 1250000, feeTier: 0.2 },
+  { address: '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU', tokenX: SOL, tokenY: USDT, activeBin: 180, binStep: 10, price: 152.1, tvl: 640000, feeTier: 0.1 },
+  { address: mockAddress(11), tokenX: USDC, tokenY: USDT, activeBin: 0, binStep: 1, price: 1.0002, tvl: 2100000, feeTier: 0.01 },
+  { address: mockAddress(12), tokenX: SAROS, tokenY: USDC, activeBin: 40, binStep: 50, price: 0.0042, tvl: 85000, feeTier: 0.5 },
+  { address: mockAddress(13), tokenX: SAROS, tokenY: SOL, activeBin: 12, binStep: 100, price: 0.0000276, tvl: 31000, feeTier: 1 },
+  { address: mockAddress(14), tokenX: SOL, tokenY: SAROS, activeBin: 300, binStep: 25, price: 36270, tvl: 12000, feeTier: 0.25 },
+];
+
+// Balances every wallet appears to hold in mock mode, so preflight checks pass or fail predictably offline
+const MOCK_WALLET_BALANCES: Record<string, number> = { [SOL.mint]: 25, [USDC.mint]: 5000, [USDT.mint]: 5000, [SAROS.mint]: 250000 };
+
+// Rough per-transaction costs reported by mock simulations
+const MOCK_BINS_PER_POSITION = 16;
+const MOCK_ADD_COMPUTE_UNITS = 180000;
+const MOCK_CREATE_POSITION_COMPUTE_UNITS = 60000;
+const MOCK_FEE_LAMPORTS_PER_TX = 5000 + 1000;
+const MOCK_POSITION_RENT_LAMPORTS = 59000000;
+
+/**
+ * MockDLMM object simulates the core interactions with the DLMM program.
+ * Used offline and in tests; select the real SDK adapter with DLMM_PROVIDER=saros.
+ */
+export const MockDLMM: DlmmProvider = {
+  name: 'mock',
+  claimsFees: true,
+
+  // Mock function to simulate fetching existing positions
+  async getUserPositions(user: PublicKey, pool: PublicKey | null) {
+    return [
+      {
+        pool: pool ? pool.toString() : MOCK_POOL_ADDRESS,
+        position: MOCK_POSITION_ADDRESS,
+        lowerBinId: 100,
+        upperBinId: 200,
+        liquidity: '1000', // 3.25 SOL at ~152 USDC plus 505.1 USDC
+        feesOwed: '10',
+        amountX: '3.25',
+        amountY: '505.1',
+        tokenXMint: SOL.mint,
+        tokenYMint: USDC.mint,
+      },
+    ];
+  },
+
+  // Mock pool state: fixture pools use their own bins; any other pool sits just above the mock position's range
+  async getPoolState(pool: string) {
+    const fixture = MOCK_POOLS.find((p) => p.address === pool);
+    return { address: pool, activeBin: fixture?.activeBin ?? 215, binStep: fixture?.binStep ?? 20, price: fixture?.price ?? 152.34 };
+  },
+
+  async listPoolAddresses() {
+    return MOCK_POOLS.map((p) => p.address);
+  },
+
+  async getPoolInfo(pool: string) {
+    const fixture = MOCK_POOLS.find((p) => p.address === pool);
+    if (!fixture) throw new InvalidInputError('Pool not found');
+    return fixture;
+  },
+
+  // Mock liquidity shaped like a bell around the active bin: token Y below it, token X above it
+  async getBinDistribution(pool: string, radius: number) {
+    const { activeBin, price, tvl } = await this.getPoolInfo(pool);
+    const bins = [];
+    for (let binId = activeBin - radius; binId <= activeBin + radius; binId++) {
+      const share = (tvl / (radius + 1) / 4) * Math.exp(-Math.pow(binId - activeBin, 2) / (2 * Math.pow(radius / 2 || 1, 2)));
+      const valueX = binId > activeBin ? share : binId === activeBin ? share / 2 : 0;
+      bins.push({ binId, reserveX: valueX / price, reserveY: share - valueX });
+    }
+    return bins;
+  },
+
+  // Mock function for adding liquidity and creating a position
+  async createPositionAndAddLiquidity({ lowerBin, upperBin, amountX, amountY, shape = 'spot' }: AddLiquidityParams) {
+    if (isNaN(lowerBin) || isNaN(upperBin) || !amountX || !amountY) {
+      throw new InvalidInputError('Invalid liquidity parameters');
+    }
+    const txSig = `mockTx_${lowerBin}_${upperBin}_${amountX}_${amountY}_${Date.now()}`;
+    console.log('MockDLMM.createPositionAndAddLiquidity called with:', { lowerBin, upperBin, amountX, amountY, shape }, 'returning:', txSig);
+    return txSig;
+  },
+
+  // Mock function for removing liquidity
+  async removeLiquidity({ positionPubkey, amount }: RemoveLiquidityParams) {
+    parseRemovePercent(amount);
+    const txSig = `mockRemoveTx_${positionPubkey.toString()}_${amount}_${Date.now()}`;
+    console.log('MockDLMM.removeLiquidity called with:', { positionPubkey, amount }, 'returning:', txSig);
+    return txSig;
+  },
+
+  // Mock simulation: one new position plus one deposit per 16 bins, paid from the mock wallet balances
+  async simulateAddLiquidity({ pool, lowerBin, upperBin, amountX, amountY }: SimulateAddLiquidityParams) {
+    const { tokenX, tokenY } = MOCK_POOLS.find((p) => p.address === pool?.toString()) ?? MOCK_POOLS[0];
+    const positions = Math.max(1, Math.ceil((upperBin - lowerBin + 1) / MOCK_BINS_PER_POSITION));
+    return {
+      deltas: [
+        { mint: tokenX.mint, symbol: tokenX.symbol, amount: -Number(amountX) },
+        { mint: tokenY.mint, symbol: tokenY.symbol, amount: -Number(amountY) },
+      ],
+      computeUnits: positions * (MOCK_ADD_COMPUTE_UNITS + MOCK_CREATE_POSITION_COMPUTE_UNITS),
+      feeLamports: positions * 2 * MOCK_FEE_LAMPORTS_PER_TX,
+      rentLamports: positions * MOCK_POSITION_RENT_LAMPORTS,
+      transactionCount: positions * 2,
+      simulatedCount: positions * 2,
+    };
+  },
+
+  // Mock simulation: the mock position holds the same amounts in every bin, so removing its top bins
+  // pays out their share of its amounts
+  async simulateRemoveLiquidity({ payer, pool, amount }: SimulateRemoveLiquidityParams) {
+    const percent = Number(amount);
+    const [position] = await this.getUserPositions(payer, pool);
+    const valid = percent > 0 && percent <= 100;
+    const { binCount, binsToRemove } = removedBinRange(position.lowerBinId, position.upperBinId, valid ? percent : 100);
+    const share = valid ? binsToRemove / binCount : 0;
+    return {
+      deltas: [
+        { mint: SOL.mint, symbol: SOL.symbol, amount: Number(position.amountX) * share },
+        { mint: USDC.mint, symbol: USDC.symbol, amount: Number(position.amountY) * share },
+      ],
+      computeUnits: MOCK_ADD_COMPUTE_UNITS,
+      feeLamports: MOCK_FEE_LAMPORTS_PER_TX,
+      rentLamports: 0,
+      transactionCount: 1,
+      simulatedCount: 1,
+      error: share ? undefined : 'Invalid amount for removal (use a percentage between 1 and 100)',
+    };
+  },
+
+  async getTokenBalance(owner: PublicKey, mint: string) {
+    return MOCK_WALLET_BALANCES[mint] ?? 0;
+  },
+
+  async getTokenHoldings() {
+    return [SOL, USDC, USDT, SAROS].map((token) => ({ ...token, amount: MOCK_WALLET_BALANCES[token.mint] }));
+  },
+
+  // Mock transactions never touch the chain, so they settle immediately
+  async getTransactionStatus() {
+    return { status: 'finalized' as const };
+  },
+
+  // Mock function for claiming fees: pays out the mock position's fees as a fixed SOL/USDC split
+  async claimFees({ positionPubkey }: ClaimFeesParams) {
+    const result = { signature: `mockClaimTx_${positionPubkey.toString()}_${Date.now()}`, amountX: '0.0325', amountY: '5.051' };
+    console.log('MockDLMM.claimFees called with:', { positionPubkey }, 'returning:', result);
+    return result;
+  },
+};
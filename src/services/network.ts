@@ -0,0 +1,29 @@
+import { clusterApiUrl } from '@solana/web3.js';
+import { SolanaNetwork } from '../types.js';
+
+export const SOLANA_NETWORKS: SolanaNetwork[] = ['devnet', 'mainnet-beta'];
+
+export const NETWORK_LABELS: Record<SolanaNetwork, string> = {
+  devnet: 'Devnet',
+  'mainnet-beta': 'Mainnet',
+};
+
+export const isSolanaNetwork = (value: unknown): value is SolanaNetwork => SOLANA_NETWORKS.includes(value as SolanaNetwork);
+
+/**
+ * Network for users who haven't picked one, from `DLMM_MODE` (`mainnet`, otherwise devnet).
+ * Read lazily so it sees variables loaded by dotenv after import.
+ */
+export const defaultNetwork = (): SolanaNetwork => (process.env.DLMM_MODE === 'mainnet' ? 'mainnet-beta' : 'devnet');
+
+/**
+ * A per-network setting: `<NAME>_MAINNET` or `<NAME>_DEVNET` when set, otherwise the plain `<NAME>`,
+ * which only applies to the default network so single-network configs keep working.
+ */
+export function networkEnv(name: string, network: SolanaNetwork): string | undefined {
+  const suffix = network === 'mainnet-beta' ? 'MAINNET' : 'DEVNET';
+  return process.env[`${name}_${suffix}`] || (network === defaultNetwork() ? process.env[name] : undefined);
+}
+
+// Public RPC of the cluster, used when no endpoint is configured for it
+export const publicRpcUrl = (network: SolanaNetwork) => clusterApiUrl(network);
@@ -0,0 +1,179 @@
+import { PositionData, PositionSnapshot, SolanaNetwork } from '../types.js';
+
+export const PNL_WINDOWS = ['24h', '7d', 'open'] as const;
+export type PnlWindow = (typeof PNL_WINDOWS)[number];
+
+const WINDOW_MS: Record<PnlWindow, number | null> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  open: null, // Since the first snapshot of each position
+};
+
+export const isPnlWindow = (value: unknown): value is PnlWindow => PNL_WINDOWS.includes(value as PnlWindow);
+
+/**
+ * Start of the window, for loading snapshots.
+ */
+export const pnlWindowStart = (window: PnlWindow, now = Date.now()) => {
+  const length = WINDOW_MS[window];
+  return length === null ? 0 : now - length;
+};
+
+/**
+ * One position's results over a window. Values are in the position's token Y.
+ */
+export interface PositionPnl {
+  position: string;
+  pool: string;
+  tokenX: string;
+  tokenY: string;
+  from: number;
+  to: number;
+  open: boolean; // Seen in the latest poll
+  valueStart: number;
+  valueEnd: number;
+  feesEarned: number; // Taken to be in token Y, like the values
+  impermanentLoss: number; // Position value against just holding the deposited tokens; negative is a loss
+  impermanentLossPercent: number | null;
+  netPnl: number; // Value change plus fees, leaving out deposits and withdrawals
+  inRangeMs: number;
+  trackedMs: number;
+  liquidityChanged: boolean; // Deposits or withdrawals in the window; IL is then measured per deposit
+}
+
+export interface PnlTotals {
+  token: string; // Positions are only added up when their values are in the same token
+  feesEarned: number;
+  impermanentLoss: number;
+  netPnl: number;
+}
+
+export interface PnlReport {
+  window: PnlWindow;
+  positions: PositionPnl[];
+  totals: PnlTotals[];
+}
+
+/**
+ * Position value in token Y at the snapshot's price.
+ */
+export const snapshotValue = (s: PositionSnapshot) => s.amountX * s.price + s.amountY;
+
+/**
+ * Fees earned between two snapshots. Fees that went down were claimed; what is there now accrued since.
+ */
+export const accruedFees = (previous: PositionSnapshot, current: PositionSnapshot) =>
+  current.feesEarned >= previous.feesEarned ? current.feesEarned - previous.feesEarned : current.feesEarned;
+
+/**
+ * Snapshot key for a position, matching what the poller stores.
+ */
+export const snapshotPositionKey = (p: PositionData) => p.position ?? `${p.pool}:${p.lowerBin}:${p.upperBin}`;
+
+/**
+ * Builds a snapshot from a poll's reading of a position and its pool.
+ */
+export const createPositionSnapshot = (
+  network: SolanaNetwork,
+  p: PositionData,
+  pool: { activeBin: number; price: number },
+  at = Date.now()
+): PositionSnapshot => ({
+  network,
+  position: snapshotPositionKey(p),
+  pool: p.pool,
+  tokenX: p.tokenX,
+  tokenY: p.tokenY,
+  lowerBin: p.lowerBin,
+  upperBin: p.upperBin,
+  liquidity: p.liquidity,
+  amountX: p.amountX,
+  amountY: p.amountY,
+  feesEarned: p.feesEarned,
+  price: pool.price,
+  inRange: pool.activeBin >= p.lowerBin && pool.activeBin <= p.upperBin,
+  at,
+});
+
+/**
+ * Results for one position from its snapshots in the window, oldest first.
+ *
+ * Between two polls with the same liquidity the position only moved with the market, so the value change
+ * counts toward PnL; a liquidity change is a deposit or withdrawal and is left out. Impermanent loss is
+ * measured over each stretch of unchanged liquidity, against holding the tokens the stretch started with.
+ */
+function positionPnl(snapshots: PositionSnapshot[], latestPollAt: number): PositionPnl {
+  const first = snapshots[0];
+  const last = snapshots[snapshots.length - 1];
+  let feesEarned = 0;
+  let marketPnl = 0;
+  let impermanentLoss = 0;
+  let holdValue = 0;
+  let inRangeMs = 0;
+  let liquidityChanged = false;
+  let stretchStart = first;
+
+  const closeStretch = (end: PositionSnapshot) => {
+    const held = stretchStart.amountX * end.price + stretchStart.amountY;
+    impermanentLoss += snapshotValue(end) - held;
+    holdValue += held;
+  };
+
+  for (let i = 1; i < snapshots.length; i++) {
+    const [previous, current] = [snapshots[i - 1], snapshots[i]];
+    if (previous.inRange) inRangeMs += current.at - previous.at;
+    feesEarned += accruedFees(previous, current);
+    if (current.liquidity === previous.liquidity) {
+      marketPnl += snapshotValue(current) - snapshotValue(previous);
+    } else {
+      liquidityChanged = true;
+      closeStretch(previous);
+      stretchStart = current;
+    }
+  }
+  closeStretch(last);
+
+  return {
+    position: last.position,
+    pool: last.pool,
+    tokenX: last.tokenX,
+    tokenY: last.tokenY,
+    from: first.at,
+    to: last.at,
+    open: last.at === latestPollAt,
+    valueStart: snapshotValue(first),
+    valueEnd: snapshotValue(last),
+    feesEarned,
+    impermanentLoss,
+    impermanentLossPercent: holdValue ? (impermanentLoss / holdValue) * 100 : null,
+    netPnl: marketPnl + feesEarned,
+    inRangeMs,
+    trackedMs: last.at - first.at,
+    liquidityChanged,
+  };
+}
+
+/**
+ * Per-position and overall results from one network's snapshots in the window. Pure function, so the
+ * numbers can be checked without a bot or a chain.
+ */
+export function buildPnlReport(window: PnlWindow, snapshots: PositionSnapshot[]): PnlReport {
+  const byPosition = new Map<string, PositionSnapshot[]>();
+  for (const snapshot of [...snapshots].sort((a, b) => a.at - b.at)) {
+    const history = byPosition.get(snapshot.position);
+    if (history) history.push(snapshot);
+    else byPosition.set(snapshot.position, [snapshot]);
+  }
+  const latestPollAt = snapshots.reduce((latest, s) => Math.max(latest, s.at), 0);
+  const positions = [...byPosition.values()].map((history) => positionPnl(history, latestPollAt));
+
+  const totals = new Map<string, PnlTotals>();
+  for (const p of positions) {
+    const total = totals.get(p.tokenY) ?? { token: p.tokenY, feesEarned: 0, impermanentLoss: 0, netPnl: 0 };
+    total.feesEarned += p.feesEarned;
+    total.impermanentLoss += p.impermanentLoss;
+    total.netPnl += p.netPnl;
+    totals.set(p.tokenY, total);
+  }
+  return { window, positions, totals: [...totals.values()] };
+}
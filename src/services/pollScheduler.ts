@@ -0,0 +1,200 @@
+/**
+ * A unit of recurring work, e.g. one user's wallet on one network. `key` must be stable across ticks.
+ */
+export interface PollJob {
+  key: string;
+  intervalMs: number;
+}
+
+export interface PollSchedulerOptions<T extends PollJob, C> {
+  // Called every tick, so new wallets and changed intervals are picked up without a restart
+  listJobs: () => Promise<T[]>;
+  // Batched reads shared by the jobs of one batch (e.g. every balance in one RPC call)
+  prepare: (jobs: T[]) => Promise<C>;
+  run: (job: T, context: C) => Promise<void>;
+  tickMs?: number;
+  concurrency?: number;
+  batchSize?: number;
+  jitterRatio?: number; // Each next run lands within ±ratio of the interval, so users don't stay in lockstep
+  jobTimeoutMs?: number; // A job running longer frees its slot (and counts as failed) but is never run twice at once
+}
+
+export interface PollRunMetrics {
+  startedAt: number;
+  durationMs: number;
+  due: number;
+  succeeded: number;
+  failed: number;
+  timedOut: number;
+}
+
+export interface PollMetrics {
+  jobs: number; // Jobs known at the last tick
+  inFlight: number;
+  runs: number;
+  skippedTicks: number; // Ticks that found the previous one still running
+  jobsSucceeded: number;
+  jobsFailed: number;
+  averageJobMs: number | null;
+  lastRun: PollRunMetrics | null;
+}
+
+const DEFAULT_TICK_MS = 15 * 1000;
+const DEFAULT_CONCURRENCY = 5;
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_JITTER_RATIO = 0.1;
+const DEFAULT_JOB_TIMEOUT_MS = 2 * 60 * 1000;
+
+class JobTimeoutError extends Error {}
+
+/**
+ * Runs each job roughly every `intervalMs`. Jobs start staggered across their first interval, run with at
+ * most `concurrency` at a time, and a job still in flight is never started again. Ticks never overlap: one
+ * that finds the previous tick still running is skipped.
+ */
+export class PollScheduler<T extends PollJob, C> {
+  private timer: NodeJS.Timeout | null = null;
+  private nextDue = new Map<string, number>();
+  private inFlight = new Map<string, Promise<void>>();
+  private ticking: Promise<void> | null = null;
+  private stopping = false;
+  private jobCount = 0;
+  private totals = { runs: 0, skippedTicks: 0, jobsSucceeded: 0, jobsFailed: 0, jobMs: 0, timedJobs: 0 };
+  private lastRun: PollRunMetrics | null = null;
+
+  constructor(private readonly options: PollSchedulerOptions<T, C>) {}
+
+  start() {
+    if (this.timer) return;
+    this.stopping = false;
+    this.timer = setInterval(() => void this.tick(), this.options.tickMs ?? DEFAULT_TICK_MS);
+  }
+
+  /**
+   * Stops scheduling and waits for the current tick and every job still in flight.
+   */
+  async stop() {
+    this.stopping = true;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.ticking;
+    await Promise.allSettled(this.inFlight.values());
+  }
+
+  metrics(): PollMetrics {
+    const { runs, skippedTicks, jobsSucceeded, jobsFailed, jobMs, timedJobs } = this.totals;
+    return {
+      jobs: this.jobCount,
+      inFlight: this.inFlight.size,
+      runs,
+      skippedTicks,
+      jobsSucceeded,
+      jobsFailed,
+      averageJobMs: timedJobs ? jobMs / timedJobs : null,
+      lastRun: this.lastRun,
+    };
+  }
+
+  async tick(now = Date.now()) {
+    if (this.stopping) return;
+    if (this.ticking) {
+      this.totals.skippedTicks++;
+      return;
+    }
+    this.ticking = this.runDue(now)
+      .catch((error) => console.error('Poll scheduler tick failed:', error))
+      .finally(() => {
+        this.ticking = null;
+      });
+    await this.ticking;
+  }
+
+  private async runDue(now: number) {
+    const jobs = await this.options.listJobs();
+    this.jobCount = jobs.length;
+    const known = new Set(jobs.map((job) => job.key));
+    for (const key of this.nextDue.keys()) if (!known.has(key)) this.nextDue.delete(key);
+
+    const due = jobs.filter((job) => {
+      let dueAt = this.nextDue.get(job.key);
+      if (dueAt === undefined) {
+        // First sighting: spread new jobs over their interval instead of running them all at once
+        dueAt = now + Math.random() * job.intervalMs;
+        this.nextDue.set(job.key, dueAt);
+      }
+      return dueAt <= now && !this.inFlight.has(job.key);
+    });
+    if (!due.length) return;
+
+    const run: PollRunMetrics = { startedAt: now, durationMs: 0, due: due.length, succeeded: 0, failed: 0, timedOut: 0 };
+    const batchSize = this.options.batchSize ?? DEFAULT_BATCH_SIZE;
+    for (let i = 0; i < due.length && !this.stopping; i += batchSize) {
+      const batch = due.slice(i, i + batchSize);
+      let context: C;
+      try {
+        context = await this.options.prepare(batch);
+      } catch (error) {
+        console.error('Poll scheduler batch failed to prepare:', error);
+        batch.forEach((job) => this.reschedule(job));
+        run.failed += batch.length;
+        continue;
+      }
+      await this.runPool(batch, context, run);
+    }
+
+    run.durationMs = Date.now() - now;
+    this.lastRun = run;
+    this.totals.runs++;
+    this.totals.jobsSucceeded += run.succeeded;
+    this.totals.jobsFailed += run.failed + run.timedOut;
+    console.log(
+      `Poll run: ${run.due} due, ${run.succeeded} ok, ${run.failed} failed, ${run.timedOut} timed out in ${run.durationMs} ms`
+    );
+  }
+
+  private async runPool(batch: T[], context: C, run: PollRunMetrics) {
+    const queue = [...batch];
+    const worker = async () => {
+      for (let job = queue.shift(); job && !this.stopping; job = queue.shift()) {
+        const outcome = await this.runJob(job, context);
+        run[outcome]++;
+      }
+    };
+    const concurrency = Math.max(1, this.options.concurrency ?? DEFAULT_CONCURRENCY);
+    await Promise.all(Array.from({ length: Math.min(concurrency, batch.length) }, worker));
+  }
+
+  private async runJob(job: T, context: C): Promise<'succeeded' | 'failed' | 'timedOut'> {
+    const startedAt = Date.now();
+    const promise = this.options.run(job, context).finally(() => {
+      this.inFlight.delete(job.key);
+      this.totals.jobMs += Date.now() - startedAt;
+      this.totals.timedJobs++;
+      this.reschedule(job);
+    });
+    this.inFlight.set(job.key, promise.catch(() => undefined));
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new JobTimeoutError()), this.options.jobTimeoutMs ?? DEFAULT_JOB_TIMEOUT_MS);
+    });
+    try {
+      await Promise.race([promise, timeout]);
+      return 'succeeded';
+    } catch (error) {
+      if (error instanceof JobTimeoutError) {
+        console.error(`Poll job ${job.key} is taking too long; moving on without it`);
+        return 'timedOut';
+      }
+      console.error(`Poll job ${job.key} failed:`, error);
+      return 'failed';
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private reschedule(job: T) {
+    const jitter = (Math.random() * 2 - 1) * (this.options.jitterRatio ?? DEFAULT_JITTER_RATIO);
+    this.nextDue.set(job.key, Date.now() + job.intervalMs * (1 + jitter));
+  }
+}
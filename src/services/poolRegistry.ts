@@ -0,0 +1,96 @@
+import { DlmmProvider, PoolInfo, BinLiquidity } from './dlmmProvider.js';
+import { getSharedProvider } from './dlmmService.js';
+import { binPrice } from './binMath.js';
+import { defaultNetwork } from './network.js';
+import { SolanaNetwork } from '../types.js';
+
+export interface PoolPage {
+  pools: PoolInfo[];
+  page: number; // Zero-based, clamped to the available pages
+  totalPages: number;
+  totalPools: number;
+}
+
+export interface BinRow extends BinLiquidity {
+  price: number;
+  value: number; // Bin reserves valued in token Y
+}
+
+// Pool lists change rarely; prices move, so pool details expire sooner
+const ADDRESS_TTL_MS = 10 * 60 * 1000;
+const INFO_TTL_MS = 60 * 1000;
+
+/**
+ * Lists DLMM pools with their market data. Pool details are only fetched for the page being shown,
+ * so browsing a program with thousands of pools stays cheap.
+ */
+export class PoolRegistry {
+  private addresses: { value: string[]; expiresAt: number } | null = null;
+  private infoCache = new Map<string, { value: PoolInfo; expiresAt: number }>();
+
+  constructor(private readonly provider: DlmmProvider) {}
+
+  async listAddresses() {
+    if (!this.addresses || this.addresses.expiresAt < Date.now()) {
+      this.addresses = { value: await this.provider.listPoolAddresses(), expiresAt: Date.now() + ADDRESS_TTL_MS };
+    }
+    return this.addresses.value;
+  }
+
+  async getPool(address: string) {
+    const cached = this.infoCache.get(address);
+    if (cached && cached.expiresAt >= Date.now()) return cached.value;
+    const value = await this.provider.getPoolInfo(address);
+    this.infoCache.set(address, { value, expiresAt: Date.now() + INFO_TTL_MS });
+    return value;
+  }
+
+  /**
+   * Returns one page of pools. Pools that fail to load are left out of the page rather than failing it.
+   */
+  async listPools(page = 0, pageSize = 5): Promise<PoolPage> {
+    const addresses = await this.listAddresses();
+    const totalPages = Math.max(1, Math.ceil(addresses.length / pageSize));
+    const current = Math.min(Math.max(0, page), totalPages - 1);
+    const results = await Promise.all(
+      addresses.slice(current * pageSize, (current + 1) * pageSize).map((address) =>
+        this.getPool(address).catch((error) => {
+          console.error(`PoolRegistry: failed to load pool ${address}:`, (error as Error).message);
+          return null;
+        })
+      )
+    );
+    return {
+      pools: results.filter((pool): pool is PoolInfo => pool !== null),
+      page: current,
+      totalPages,
+      totalPools: addresses.length,
+    };
+  }
+
+  /**
+   * Liquidity in the bins around the active bin, with each bin's price and value.
+   */
+  async getBinDistribution(address: string, radius = 10): Promise<BinRow[]> {
+    const pool = await this.getPool(address);
+    const bins = await this.provider.getBinDistribution(address, radius);
+    return bins.map((bin) => {
+      const price = binPrice(pool.price, pool.binStep, bin.binId, pool.activeBin);
+      return { ...bin, price, value: bin.reserveX * price + bin.reserveY };
+    });
+  }
+}
+
+const sharedRegistries = new Map<SolanaNetwork, PoolRegistry>();
+
+/**
+ * Registry backed by the same DLMM provider as DlmmService, one per network, shared so its caches are too.
+ */
+export function getPoolRegistry(network = defaultNetwork()) {
+  let registry = sharedRegistries.get(network);
+  if (!registry) {
+    registry = new PoolRegistry(getSharedProvider(network));
+    sharedRegistries.set(network, registry);
+  }
+  return registry;
+}
@@ -0,0 +1,74 @@
+import { TokenHolding } from './balances.js';
+import { PositionData } from '../types.js';
+
+export interface ValuedHolding extends TokenHolding {
+  valueUsd: number | null; // Null when the price source has no price for the token
+}
+
+/**
+ * A position's two sides valued separately, so the overview can show how it splits between its tokens.
+ */
+export interface ValuedPosition {
+  position: PositionData;
+  valueXUsd: number | null;
+  valueYUsd: number | null;
+  valueUsd: number; // Priced sides only
+}
+
+export interface PortfolioValuation {
+  holdings: ValuedHolding[];
+  positions: ValuedPosition[];
+  totalUsd: number; // Wallet tokens plus positions, counting only priced tokens
+  unpriced: string[]; // Symbols left out of the total
+}
+
+export interface PortfolioChange {
+  deltaUsd: number;
+  deltaPercent: number | null; // Null when the previous total was zero
+  since: number;
+}
+
+/**
+ * Every mint a valuation needs a price for.
+ */
+export const portfolioMints = (holdings: TokenHolding[], positions: PositionData[]) => [
+  ...new Set([
+    ...holdings.map((h) => h.mint),
+    ...positions.flatMap((p) => [p.tokenXMint, p.tokenYMint]).filter((mint): mint is string => Boolean(mint)),
+  ]),
+];
+
+/**
+ * Values wallet tokens and positions with USD prices keyed by mint. Tokens without a price count as zero
+ * and are listed in `unpriced`.
+ */
+export function valuePortfolio(holdings: TokenHolding[], positions: PositionData[], prices: Map<string, number>): PortfolioValuation {
+  const unpriced = new Set<string>();
+  const value = (mint: string | undefined, symbol: string, amount: number) => {
+    const price = mint === undefined ? undefined : prices.get(mint);
+    if (price === undefined) {
+      if (amount > 0) unpriced.add(symbol);
+      return null;
+    }
+    return amount * price;
+  };
+
+  const valuedHoldings = holdings.map((h) => ({ ...h, valueUsd: value(h.mint, h.symbol, h.amount) }));
+  const valuedPositions = positions.map((position) => {
+    const valueXUsd = value(position.tokenXMint, position.tokenX, position.amountX);
+    const valueYUsd = value(position.tokenYMint, position.tokenY, position.amountY);
+    return { position, valueXUsd, valueYUsd, valueUsd: (valueXUsd ?? 0) + (valueYUsd ?? 0) };
+  });
+  const totalUsd =
+    valuedHoldings.reduce((sum, h) => sum + (h.valueUsd ?? 0), 0) + valuedPositions.reduce((sum, p) => sum + p.valueUsd, 0);
+  return { holdings: valuedHoldings, positions: valuedPositions, totalUsd, unpriced: [...unpriced] };
+}
+
+/**
+ * Change against the total recorded at the previous view, or null for a first view.
+ */
+export function portfolioChange(totalUsd: number, previous?: { totalUsd: number; at: number }): PortfolioChange | null {
+  if (!previous) return null;
+  const deltaUsd = totalUsd - previous.totalUsd;
+  return { deltaUsd, deltaPercent: previous.totalUsd ? (deltaUsd / previous.totalUsd) * 100 : null, since: previous.at };
+}
@@ -0,0 +1,62 @@
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { SimulationResult } from './dlmmProvider.js';
+import { NATIVE_MINT } from './balances.js';
+
+export type PreflightFailureReason = 'insufficient_sol' | 'insufficient_token' | 'simulation_failed';
+
+/**
+ * A simulation checked against the wallet's balances. Nothing should be sent unless `ok` is true.
+ */
+export interface PreflightResult extends SimulationResult {
+  ok: boolean;
+  solRequired: number; // SOL deposits plus fees and rent
+  failure?: { reason: PreflightFailureReason; message: string };
+}
+
+// Mints the wallet must hold to cover a simulation: every token it deposits, plus SOL for fees and rent
+export const requiredMints = (simulation: SimulationResult) => [
+  NATIVE_MINT,
+  ...simulation.deltas.filter((d) => d.amount < 0 && d.mint !== NATIVE_MINT).map((d) => d.mint),
+];
+
+/**
+ * Checks a simulation against the wallet's UI balances (keyed by mint).
+ * Balance shortfalls are reported before simulation errors, since they are usually the cause and easier to act on.
+ */
+export function evaluatePreflight(simulation: SimulationResult, balances: Map<string, number>): PreflightResult {
+  const spent = (mint: string) => simulation.deltas.filter((d) => d.mint === mint && d.amount < 0).reduce((sum, d) => sum - d.amount, 0);
+  const solRequired = spent(NATIVE_MINT) + (simulation.feeLamports + simulation.rentLamports) / LAMPORTS_PER_SOL;
+  const result = { ...simulation, solRequired };
+
+  const solBalance = balances.get(NATIVE_MINT) ?? 0;
+  if (solBalance < solRequired) {
+    return {
+      ...result,
+      ok: false,
+      failure: {
+        reason: 'insufficient_sol',
+        message: `Needs about ${solRequired.toFixed(6)} SOL for deposits, rent and fees, but the wallet holds ${solBalance.toFixed(6)} SOL`,
+      },
+    };
+  }
+
+  for (const delta of simulation.deltas) {
+    if (delta.mint === NATIVE_MINT || delta.amount >= 0) continue;
+    const balance = balances.get(delta.mint) ?? 0;
+    if (balance < -delta.amount) {
+      return {
+        ...result,
+        ok: false,
+        failure: {
+          reason: 'insufficient_token',
+          message: `Needs ${-delta.amount} ${delta.symbol}, but the wallet holds ${balance} ${delta.symbol}`,
+        },
+      };
+    }
+  }
+
+  if (simulation.error) {
+    return { ...result, ok: false, failure: { reason: 'simulation_failed', message: `Simulation failed: ${simulation.error}` } };
+  }
+  return { ...result, ok: true };
+}
@@ -0,0 +1,84 @@
+import { NATIVE_MINT } from './balances.js';
+
+/**
+ * Where USD prices come from. Mints the source has no price for are left out of the result.
+ */
+export interface PriceSource {
+  readonly name: string;
+  getPrices(mints: string[]): Promise<Map<string, number>>;
+}
+
+// USD prices per whole token used offline, matching the mock pools
+export const FIXTURE_PRICES: Record<string, number> = {
+  [NATIVE_MINT]: 152.34,
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: 1, // USDC
+  Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: 1, // USDT
+  SarosY6Vscao718M4A778z4CGtvcwcGef5M9MEH1LGL: 0.0042, // SAROS
+  '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU': 1, // Devnet USDC
+};
+
+/**
+ * Fixed prices, for mock mode and offline runs.
+ */
+export class FixturePriceSource implements PriceSource {
+  readonly name = 'fixture';
+
+  constructor(private readonly prices: Record<string, number> = FIXTURE_PRICES) {}
+
+  async getPrices(mints: string[]) {
+    return new Map(mints.filter((mint) => mint in this.prices).map((mint) => [mint, this.prices[mint]]));
+  }
+}
+
+// The price API accepts a limited number of ids per request
+const JUPITER_BATCH_SIZE = 50;
+
+/**
+ * Prices from the Jupiter price API, cached briefly so repeated overviews don't refetch.
+ */
+export class JupiterPriceSource implements PriceSource {
+  readonly name = 'jupiter';
+  private cache = new Map<string, { price: number; expiresAt: number }>();
+
+  constructor(private readonly baseUrl = 'https://lite-api.jup.ag/price/v3', private readonly ttlMs = 60 * 1000) {}
+
+  async getPrices(mints: string[]) {
+    const now = Date.now();
+    const unique = [...new Set(mints)];
+    const stale = unique.filter((mint) => (this.cache.get(mint)?.expiresAt ?? 0) <= now);
+    for (let i = 0; i < stale.length; i += JUPITER_BATCH_SIZE) {
+      const ids = stale.slice(i, i + JUPITER_BATCH_SIZE).join(',');
+      const response = await fetch(`${this.baseUrl}?ids=${ids}`);
+      if (!response.ok) throw new Error(`Price request failed: ${response.status} ${response.statusText}`);
+      const body = (await response.json()) as Record<string, { usdPrice?: number } | null>;
+      for (const [mint, entry] of Object.entries(body)) {
+        if (typeof entry?.usdPrice === 'number') this.cache.set(mint, { price: entry.usdPrice, expiresAt: now + this.ttlMs });
+      }
+    }
+
+    const prices = new Map<string, number>();
+    for (const mint of unique) {
+      const cached = this.cache.get(mint);
+      if (cached) prices.set(mint, cached.price);
+    }
+    return prices;
+  }
+}
+
+/**
+ * Picks the price source from `PRICE_SOURCE`: `fixture` or `jupiter`.
+ * Defaults to the fixture with the mock DLMM provider and to Jupiter otherwise.
+ */
+export function createPriceSource(kind = process.env.PRICE_SOURCE || (process.env.DLMM_PROVIDER === 'saros' ? 'jupiter' : 'fixture')): PriceSource {
+  switch (kind) {
+    case 'fixture':
+      return new FixturePriceSource();
+    case 'jupiter':
+      return new JupiterPriceSource();
+    default:
+      throw new Error(`Unknown PRICE_SOURCE "${kind}" (expected "fixture" or "jupiter")`);
+  }
+}
+
+let sharedPriceSource: PriceSource | null = null;
+export const getPriceSource = () => (sharedPriceSource ??= createPriceSource());
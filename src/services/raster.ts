@@ -0,0 +1,151 @@
+import { deflateSync } from 'zlib';
+
+export type Rgb = readonly [number, number, number];
+
+// 3x5 pixel glyphs for axis labels, one string per row ('#' is set)
+const GLYPHS: Record<string, string[]> = {
+  '0': ['###', '#.#', '#.#', '#.#', '###'],
+  '1': ['.#.', '##.', '.#.', '.#.', '###'],
+  '2': ['###', '..#', '###', '#..', '###'],
+  '3': ['###', '..#', '.##', '..#', '###'],
+  '4': ['#.#', '#.#', '###', '..#', '..#'],
+  '5': ['###', '#..', '###', '..#', '###'],
+  '6': ['###', '#..', '###', '#.#', '###'],
+  '7': ['###', '..#', '.#.', '.#.', '.#.'],
+  '8': ['###', '#.#', '###', '#.#', '###'],
+  '9': ['###', '#.#', '###', '..#', '###'],
+  '.': ['...', '...', '...', '...', '.#.'],
+  '-': ['...', '...', '###', '...', '...'],
+  '+': ['...', '.#.', '###', '.#.', '...'],
+  '%': ['#.#', '..#', '.#.', '#..', '#.#'],
+  ':': ['...', '.#.', '...', '.#.', '...'],
+  '/': ['..#', '..#', '.#.', '#..', '#..'],
+  K: ['#.#', '##.', '#..', '##.', '#.#'],
+  M: ['#.#', '###', '###', '#.#', '#.#'],
+  ' ': ['...', '...', '...', '...', '...'],
+};
+
+export const GLYPH_WIDTH = 3;
+export const GLYPH_HEIGHT = 5;
+
+/**
+ * A plain RGB pixel buffer with the few drawing operations the charts need, encoded to PNG in-process.
+ */
+export class Raster {
+  private readonly pixels: Uint8Array;
+
+  constructor(readonly width: number, readonly height: number, background: Rgb = [255, 255, 255]) {
+    this.pixels = new Uint8Array(width * height * 3);
+    this.fillRect(0, 0, width, height, background);
+  }
+
+  setPixel(x: number, y: number, color: Rgb) {
+    x = Math.round(x);
+    y = Math.round(y);
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) return;
+    this.pixels.set(color, (y * this.width + x) * 3);
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: Rgb) {
+    const x0 = Math.max(0, Math.round(x));
+    const y0 = Math.max(0, Math.round(y));
+    const x1 = Math.min(this.width, Math.round(x + width));
+    const y1 = Math.min(this.height, Math.round(y + height));
+    for (let py = y0; py < y1; py++) {
+      for (let px = x0; px < x1; px++) this.pixels.set(color, (py * this.width + px) * 3);
+    }
+  }
+
+  /**
+   * Straight line of the given thickness (Bresenham, with a square brush).
+   */
+  line(x0: number, y0: number, x1: number, y1: number, color: Rgb, thickness = 1) {
+    [x0, y0, x1, y1] = [x0, y0, x1, y1].map(Math.round);
+    const dx = Math.abs(x1 - x0);
+    const dy = -Math.abs(y1 - y0);
+    const sx = x0 < x1 ? 1 : -1;
+    const sy = y0 < y1 ? 1 : -1;
+    const offset = Math.floor(thickness / 2);
+    let error = dx + dy;
+    for (;;) {
+      this.fillRect(x0 - offset, y0 - offset, thickness, thickness, color);
+      if (x0 === x1 && y0 === y1) break;
+      const e2 = 2 * error;
+      if (e2 >= dy) {
+        error += dy;
+        x0 += sx;
+      }
+      if (e2 <= dx) {
+        error += dx;
+        y0 += sy;
+      }
+    }
+  }
+
+  /**
+   * Draws text with the built-in glyphs (digits and a few symbols); other characters are skipped.
+   */
+  text(x: number, y: number, value: string, color: Rgb, scale = 2) {
+    let cursor = x;
+    for (const char of value.toUpperCase()) {
+      const glyph = GLYPHS[char];
+      if (!glyph) continue;
+      glyph.forEach((row, gy) => {
+        [...row].forEach((cell, gx) => {
+          if (cell === '#') this.fillRect(cursor + gx * scale, y + gy * scale, scale, scale, color);
+        });
+      });
+      cursor += (GLYPH_WIDTH + 1) * scale;
+    }
+  }
+
+  /**
+   * Width in pixels of `value` drawn with `text` at this scale.
+   */
+  static textWidth(value: string, scale = 2) {
+    return Math.max(0, value.length * (GLYPH_WIDTH + 1) * scale - scale);
+  }
+
+  toPng(): Buffer {
+    // Each scanline starts with its filter type; 0 (none) keeps the encoder trivial and deflate does the rest
+    const stride = this.width * 3;
+    const raw = Buffer.alloc((stride + 1) * this.height);
+    for (let y = 0; y < this.height; y++) {
+      raw[y * (stride + 1)] = 0;
+      raw.set(this.pixels.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(this.width, 0);
+    header.writeUInt32BE(this.height, 4);
+    header[8] = 8; // Bit depth
+    header[9] = 2; // Colour type: truecolour RGB
+    return Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      pngChunk('IHDR', header),
+      pngChunk('IDAT', deflateSync(raw)),
+      pngChunk('IEND', Buffer.alloc(0)),
+    ]);
+  }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Buffer) => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+function pngChunk(type: string, data: Buffer) {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
@@ -0,0 +1,162 @@
+import { PositionData } from '../types.js';
+
+export type RebalanceStrategy = 'spot' | 'curve' | 'bid-ask';
+
+export const REBALANCE_STRATEGIES: RebalanceStrategy[] = ['spot', 'curve', 'bid-ask'];
+
+export interface BinRange {
+  lowerBin: number;
+  upperBin: number;
+}
+
+export interface BinAllocation {
+  binId: number;
+  amountX: number;
+  amountY: number;
+}
+
+/**
+ * What the engine needs to know about the position's pool.
+ */
+export interface RebalancePool {
+  activeBin: number;
+  binStep: number; // In basis points
+  price: number; // Price of token X in token Y at the active bin
+}
+
+export interface RebalanceRecommendation {
+  pool: string;
+  position?: string;
+  tokenX: string; // Token symbols of the pool
+  tokenY: string;
+  strategy: RebalanceStrategy;
+  action: 'hold' | 'rebalance';
+  reason: string;
+  inRange: boolean;
+  activeBin: number;
+  binStep: number;
+  currentRange: BinRange;
+  // Signed distance from the centre of the range to the active bin (positive = price moved up)
+  driftBins: number;
+  // Price move implied by driftBins at this bin step, in percent
+  driftPercent: number;
+  proposedRange: BinRange;
+  // Token amounts to redeploy: what the position holds now. Token X goes to the bins above the active bin, token Y below
+  amountX: number;
+  amountY: number;
+  valueY: number; // Both amounts valued in token Y at the pool price
+  distribution: BinAllocation[];
+}
+
+export interface RebalanceOptions {
+  strategy?: RebalanceStrategy;
+  // Fraction of the range width treated as "too close to the edge" (0.1 = outer 10% on each side)
+  edgeThreshold?: number;
+}
+
+const DEFAULT_EDGE_THRESHOLD = 0.1;
+
+/**
+ * Relative weight of a bin at `distance` bins from the active bin for a given strategy shape.
+ * Spot is flat, curve concentrates around the active bin, bid-ask concentrates at the edges.
+ */
+const strategyWeight = (strategy: RebalanceStrategy, distance: number, halfWidth: number) => {
+  const d = Math.abs(distance);
+  switch (strategy) {
+    case 'spot':
+      return 1;
+    case 'curve':
+      return Math.exp(-(d * d) / (2 * Math.pow(Math.max(halfWidth, 1) / 2, 2)));
+    case 'bid-ask':
+      return 1 + d;
+  }
+};
+
+/**
+ * Price change (in percent) for moving `bins` bins at the given bin step (basis points).
+ */
+export const binDriftToPercent = (bins: number, binStep: number) => (Math.pow(1 + binStep / 10000, bins) - 1) * 100;
+
+/**
+ * Spreads the token amounts over `range` using the strategy shape, like a DLMM deposit: token X over the
+ * bins above the active bin, token Y over the bins below, and the active bin takes a half share of each.
+ */
+export function buildDistribution(
+  range: BinRange,
+  activeBin: number,
+  amountX: number,
+  amountY: number,
+  strategy: RebalanceStrategy
+): BinAllocation[] {
+  const halfWidth = (range.upperBin - range.lowerBin) / 2;
+  const weights: Array<{ binId: number; weight: number }> = [];
+  for (let binId = range.lowerBin; binId <= range.upperBin; binId++) {
+    weights.push({ binId, weight: strategyWeight(strategy, binId - activeBin, halfWidth) });
+  }
+  const sideWeight = (binId: number, weight: number, side: 1 | -1) =>
+    binId === activeBin ? weight / 2 : Math.sign(binId - activeBin) === side ? weight : 0;
+  const totalX = weights.reduce((sum, w) => sum + sideWeight(w.binId, w.weight, 1), 0) || 1;
+  const totalY = weights.reduce((sum, w) => sum + sideWeight(w.binId, w.weight, -1), 0) || 1;
+
+  return weights.map(({ binId, weight }) => ({
+    binId,
+    amountX: (amountX * sideWeight(binId, weight, 1)) / totalX,
+    amountY: (amountY * sideWeight(binId, weight, -1)) / totalY,
+  }));
+}
+
+/**
+ * Evaluates one position against the pool's active bin and proposes a re-centred range of the same width.
+ * Pure function: no RPC, no Telegram formatting.
+ */
+export function recommendRebalance(position: PositionData, pool: RebalancePool, options: RebalanceOptions = {}): RebalanceRecommendation {
+  const { activeBin, binStep, price } = pool;
+  const strategy = options.strategy || 'spot';
+  const edgeThreshold = options.edgeThreshold ?? DEFAULT_EDGE_THRESHOLD;
+  const { lowerBin, upperBin } = position;
+  const width = upperBin - lowerBin;
+
+  const inRange = activeBin >= lowerBin && activeBin <= upperBin;
+  const center = (lowerBin + upperBin) / 2;
+  const driftBins = activeBin - center;
+  const edgeBins = Math.floor(width * edgeThreshold);
+  const nearEdge = inRange && (activeBin - lowerBin < edgeBins || upperBin - activeBin < edgeBins);
+
+  const proposedLower = activeBin - Math.floor(width / 2);
+  const proposedRange = { lowerBin: proposedLower, upperBin: proposedLower + width };
+
+  let action: RebalanceRecommendation['action'] = 'hold';
+  let reason = 'The active bin is comfortably inside your range, so your liquidity is earning fees.';
+  if (!inRange) {
+    action = 'rebalance';
+    const side = activeBin > upperBin ? 'above' : 'below';
+    const binsOut = activeBin > upperBin ? activeBin - upperBin : lowerBin - activeBin;
+    reason = `The active bin is ${binsOut} bins ${side} your range, so this position earns no fees.`;
+  } else if (nearEdge) {
+    action = 'rebalance';
+    reason = 'The active bin is close to the edge of your range and may leave it soon.';
+  }
+
+  const distribution = buildDistribution(proposedRange, activeBin, position.amountX, position.amountY, strategy);
+
+  return {
+    pool: position.pool,
+    position: position.position,
+    tokenX: position.tokenX,
+    tokenY: position.tokenY,
+    strategy,
+    action,
+    reason,
+    inRange,
+    activeBin,
+    binStep,
+    currentRange: { lowerBin, upperBin },
+    driftBins,
+    driftPercent: binDriftToPercent(driftBins, binStep),
+    proposedRange,
+    amountX: position.amountX,
+    amountY: position.amountY,
+    valueY: position.amountX * price + position.amountY,
+    distribution,
+  };
+}
@@ -0,0 +1,231 @@
+import { Commitment, Connection } from '@solana/web3.js';
+import { classifyError, RpcUnavailableError } from './errors.js';
+import { defaultNetwork, networkEnv, publicRpcUrl } from './network.js';
+import { SolanaNetwork } from '../types.js';
+
+/**
+ * Live statistics for one RPC endpoint, as shown by /status.
+ */
+export interface EndpointHealth {
+  url: string;
+  healthy: boolean; // False while the endpoint is cooling down after repeated failures
+  latencyMs: number | null; // Moving average over recent calls; null until the first response
+  errorRate: number; // Moving average of failed calls, 0-1
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  cooldownUntil: number; // Epoch ms; 0 when not cooling down
+  lastError?: string;
+}
+
+export interface RpcManagerOptions {
+  commitment?: Commitment;
+  // Endpoints tried per call before giving up, counting repeats when there are fewer endpoints
+  maxAttempts?: number;
+  // Backoff before the second attempt; doubles for each later one, with jitter
+  backoffMs?: number;
+  // Consecutive failures that take an endpoint out of rotation, for cooldownMs doubling with each further failure
+  failuresBeforeCooldown?: number;
+  cooldownMs?: number;
+  // How often every endpoint is probed, so cooled-down endpoints come back without waiting for user traffic
+  healthCheckIntervalMs?: number;
+}
+
+type EndpointState = Omit<EndpointHealth, 'healthy'>;
+
+// Weight of the newest sample in the latency and error rate moving averages
+const SMOOTHING = 0.2;
+const MAX_COOLDOWN_MS = 5 * 60 * 1000;
+// Connection methods that hit the RPC and can be retried elsewhere. A signed transaction keeps its
+// signature on every endpoint, so resending one after a failover can't make it land twice.
+const ROUTED_METHOD = /^(get|send|simulate|confirm|request)/;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Spreads RPC traffic over a list of endpoints. Each call goes to the healthiest endpoint (lowest error
+ * rate, then latency); connection failures are retried on the next one with exponential backoff, and
+ * endpoints that keep failing sit out a cooldown. Errors the RPC actually returned are passed straight through.
+ */
+export class RpcManager {
+  readonly connection: Connection;
+  private endpoints: EndpointState[];
+  private probes = new Map<string, Connection>();
+  private healthTimer: NodeJS.Timeout | null = null;
+
+  constructor(urls: string[], private readonly options: RpcManagerOptions = {}) {
+    const unique = [...new Set(urls)];
+    if (!unique.length) throw new Error('RpcManager needs at least one RPC URL');
+    this.endpoints = unique.map((url) => ({
+      url,
+      latencyMs: null,
+      errorRate: 0,
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      cooldownUntil: 0,
+    }));
+    this.connection = this.wrap((url) => new Connection(url, this.commitment));
+  }
+
+  get primaryUrl() {
+    return this.endpoints[0].url;
+  }
+
+  get commitment(): Commitment {
+    return this.options.commitment ?? 'confirmed';
+  }
+
+  /**
+   * Runs `fn` against the best endpoint, failing over while the error looks like the endpoint is unreachable.
+   * Throws RpcUnavailableError once every attempt has failed that way.
+   */
+  async call<T>(fn: (url: string) => Promise<T>, label = 'RPC call'): Promise<T> {
+    const maxAttempts = this.options.maxAttempts ?? 3;
+    const backoffMs = this.options.backoffMs ?? 500;
+    const tried = new Set<string>();
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const endpoint = this.pick(tried);
+      tried.add(endpoint.url);
+      const started = Date.now();
+      try {
+        const result = await fn(endpoint.url);
+        this.record(endpoint, Date.now() - started);
+        return result;
+      } catch (error) {
+        if (classifyError(error) !== 'RPC_UNAVAILABLE') {
+          // The endpoint answered; the request itself was rejected, and would be anywhere else too
+          this.record(endpoint, Date.now() - started);
+          throw error;
+        }
+        this.record(endpoint, Date.now() - started, error);
+        lastError = error;
+        console.warn(`${label} failed on ${endpoint.url} (attempt ${attempt}/${maxAttempts}):`, (error as Error).message);
+        if (attempt < maxAttempts) await sleep(backoffMs * 2 ** (attempt - 1) * (0.5 + Math.random()));
+      }
+    }
+    throw new RpcUnavailableError(`${label} failed on every RPC endpoint: ${(lastError as Error).message}`, { cause: lastError });
+  }
+
+  /**
+   * A Connection-like object whose RPC methods are routed through `call`, with one instance per endpoint
+   * made by `create`. Lets code that expects a plain Connection, including the DLMM SDK, use the pool as is.
+   */
+  wrap<C extends object>(create: (url: string) => C): C {
+    const instances = new Map(this.endpoints.map((endpoint) => [endpoint.url, create(endpoint.url)]));
+    const primary = instances.get(this.primaryUrl)!;
+    return new Proxy(primary, {
+      get: (target, prop) => {
+        const value = Reflect.get(target, prop, target);
+        if (typeof value !== 'function') return value;
+        if (typeof prop !== 'string' || !ROUTED_METHOD.test(prop)) return value.bind(target);
+        return (...args: unknown[]) =>
+          this.call((url) => {
+            const instance = instances.get(url) as Record<string, (...a: unknown[]) => Promise<unknown>>;
+            return instance[prop](...args);
+          }, prop);
+      },
+    });
+  }
+
+  health(): EndpointHealth[] {
+    const now = Date.now();
+    return this.endpoints.map((endpoint) => ({ ...endpoint, healthy: endpoint.cooldownUntil <= now }));
+  }
+
+  /**
+   * Probes every endpoint with getSlot on an interval. Probes bypass routing, so each one measures its own endpoint.
+   */
+  startHealthChecks() {
+    if (this.healthTimer) return;
+    const interval = this.options.healthCheckIntervalMs ?? 60000;
+    this.healthTimer = setInterval(() => void this.checkHealth(), interval);
+    this.healthTimer.unref();
+    void this.checkHealth();
+  }
+
+  stop() {
+    if (this.healthTimer) clearInterval(this.healthTimer);
+    this.healthTimer = null;
+  }
+
+  async checkHealth() {
+    await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        let probe = this.probes.get(endpoint.url);
+        if (!probe) {
+          probe = new Connection(endpoint.url, this.commitment);
+          this.probes.set(endpoint.url, probe);
+        }
+        const started = Date.now();
+        try {
+          await probe.getSlot();
+          this.record(endpoint, Date.now() - started);
+        } catch (error) {
+          this.record(endpoint, Date.now() - started, error);
+        }
+      })
+    );
+  }
+
+  // Best available endpoint, preferring ones this call hasn't tried. When all are cooling down,
+  // the one that comes back soonest is used rather than failing without a request.
+  private pick(tried: Set<string>): EndpointState {
+    const now = Date.now();
+    const score = (e: EndpointState) => (e.latencyMs ?? 0) * (1 + 10 * e.errorRate) + e.errorRate * 1000;
+    const available = this.endpoints.filter((e) => e.cooldownUntil <= now).sort((a, b) => score(a) - score(b));
+    const fresh = available.filter((e) => !tried.has(e.url));
+    if (fresh.length) return fresh[0];
+    if (available.length) return available[0];
+    return [...this.endpoints].sort((a, b) => a.cooldownUntil - b.cooldownUntil)[0];
+  }
+
+  private record(endpoint: EndpointState, latencyMs: number, error?: unknown) {
+    endpoint.requests++;
+    endpoint.errorRate = endpoint.errorRate * (1 - SMOOTHING) + (error ? SMOOTHING : 0);
+    if (!error) {
+      endpoint.latencyMs = endpoint.latencyMs === null ? latencyMs : endpoint.latencyMs * (1 - SMOOTHING) + latencyMs * SMOOTHING;
+      endpoint.consecutiveFailures = 0;
+      endpoint.cooldownUntil = 0;
+      return;
+    }
+
+    endpoint.failures++;
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = error instanceof Error ? error.message : String(error);
+    const threshold = this.options.failuresBeforeCooldown ?? 3;
+    if (endpoint.consecutiveFailures >= threshold) {
+      const cooldown = (this.options.cooldownMs ?? 30000) * 2 ** (endpoint.consecutiveFailures - threshold);
+      endpoint.cooldownUntil = Date.now() + Math.min(cooldown, MAX_COOLDOWN_MS);
+    }
+  }
+}
+
+/**
+ * Endpoints for a network from `SOLANA_RPC_URLS` (comma-separated, preferred first), or else `SOLANA_RPC_URL`
+ * followed by `SOLANA_FALLBACK_RPC_URL` when set, each read per network (see networkEnv). Falls back to the
+ * cluster's public RPC.
+ */
+export function configuredRpcUrls(network: SolanaNetwork): string[] {
+  const list = (networkEnv('SOLANA_RPC_URLS', network) || '').split(',').map((url) => url.trim()).filter(Boolean);
+  if (list.length) return list;
+  return [networkEnv('SOLANA_RPC_URL', network) || publicRpcUrl(network), networkEnv('SOLANA_FALLBACK_RPC_URL', network)].filter(
+    (url): url is string => Boolean(url)
+  );
+}
+
+// One pool per network for the whole process, so the bot and the DLMM backends share endpoint health
+const sharedManagers = new Map<SolanaNetwork, RpcManager>();
+export function getRpcManager(network = defaultNetwork()) {
+  let manager = sharedManagers.get(network);
+  if (!manager) {
+    manager = new RpcManager(configuredRpcUrls(network));
+    sharedManagers.set(network, manager);
+  }
+  return manager;
+}
+
+// Managers created so far, for status reports and shutdown
+export const listRpcManagers = () => [...sharedManagers.entries()];
@@ -0,0 +1,598 @@
+import {
+  PublicKey,
+  Keypair,
+  Connection,
+  Transaction,
+  TransactionSignature,
+  ParsedAccountData,
+  ComputeBudgetProgram,
+  SystemProgram,
+} from '@solana/web3.js';
+import {
+  LiquidityBookServices,
+  MODE,
+  LiquidityShape,
+  RemoveLiquidityType,
+  createUniformDistribution,
+  getBinRange,
+  getMaxBinArray,
+  getMaxPosition,
+  CreatePositionParams,
+} from '@saros-finance/dlmm-sdk';
+import {
+  DlmmProvider,
+  ProviderPosition,
+  AddLiquidityParams,
+  RemoveLiquidityParams,
+  PoolInfo,
+  BinLiquidity,
+  TransactionStatusResult,
+  SimulateAddLiquidityParams,
+  SimulateRemoveLiquidityParams,
+  SimulationResult,
+} from './dlmmProvider.js';
+import { getTokenSymbol } from './tokenList.js';
+import { getTokenBalance, getTokenHoldings } from './balances.js';
+import { RebalanceStrategy } from './rebalanceEngine.js';
+import { getPriceFromBinId, parseRemovePercent, removedBinRange } from './binMath.js';
+import { InvalidInputError, NotInitializedError, PositionNotFoundError } from './errors.js';
+import { RpcManager } from './rpcManager.js';
+
+export interface SarosDlmmProviderOptions {
+  mode: MODE;
+  rpc: RpcManager;
+  // Pools scanned when positions are requested without a specific pool
+  watchedPools: string[];
+  // Fixed priority fee; when unset it follows recent network fees, capped at maxPriorityFeeMicroLamports
+  priorityFeeMicroLamports?: number;
+  maxPriorityFeeMicroLamports?: number;
+}
+
+// The SDK pins its own copy of @solana/web3.js; both Transaction classes are wire-compatible
+type SdkTransaction = CreatePositionParams['transaction'];
+const newSdkTransaction = () => new Transaction() as unknown as SdkTransaction;
+
+const BINS_PER_ARRAY = 256;
+
+// A transaction whose blockhash expired can never land, so it is re-signed and resent this many times in total
+const MAX_SEND_ATTEMPTS = 3;
+const DEFAULT_MAX_PRIORITY_FEE_MICROLAMPORTS = 1000000;
+// First byte of ComputeBudget SetComputeUnitLimit / SetComputeUnitPrice instructions
+const SET_COMPUTE_UNIT_LIMIT = 2;
+const SET_COMPUTE_UNIT_PRICE = 3;
+// Compute limit the runtime applies per instruction when a transaction doesn't set one
+const DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION = 200000;
+const MAX_COMPUTE_UNITS_PER_TX = 1400000;
+const LAMPORTS_PER_SIGNATURE = 5000;
+// Index of SystemProgram's Transfer instruction
+const SYSTEM_TRANSFER = 2;
+
+const SHAPES: Record<RebalanceStrategy, LiquidityShape> = {
+  spot: LiquidityShape.Spot,
+  curve: LiquidityShape.Curve,
+  'bid-ask': LiquidityShape.BidAsk,
+};
+
+/**
+ * One transaction of a multi-transaction operation, built but not yet signed.
+ */
+interface TxStep {
+  tx: SdkTransaction;
+  signers: Keypair[]; // Signers besides the payer, e.g. a new position's mint
+  dependsOnEarlier: boolean; // Uses accounts an earlier step creates, so it can't be simulated on its own
+}
+
+interface PositionAccount {
+  pair: PublicKey;
+  positionMint: PublicKey;
+  lowerBinId: number;
+  upperBinId: number;
+}
+
+/**
+ * DlmmProvider backed by the Saros DLMM SDK. Builds the SDK transactions, signs them with the
+ * keypair passed in by DlmmService and sends them one by one, waiting for confirmation in between.
+ */
+export class SarosDlmmProvider implements DlmmProvider {
+  readonly name = 'saros';
+  readonly claimsFees = false;
+  private sdk: LiquidityBookServices;
+  private decimalsCache = new Map<string, number>();
+
+  constructor(private readonly options: SarosDlmmProviderOptions) {
+    this.sdk = new LiquidityBookServices({
+      mode: options.mode,
+      options: { rpcUrl: options.rpc.primaryUrl, commitmentOrConfig: 'confirmed' },
+    });
+    // Route the SDK's RPC traffic through the shared pool. Its Anchor programs read the connection from
+    // their provider on every call, so replacing it there covers account fetches as well.
+    type SdkConnection = typeof this.sdk.connection;
+    const ConnectionClass = this.sdk.connection.constructor as new (url: string, commitment: string) => SdkConnection;
+    const routed = options.rpc.wrap((url) => new ConnectionClass(url, 'confirmed'));
+    this.sdk.connection = routed;
+    (this.sdk.lbProgram.provider as unknown as { connection: SdkConnection }).connection = routed;
+  }
+
+  async getUserPositions(user: PublicKey, pool: PublicKey | null): Promise<ProviderPosition[]> {
+    const pools = pool ? [pool] : this.options.watchedPools.map((address) => new PublicKey(address));
+    const results = await Promise.all(pools.map((pair) => this.getPoolPositions(user, pair)));
+    return results.flat();
+  }
+
+  async getPoolState(pool: string) {
+    const pairInfo = await this.sdk.getPairAccount(new PublicKey(pool));
+    const activeBin: number = pairInfo.activeId;
+    const binStep: number = pairInfo.binStep;
+    const [decimalsX, decimalsY] = await Promise.all([
+      this.getDecimals(new PublicKey(pairInfo.tokenMintX)),
+      this.getDecimals(new PublicKey(pairInfo.tokenMintY)),
+    ]);
+    return { address: pool, activeBin, binStep, price: getPriceFromBinId(activeBin, binStep, decimalsX, decimalsY) };
+  }
+
+  async listPoolAddresses() {
+    return this.options.watchedPools.length ? this.options.watchedPools : this.sdk.fetchPoolAddresses();
+  }
+
+  async getPoolInfo(pool: string): Promise<PoolInfo> {
+    const [pairInfo, metadata] = await Promise.all([
+      this.sdk.getPairAccount(new PublicKey(pool)),
+      this.sdk.fetchPoolMetadata(pool),
+    ]);
+    const [decimalsX, decimalsY] = await Promise.all([
+      this.getDecimals(new PublicKey(metadata.baseMint)),
+      this.getDecimals(new PublicKey(metadata.quoteMint)),
+    ]);
+    const activeBin: number = pairInfo.activeId;
+    const binStep: number = pairInfo.binStep;
+    const price = getPriceFromBinId(activeBin, binStep, decimalsX, decimalsY);
+    const reserveX = Number(metadata.baseReserve) / Math.pow(10, decimalsX);
+    const reserveY = Number(metadata.quoteReserve) / Math.pow(10, decimalsY);
+
+    return {
+      address: pool,
+      tokenX: { mint: metadata.baseMint, symbol: getTokenSymbol(metadata.baseMint), decimals: decimalsX },
+      tokenY: { mint: metadata.quoteMint, symbol: getTokenSymbol(metadata.quoteMint), decimals: decimalsY },
+      activeBin,
+      binStep,
+      price,
+      tvl: reserveX * price + reserveY,
+      feeTier: metadata.tradeFee,
+    };
+  }
+
+  async getBinDistribution(pool: string, radius: number): Promise<BinLiquidity[]> {
+    const pair = new PublicKey(pool);
+    const pairInfo = await this.sdk.getPairAccount(pair);
+    const activeBin: number = pairInfo.activeId;
+    const [decimalsX, decimalsY] = await Promise.all([
+      this.getDecimals(new PublicKey(pairInfo.tokenMintX)),
+      this.getDecimals(new PublicKey(pairInfo.tokenMintY)),
+    ]);
+    // Returns the active bin's array plus a neighbour, which covers any radius up to 256 bins
+    const { bins, resultIndex } = await this.sdk.getBinArrayInfo({
+      binArrayIndex: Math.floor(activeBin / BINS_PER_ARRAY),
+      pair,
+      payer: pair,
+    });
+
+    const firstBinId = resultIndex * BINS_PER_ARRAY;
+    return bins
+      .map((bin: { reserveX: { toString(): string }; reserveY: { toString(): string } }, i: number) => ({
+        binId: firstBinId + i,
+        reserveX: Number(bin.reserveX.toString()) / Math.pow(10, decimalsX),
+        reserveY: Number(bin.reserveY.toString()) / Math.pow(10, decimalsY),
+      }))
+      .filter((bin: BinLiquidity) => Math.abs(bin.binId - activeBin) <= radius);
+  }
+
+  async createPositionAndAddLiquidity({ signer, ...params }: AddLiquidityParams) {
+    const { steps } = await this.buildAddLiquidity({ ...params, payer: signer.publicKey });
+    const signatures: TransactionSignature[] = [];
+    for (const step of steps) {
+      signatures.push(await this.sendAndConfirm(step.tx, [signer, ...step.signers]));
+    }
+
+    console.log('SarosDlmmProvider.createPositionAndAddLiquidity signatures:', signatures);
+    if (!signatures.length) throw new InvalidInputError('Nothing to deposit in the selected range');
+    return signatures[signatures.length - 1];
+  }
+
+  async removeLiquidity({ signer, ...params }: RemoveLiquidityParams) {
+    const { steps } = await this.buildRemoveLiquidity({ ...params, payer: signer.publicKey });
+    const signatures: TransactionSignature[] = [];
+    for (const step of steps) {
+      signatures.push(await this.sendAndConfirm(step.tx, [signer, ...step.signers]));
+    }
+
+    console.log('SarosDlmmProvider.removeLiquidity signatures:', signatures);
+    if (!signatures.length) throw new InvalidInputError('Nothing to remove in the selected bins');
+    return signatures[signatures.length - 1];
+  }
+
+  async simulateAddLiquidity(params: SimulateAddLiquidityParams): Promise<SimulationResult> {
+    const { steps, tokenMintX, tokenMintY } = await this.buildAddLiquidity(params);
+    const simulation = await this.simulateSteps(steps, params.payer);
+    return {
+      ...simulation,
+      deltas: [
+        { mint: tokenMintX.toString(), symbol: getTokenSymbol(tokenMintX.toString()), amount: -Number(params.amountX) },
+        { mint: tokenMintY.toString(), symbol: getTokenSymbol(tokenMintY.toString()), amount: -Number(params.amountY) },
+      ],
+    };
+  }
+
+  async simulateRemoveLiquidity(params: SimulateRemoveLiquidityParams): Promise<SimulationResult> {
+    const { steps, pair, tokenMintX, tokenMintY, firstBin } = await this.buildRemoveLiquidity(params);
+    const [simulation, reserves, decimalsX, decimalsY] = await Promise.all([
+      this.simulateSteps(steps, params.payer),
+      this.sdk.getBinsReserveInformation({ position: params.positionPubkey, pair, payer: params.payer }),
+      this.getDecimals(tokenMintX),
+      this.getDecimals(tokenMintY),
+    ]);
+    // The withdrawn bins' reserves are what comes back to the wallet
+    const removed = reserves.filter((bin) => bin.binId >= firstBin);
+    const sum = (key: 'reserveX' | 'reserveY') => removed.reduce((total, bin) => total + Number(bin[key]), 0);
+    return {
+      ...simulation,
+      deltas: [
+        { mint: tokenMintX.toString(), symbol: getTokenSymbol(tokenMintX.toString()), amount: sum('reserveX') / Math.pow(10, decimalsX) },
+        { mint: tokenMintY.toString(), symbol: getTokenSymbol(tokenMintY.toString()), amount: sum('reserveY') / Math.pow(10, decimalsY) },
+      ],
+    };
+  }
+
+  async getTokenBalance(owner: PublicKey, mint: string) {
+    return getTokenBalance(this.connection, owner, mint);
+  }
+
+  async getTokenHoldings(owner: PublicKey) {
+    return getTokenHoldings(this.connection, owner);
+  }
+
+  async getTransactionStatus(signature: string): Promise<TransactionStatusResult> {
+    const { value } = await this.sdk.connection.getSignatureStatuses([signature], { searchTransactionHistory: true });
+    const status = value[0];
+    if (!status) return { status: 'pending' };
+    if (status.err) return { status: 'failed', error: JSON.stringify(status.err) };
+    return { status: status.confirmationStatus || 'processed' };
+  }
+
+  /**
+   * Saros DLMM credits swap fees to the bin reserves instead of accruing them separately,
+   * so fees are collected by removing liquidity and there is no claim instruction to send.
+   */
+  async claimFees(): Promise<never> {
+    throw new InvalidInputError('Saros DLMM adds fees to your position’s bins; remove liquidity to collect them');
+  }
+
+  private async getPoolPositions(user: PublicKey, pair: PublicKey): Promise<ProviderPosition[]> {
+    const positions = await this.sdk.getUserPositions({ payer: user, pair });
+    if (!positions.length) return [];
+    const pairInfo = await this.sdk.getPairAccount(pair);
+    const tokenMintX = new PublicKey(pairInfo.tokenMintX);
+    const tokenMintY = new PublicKey(pairInfo.tokenMintY);
+    const binStep: number = pairInfo.binStep;
+    const [decimalsX, decimalsY] = await Promise.all([this.getDecimals(tokenMintX), this.getDecimals(tokenMintY)]);
+
+    return Promise.all(
+      positions.map(async (p: PositionAccount & { position: string }) => {
+        const reserves = await this.sdk
+          .getBinsReserveInformation({ position: new PublicKey(p.position), pair, payer: user })
+          .catch(() => []);
+        const amounts = reserves.map((bin) => ({
+          binId: bin.binId,
+          x: Number(bin.reserveX) / Math.pow(10, decimalsX),
+          y: Number(bin.reserveY) / Math.pow(10, decimalsY),
+        }));
+        const amountX = amounts.reduce((sum, bin) => sum + bin.x, 0);
+        const amountY = amounts.reduce((sum, bin) => sum + bin.y, 0);
+        const value = amounts.reduce((sum, bin) => sum + bin.x * getPriceFromBinId(bin.binId, binStep, decimalsX, decimalsY) + bin.y, 0);
+        return {
+          pool: pair.toString(),
+          position: p.position,
+          lowerBinId: p.lowerBinId,
+          upperBinId: p.upperBinId,
+          liquidity: String(value),
+          // Swap fees are credited to the bin reserves, so there is no separate "owed" balance to report
+          feesOwed: '0',
+          amountX: String(amountX),
+          amountY: String(amountY),
+          tokenXMint: tokenMintX.toString(),
+          tokenYMint: tokenMintY.toString(),
+        };
+      })
+    );
+  }
+
+  private async getDecimals(mint: PublicKey) {
+    const cached = this.decimalsCache.get(mint.toString());
+    if (cached !== undefined) return cached;
+    const { value } = await this.connection.getParsedAccountInfo(mint);
+    // Mint accounts come back parsed by the token program; anything else is raw bytes
+    const data: Buffer | ParsedAccountData | undefined = value?.data;
+    const decimals = data && 'parsed' in data ? data.parsed?.info?.decimals : undefined;
+    if (typeof decimals !== 'number') throw new Error(`Could not read decimals for mint ${mint.toString()}`);
+    this.decimalsCache.set(mint.toString(), decimals);
+    return decimals;
+  }
+
+  // The SDK's nested web3.js Connection, typed as ours (the two are wire-compatible)
+  private get connection() {
+    return this.sdk.connection as unknown as Connection;
+  }
+
+  /**
+   * Builds the transactions that deposit into [lowerBin, upperBin]: missing bin arrays and vaults first,
+   * then for each 16-bin chunk a new position (unless one already covers it) and the deposit itself.
+   */
+  private async buildAddLiquidity({ pool, lowerBin, upperBin, amountX, amountY, shape = 'spot', payer }: SimulateAddLiquidityParams) {
+    if (!pool) throw new InvalidInputError('A pool address is required to add liquidity');
+    if (isNaN(lowerBin) || isNaN(upperBin) || lowerBin > upperBin || !amountX || !amountY || Number(amountX) + Number(amountY) <= 0) {
+      throw new InvalidInputError('Invalid liquidity parameters');
+    }
+
+    const pairInfo = await this.sdk.getPairAccount(pool);
+    const activeBin: number = pairInfo.activeId;
+    const tokenMintX = new PublicKey(pairInfo.tokenMintX);
+    const tokenMintY = new PublicKey(pairInfo.tokenMintY);
+    const [decimalsX, decimalsY] = await Promise.all([this.getDecimals(tokenMintX), this.getDecimals(tokenMintY)]);
+
+    // The SDK works with bin ranges relative to the active bin
+    const binRange: [number, number] = [lowerBin - activeBin, upperBin - activeBin];
+    const existingPositions = await this.sdk.getUserPositions({ payer, pair: pool });
+    const distribution = createUniformDistribution({ shape: SHAPES[shape], binRange });
+    const binArrayList = getMaxBinArray(binRange, activeBin);
+    const steps: TxStep[] = [];
+
+    // 1. Bin arrays and token vaults that don't exist yet
+    const setupTx = newSdkTransaction();
+    for (const item of binArrayList) {
+      await this.sdk.getBinArray({ binArrayIndex: item.binArrayLowerIndex, pair: pool, payer, transaction: setupTx });
+      await this.sdk.getBinArray({ binArrayIndex: item.binArrayUpperIndex, pair: pool, payer, transaction: setupTx });
+    }
+    for (const tokenAddress of [tokenMintX, tokenMintY]) {
+      await this.sdk.getPairVaultInfo({ payer, transaction: setupTx, tokenAddress, pair: pool });
+      await this.sdk.getUserVaultInfo({ payer, transaction: setupTx, tokenAddress });
+    }
+    const needsSetup = setupTx.instructions.length > 0;
+    if (needsSetup) steps.push({ tx: setupTx, signers: [], dependsOnEarlier: false });
+
+    // 2. One position per 16-bin chunk of the range, then the liquidity for each chunk
+    for (const chunk of getMaxPosition(binRange, activeBin)) {
+      const { range, binLower, binUpper } = getBinRange(chunk, activeBin);
+      const binArray = binArrayList.find(
+        (item) => item.binArrayLowerIndex * 256 <= binLower && (item.binArrayUpperIndex + 1) * 256 > binUpper
+      );
+      if (!binArray) throw new NotInitializedError(`No bin array covers bins ${binLower}-${binUpper}`);
+
+      let positionMint = existingPositions.find(
+        (p: PositionAccount) => p.lowerBinId <= binLower && p.upperBinId >= binUpper
+      )?.positionMint as PublicKey | undefined;
+      const isNewPosition = !positionMint;
+
+      if (!positionMint) {
+        const mintKeypair = Keypair.generate();
+        const createTx = newSdkTransaction();
+        await this.sdk.createPosition({
+          pair: pool,
+          payer,
+          relativeBinIdLeft: range[0],
+          relativeBinIdRight: range[1],
+          binArrayIndex: binArray.binArrayLowerIndex,
+          positionMint: mintKeypair.publicKey,
+          transaction: createTx,
+        });
+        steps.push({ tx: createTx, signers: [mintKeypair], dependsOnEarlier: needsSetup });
+        positionMint = mintKeypair.publicKey;
+      }
+
+      const startIndex = Math.max(0, distribution.findIndex((d) => d.relativeBinId === range[0]));
+      const endIndex = distribution.findIndex((d) => d.relativeBinId === range[1]);
+      const liquidityDistribution = distribution.slice(startIndex, endIndex === -1 ? distribution.length : endIndex + 1);
+      if (!liquidityDistribution.length) continue;
+
+      const addTx = newSdkTransaction();
+      await this.sdk.addLiquidityIntoPosition({
+        amountX: toBaseUnits(amountX, decimalsX),
+        amountY: toBaseUnits(amountY, decimalsY),
+        binArrayLower: await this.sdk.getBinArray({ binArrayIndex: binArray.binArrayLowerIndex, pair: pool, payer }),
+        binArrayUpper: await this.sdk.getBinArray({ binArrayIndex: binArray.binArrayUpperIndex, pair: pool, payer }),
+        liquidityDistribution,
+        pair: pool,
+        positionMint: new PublicKey(positionMint),
+        payer,
+        transaction: addTx,
+      });
+      steps.push({ tx: addTx, signers: [], dependsOnEarlier: needsSetup || isNewPosition });
+    }
+
+    return { steps, tokenMintX, tokenMintY };
+  }
+
+  /**
+   * Builds the transactions that withdraw the top `amount` percent of a position's bins.
+   */
+  private async buildRemoveLiquidity({ pool, positionPubkey, amount, payer }: SimulateRemoveLiquidityParams) {
+    const percent = parseRemovePercent(amount);
+
+    const position: PositionAccount = await this.sdk.getPositionAccount(positionPubkey).catch(() => null);
+    if (!position) throw new PositionNotFoundError();
+
+    const pair = new PublicKey(position.pair);
+    if (pool && !pool.equals(pair)) throw new PositionNotFoundError('Position not found in this pool');
+
+    const pairInfo = await this.sdk.getPairAccount(pair);
+    const tokenMintX = new PublicKey(pairInfo.tokenMintX);
+    const tokenMintY = new PublicKey(pairInfo.tokenMintY);
+    const { firstBin } = removedBinRange(position.lowerBinId, position.upperBinId, percent);
+
+    const { txs, txCreateAccount, txCloseAccount } = await this.sdk.removeMultipleLiquidity({
+      maxPositionList: [
+        {
+          position: positionPubkey.toString(),
+          start: firstBin,
+          end: position.upperBinId,
+          positionMint: new PublicKey(position.positionMint).toString(),
+        },
+      ],
+      payer,
+      type: RemoveLiquidityType.Both,
+      pair,
+      tokenMintX,
+      tokenMintY,
+      activeId: pairInfo.activeId,
+    });
+
+    // The withdrawals may pay into token accounts created by the first step; closing needs them emptied first
+    const createsAccounts = !!txCreateAccount && txCreateAccount.instructions.length > 0;
+    const steps: TxStep[] = [
+      ...(createsAccounts ? [{ tx: txCreateAccount!, signers: [], dependsOnEarlier: false }] : []),
+      ...txs.map((tx) => ({ tx, signers: [], dependsOnEarlier: createsAccounts })),
+      ...(txCloseAccount ? [{ tx: txCloseAccount, signers: [], dependsOnEarlier: true }] : []),
+    ].filter((step) => step.tx.instructions.length > 0);
+
+    return { steps, pair, tokenMintX, tokenMintY, firstBin };
+  }
+
+  /**
+   * Simulates each step that doesn't depend on an earlier one against the current chain state, unsigned.
+   * Fees are computed for every step; compute units and rent only for the simulated ones.
+   */
+  private async simulateSteps(steps: TxStep[], payer: PublicKey): Promise<Omit<SimulationResult, 'deltas'>> {
+    const connection = this.connection;
+    const [{ blockhash }, lamportsBefore, networkPriorityFee] = await Promise.all([
+      connection.getLatestBlockhash('confirmed'),
+      connection.getBalance(payer, 'confirmed'),
+      this.getPriorityFee(),
+    ]);
+    const result: Omit<SimulationResult, 'deltas'> = {
+      computeUnits: 0,
+      feeLamports: 0,
+      rentLamports: 0,
+      transactionCount: steps.length,
+      simulatedCount: 0,
+    };
+
+    for (const step of steps) {
+      const tx = step.tx as unknown as Transaction;
+      tx.recentBlockhash = blockhash;
+      tx.feePayer = payer;
+      const { limit, price } = readComputeBudget(tx);
+      const baseFee = (await connection.getFeeForMessage(tx.compileMessage(), 'confirmed')).value;
+      result.feeLamports +=
+        (baseFee ?? LAMPORTS_PER_SIGNATURE * (1 + step.signers.length)) + Math.ceil(((price ?? networkPriorityFee) * limit) / 1e6);
+      if (step.dependsOnEarlier || result.error) continue;
+
+      const { value } = await connection.simulateTransaction(tx, undefined, [payer]);
+      result.simulatedCount++;
+      result.computeUnits += value.unitsConsumed ?? 0;
+      if (value.err) {
+        result.error = describeSimulationError(value.err, value.logs);
+        continue;
+      }
+      // SOL the payer loses beyond what it wraps into deposits is rent for new accounts
+      const lamportsAfter = value.accounts?.[0]?.lamports;
+      if (lamportsAfter !== undefined) {
+        result.rentLamports += Math.max(0, lamportsBefore - lamportsAfter - transferredLamports(tx, payer));
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Priority fee for transactions the SDK didn't price itself: the configured value, or the median of
+   * recent non-zero network fees.
+   */
+  private async getPriorityFee() {
+    if (this.options.priorityFeeMicroLamports !== undefined) return this.options.priorityFeeMicroLamports;
+    const max = this.options.maxPriorityFeeMicroLamports ?? DEFAULT_MAX_PRIORITY_FEE_MICROLAMPORTS;
+    try {
+      const fees = (await this.sdk.connection.getRecentPrioritizationFees())
+        .map((f) => f.prioritizationFee)
+        .filter((fee) => fee > 0)
+        .sort((a, b) => a - b);
+      return Math.min(fees.length ? fees[Math.floor(fees.length / 2)] : 0, max);
+    } catch (error) {
+      console.warn('Could not read recent priority fees:', (error as Error).message);
+      return 0;
+    }
+  }
+
+  private async sendAndConfirm(sdkTx: SdkTransaction, signers: Keypair[]) {
+    const tx = sdkTx as unknown as Transaction;
+    const connection = this.sdk.connection;
+
+    // The SDK already prices its add/remove transactions; setup and position transactions get one here
+    if (readComputeBudget(tx).price === undefined) {
+      const microLamports = await this.getPriorityFee();
+      if (microLamports > 0) tx.instructions.unshift(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+      tx.recentBlockhash = blockhash;
+      tx.feePayer = signers[0].publicKey;
+      tx.sign(...signers);
+
+      const signature = await connection.sendRawTransaction(tx.serialize(), {
+        skipPreflight: false,
+        preflightCommitment: 'confirmed',
+      });
+      try {
+        const confirmation = await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+        if (confirmation.value.err) {
+          throw new Error(`Transaction ${signature} failed: ${JSON.stringify(confirmation.value.err)}`);
+        }
+        return signature;
+      } catch (error) {
+        // Matched by name: the SDK's nested web3.js copy throws its own error class
+        if ((error as Error).name === 'TransactionExpiredBlockheightExceededError' && attempt < MAX_SEND_ATTEMPTS) {
+          console.warn(`Transaction ${signature} expired before landing (attempt ${attempt}), resending with a new blockhash`);
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+}
+
+const toBaseUnits = (amount: string, decimals: number) => Math.round(Number(amount) * Math.pow(10, decimals));
+
+/**
+ * The compute unit limit a transaction will be charged priority fees on, and its price if it sets one.
+ */
+function readComputeBudget(tx: Transaction) {
+  const computeBudgetProgram = ComputeBudgetProgram.programId.toString();
+  let limit: number | undefined;
+  let price: number | undefined;
+  for (const ix of tx.instructions) {
+    if (ix.programId.toString() !== computeBudgetProgram) continue;
+    if (ix.data[0] === SET_COMPUTE_UNIT_LIMIT) limit = ix.data.readUInt32LE(1);
+    if (ix.data[0] === SET_COMPUTE_UNIT_PRICE) price = Number(ix.data.readBigUInt64LE(1));
+  }
+  const instructions = tx.instructions.filter((ix) => ix.programId.toString() !== computeBudgetProgram).length;
+  return { limit: limit ?? Math.min(instructions * DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION, MAX_COMPUTE_UNITS_PER_TX), price };
+}
+
+/**
+ * Lamports sent from `payer` by SystemProgram transfers, e.g. SOL being wrapped for a deposit.
+ */
+function transferredLamports(tx: Transaction, payer: PublicKey) {
+  return tx.instructions
+    .filter(
+      (ix) =>
+        ix.programId.toString() === SystemProgram.programId.toString() &&
+        ix.data.readUInt32LE(0) === SYSTEM_TRANSFER &&
+        ix.keys[0]?.pubkey.toString() === payer.toString()
+    )
+    .reduce((sum, ix) => sum + Number(ix.data.readBigUInt64LE(4)), 0);
+}
+
+/**
+ * Prefers the program's own error message from the logs (Anchor prints "Error Message: ...") over the raw error.
+ */
+function describeSimulationError(err: unknown, logs: string[] | null) {
+  const message = logs?.map((line) => line.match(/Error Message: (.*)/)?.[1]).find(Boolean);
+  return message || (typeof err === 'string' ? err : JSON.stringify(err));
+}
@@ -0,0 +1,547 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import * as dotenv from 'dotenv';
+import { WalletData, UserState, RebalanceOperation, AutoRebalanceRule, TrackedTransaction, SolanaNetwork, AlertRule, PositionSnapshot } from '../types.js';
+
+dotenv.config();
+
+/**
+ * Typed access to everything the bot needs to keep across restarts.
+ * Handlers and the poller only talk to this interface, never to a backend directly.
+ */
+export interface BotStore {
+  getWallet(userId: number, network: SolanaNetwork): Promise<WalletData | undefined>;
+  saveWallet(userId: number, network: SolanaNetwork, wallet: WalletData): Promise<void>;
+  listWallets(): Promise<Array<[number, WalletData, SolanaNetwork]>>;
+  getState(userId: number): Promise<UserState | undefined>;
+  saveState(userId: number, state: UserState): Promise<void>;
+  saveRebalanceOperation(userId: number, operation: RebalanceOperation): Promise<void>;
+  listRebalanceOperations(userId: number): Promise<RebalanceOperation[]>;
+  listAutoRebalanceRules(userId: number, network: SolanaNetwork): Promise<AutoRebalanceRule[]>;
+  saveAutoRebalanceRule(userId: number, rule: AutoRebalanceRule): Promise<void>;
+  deleteAutoRebalanceRule(userId: number, network: SolanaNetwork, position: string): Promise<void>;
+  migrateLegacyAutoRebalanceRules(): Promise<number>;
+  listAlertRules(userId: number): Promise<AlertRule[]>;
+  saveAlertRule(userId: number, rule: AlertRule): Promise<void>;
+  deleteAlertRule(userId: number, id: string): Promise<void>;
+  savePositionSnapshots(userId: number, snapshots: PositionSnapshot[]): Promise<void>;
+  listPositionSnapshots(userId: number, network: SolanaNetwork, since?: number): Promise<PositionSnapshot[]>;
+  deletePositionSnapshotsBefore(before: number): Promise<number>;
+  migrateLegacyPositionSnapshots(): Promise<number>;
+  saveTransaction(tx: TrackedTransaction): Promise<void>;
+  listTransactions(userId: number, limit?: number): Promise<TrackedTransaction[]>;
+  listUnsettledTransactions(): Promise<TrackedTransaction[]>;
+  getSession<T>(key: string): Promise<T | undefined>;
+  saveSession<T>(key: string, session: T): Promise<void>;
+  deleteSession(key: string): Promise<void>;
+  // Resolves when the backend can be read and written, rejects with the reason otherwise
+  checkHealth(): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * A named map of JSON-serializable records. Backends only need to provide this.
+ */
+interface Collection<T> {
+  get(key: string): T | undefined;
+  set(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  entries(): Array<[string, T]>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Append-only position history, kept out of the collections: a poll only appends its own rows and a
+ * read only touches one user's history, however many users and polls there are.
+ */
+interface SnapshotLog {
+  append(userId: number, snapshots: PositionSnapshot[]): Promise<void>;
+  // Oldest first
+  list(userId: number, network: SolanaNetwork, since: number): Promise<PositionSnapshot[]>;
+  // Every user's snapshots taken before `before`; returns how many were deleted
+  deleteBefore(before: number): Promise<number>;
+}
+
+interface StorageBackend {
+  collection<T>(name: string): Collection<T>;
+  snapshotLog(): SnapshotLog;
+  checkHealth(): Promise<void>;
+  close(): Promise<void>;
+}
+
+// --- JSON file backend ---
+
+/**
+ * One JSON file per collection (e.g. `wallets.json`, `states.json`).
+ * Data is held in memory and every change is flushed with a write-to-temp-then-rename,
+ * so a crash mid-write never leaves a truncated file behind.
+ */
+class JsonFileCollection<T> implements Collection<T> {
+  private data: Record<string, T>;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    this.data = JsonFileCollection.load<T>(filePath);
+  }
+
+  private static load<T>(filePath: string): Record<string, T> {
+    if (!fs.existsSync(filePath)) return {};
+    try {
+      const raw = fs.readFileSync(filePath, 'utf8');
+      return raw.trim() ? JSON.parse(raw) : {};
+    } catch (error) {
+      console.error(`Failed to read ${filePath}, starting empty:`, (error as Error).message);
+      return {};
+    }
+  }
+
+  get(key: string) {
+    return this.data[key];
+  }
+
+  entries() {
+    return Object.entries(this.data);
+  }
+
+  set(key: string, value: T) {
+    this.data[key] = value;
+    return this.flush();
+  }
+
+  delete(key: string) {
+    delete this.data[key];
+    return this.flush();
+  }
+
+  clear() {
+    this.data = {};
+    return this.flush();
+  }
+
+  /**
+   * Queues a snapshot write. Writes are serialized so a slow flush can't overwrite a newer one.
+   */
+  flush() {
+    const snapshot = JSON.stringify(this.data, null, 2);
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+        await fs.promises.writeFile(tmpPath, snapshot, 'utf8');
+        await fs.promises.rename(tmpPath, this.filePath);
+      });
+    return this.writeQueue;
+  }
+}
+
+/**
+ * One JSON Lines file per user (`positionSnapshots/<userId>.jsonl`). Appends never rewrite the file;
+ * only pruning does, with the same write-to-temp-then-rename as the collections.
+ */
+class JsonLinesSnapshotLog implements SnapshotLog {
+  // Per-user write queues, so a prune never races an append to the same file
+  private queues = new Map<number, Promise<unknown>>();
+
+  constructor(private readonly dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  private filePath(userId: number) {
+    return path.join(this.dir, `${userId}.jsonl`);
+  }
+
+  private enqueue<R>(userId: number, task: () => Promise<R>): Promise<R> {
+    const run = (this.queues.get(userId) ?? Promise.resolve()).catch(() => undefined).then(task);
+    this.queues.set(userId, run);
+    return run;
+  }
+
+  private async read(userId: number): Promise<PositionSnapshot[]> {
+    let raw: string;
+    try {
+      raw = await fs.promises.readFile(this.filePath(userId), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    const snapshots: PositionSnapshot[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        snapshots.push(JSON.parse(line));
+      } catch {
+        // A crash mid-append can leave one partial last line; the rest of the history is still good
+      }
+    }
+    return snapshots;
+  }
+
+  append(userId: number, snapshots: PositionSnapshot[]) {
+    if (!snapshots.length) return Promise.resolve();
+    const lines = snapshots.map((snapshot) => `${JSON.stringify(snapshot)}\n`).join('');
+    return this.enqueue(userId, () => fs.promises.appendFile(this.filePath(userId), lines, 'utf8'));
+  }
+
+  async list(userId: number, network: SolanaNetwork, since: number) {
+    // Reads wait for queued appends, so a poll's snapshots show up as soon as it has saved them
+    await this.queues.get(userId)?.catch(() => undefined);
+    return (await this.read(userId)).filter((s) => s.network === network && s.at >= since).sort((a, b) => a.at - b.at);
+  }
+
+  async deleteBefore(before: number) {
+    let deleted = 0;
+    for (const file of await fs.promises.readdir(this.dir)) {
+      const userId = Number(path.basename(file, '.jsonl'));
+      if (!file.endsWith('.jsonl') || !Number.isInteger(userId)) continue;
+      deleted += await this.enqueue(userId, async () => {
+        const snapshots = await this.read(userId);
+        const kept = snapshots.filter((s) => s.at >= before);
+        if (kept.length === snapshots.length) return 0;
+        const tmpPath = `${this.filePath(userId)}.${process.pid}.tmp`;
+        await fs.promises.writeFile(tmpPath, kept.map((s) => `${JSON.stringify(s)}\n`).join(''), 'utf8');
+        await fs.promises.rename(tmpPath, this.filePath(userId));
+        return snapshots.length - kept.length;
+      });
+    }
+    return deleted;
+  }
+}
+
+class JsonFileBackend implements StorageBackend {
+  private collections = new Map<string, JsonFileCollection<unknown>>();
+  private snapshots: JsonLinesSnapshotLog | null = null;
+
+  constructor(private readonly dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  collection<T>(name: string): Collection<T> {
+    // Each name is only ever opened with one record type
+    let collection = this.collections.get(name) as JsonFileCollection<T> | undefined;
+    if (!collection) {
+      collection = new JsonFileCollection<T>(path.join(this.dir, `${name}.json`));
+      this.collections.set(name, collection);
+    }
+    return collection;
+  }
+
+  snapshotLog() {
+    this.snapshots ??= new JsonLinesSnapshotLog(path.join(this.dir, 'positionSnapshots'));
+    return this.snapshots;
+  }
+
+  async checkHealth() {
+    await fs.promises.access(this.dir, fs.constants.R_OK | fs.constants.W_OK);
+  }
+
+  async close() {
+    await Promise.all([...this.collections.values()].map((c) => c.flush()));
+  }
+}
+
+// --- SQLite backend ---
+
+/**
+ * All collections live in a single key/value table; values are stored as JSON text.
+ * better-sqlite3 is synchronous, so every write is already durable when the promise resolves.
+ */
+class SqliteBackend implements StorageBackend {
+  private db: Database.Database;
+
+  constructor(filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(
+      'CREATE TABLE IF NOT EXISTS records (collection TEXT NOT NULL, key TEXT NOT NULL, value TEXT NOT NULL, PRIMARY KEY (collection, key))'
+    );
+    this.db.exec(
+      'CREATE TABLE IF NOT EXISTS position_snapshots (user_id INTEGER NOT NULL, network TEXT NOT NULL, at INTEGER NOT NULL, value TEXT NOT NULL);' +
+        'CREATE INDEX IF NOT EXISTS position_snapshots_by_user ON position_snapshots (user_id, network, at);' +
+        'CREATE INDEX IF NOT EXISTS position_snapshots_by_time ON position_snapshots (at)'
+    );
+  }
+
+  collection<T>(name: string): Collection<T> {
+    const db = this.db;
+    const getStmt = db.prepare('SELECT value FROM records WHERE collection = ? AND key = ?');
+    const setStmt = db.prepare(
+      'INSERT INTO records (collection, key, value) VALUES (?, ?, ?) ON CONFLICT(collection, key) DO UPDATE SET value = excluded.value'
+    );
+    const deleteStmt = db.prepare('DELETE FROM records WHERE collection = ? AND key = ?');
+    const listStmt = db.prepare('SELECT key, value FROM records WHERE collection = ?');
+    const clearStmt = db.prepare('DELETE FROM records WHERE collection = ?');
+
+    return {
+      get(key) {
+        const row = getStmt.get(name, key) as { value: string } | undefined;
+        return row ? (JSON.parse(row.value) as T) : undefined;
+      },
+      async set(key, value) {
+        setStmt.run(name, key, JSON.stringify(value));
+      },
+      async delete(key) {
+        deleteStmt.run(name, key);
+      },
+      entries() {
+        const rows = listStmt.all(name) as Array<{ key: string; value: string }>;
+        return rows.map((row) => [row.key, JSON.parse(row.value) as T] as [string, T]);
+      },
+      async clear() {
+        clearStmt.run(name);
+      },
+    };
+  }
+
+  snapshotLog(): SnapshotLog {
+    const insertStmt = this.db.prepare('INSERT INTO position_snapshots (user_id, network, at, value) VALUES (?, ?, ?, ?)');
+    const listStmt = this.db.prepare('SELECT value FROM position_snapshots WHERE user_id = ? AND network = ? AND at >= ? ORDER BY at');
+    const deleteStmt = this.db.prepare('DELETE FROM position_snapshots WHERE at < ?');
+    const insertAll = this.db.transaction((userId: number, snapshots: PositionSnapshot[]) => {
+      for (const s of snapshots) insertStmt.run(userId, s.network, s.at, JSON.stringify(s));
+    });
+
+    return {
+      async append(userId, snapshots) {
+        insertAll(userId, snapshots);
+      },
+      async list(userId, network, since) {
+        const rows = listStmt.all(userId, network, since) as Array<{ value: string }>;
+        return rows.map((row) => JSON.parse(row.value) as PositionSnapshot);
+      },
+      async deleteBefore(before) {
+        return deleteStmt.run(before).changes;
+      },
+    };
+  }
+
+  async checkHealth() {
+    this.db.prepare('SELECT 1').get();
+  }
+
+  async close() {
+    this.db.close();
+  }
+}
+
+// --- Typed store on top of a backend ---
+
+// Wallets from before network switching are devnet wallets and keep their bare user id key
+const walletKey = (userId: number, network: SolanaNetwork) => (network === 'devnet' ? String(userId) : `${userId}:${network}`);
+
+class CollectionStore implements BotStore {
+  private wallets: Collection<WalletData>;
+  private states: Collection<UserState>;
+  private rebalances: Collection<RebalanceOperation>;
+  private autoRebalanceRules: Collection<AutoRebalanceRule>;
+  private alertRules: Collection<AlertRule>;
+  private positionSnapshots: SnapshotLog;
+  private sessions: Collection<unknown>;
+  private transactions: Collection<TrackedTransaction>;
+
+  constructor(private readonly backend: StorageBackend) {
+    this.wallets = backend.collection<WalletData>('wallets');
+    this.states = backend.collection<UserState>('states');
+    this.rebalances = backend.collection<RebalanceOperation>('rebalances');
+    this.autoRebalanceRules = backend.collection<AutoRebalanceRule>('autoRebalanceRules');
+    this.alertRules = backend.collection<AlertRule>('alertRules');
+    this.positionSnapshots = backend.snapshotLog();
+    this.sessions = backend.collection<unknown>('sessions');
+    this.transactions = backend.collection<TrackedTransaction>('transactions');
+  }
+
+  async getWallet(userId: number, network: SolanaNetwork) {
+    return this.wallets.get(walletKey(userId, network));
+  }
+
+  async saveWallet(userId: number, network: SolanaNetwork, wallet: WalletData) {
+    await this.wallets.set(walletKey(userId, network), wallet);
+  }
+
+  /**
+   * Every stored wallet with its owner and network.
+   */
+  async listWallets() {
+    return this.wallets.entries().map(([key, wallet]) => {
+      const [userId, network = 'devnet'] = key.split(':');
+      return [Number(userId), wallet, network as SolanaNetwork] as [number, WalletData, SolanaNetwork];
+    });
+  }
+
+  async getState(userId: number) {
+    return this.states.get(String(userId));
+  }
+
+  async saveState(userId: number, state: UserState) {
+    await this.states.set(String(userId), state);
+  }
+
+  async saveRebalanceOperation(userId: number, operation: RebalanceOperation) {
+    await this.rebalances.set(`${userId}:${operation.id}`, operation);
+  }
+
+  /**
+   * Returns the user's rebalance operations, newest first.
+   */
+  async listRebalanceOperations(userId: number) {
+    return this.rebalances
+      .entries()
+      .filter(([key]) => key.startsWith(`${userId}:`))
+      .map(([, operation]) => operation)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Returns the user's auto-rebalance rules on one network, oldest first.
+   */
+  async listAutoRebalanceRules(userId: number, network: SolanaNetwork) {
+    return this.autoRebalanceRules
+      .entries()
+      .filter(([key, rule]) => key.startsWith(`${userId}:`) && rule.network === network)
+      .map(([, rule]) => rule)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  // Keyed by network too: the same position address can exist on more than one cluster
+  async saveAutoRebalanceRule(userId: number, rule: AutoRebalanceRule) {
+    await this.autoRebalanceRules.set(`${userId}:${rule.network}:${rule.position}`, rule);
+  }
+
+  async deleteAutoRebalanceRule(userId: number, network: SolanaNetwork, position: string) {
+    await this.autoRebalanceRules.delete(`${userId}:${network}:${position}`);
+  }
+
+  /**
+   * Rules saved before they had a network ran on devnet; re-keys them as devnet rules.
+   */
+  async migrateLegacyAutoRebalanceRules() {
+    const legacy = this.autoRebalanceRules.entries().filter(([, rule]) => !rule.network);
+    for (const [key, rule] of legacy) {
+      await this.saveAutoRebalanceRule(Number(key.split(':')[0]), { ...rule, network: 'devnet' });
+      await this.autoRebalanceRules.delete(key);
+    }
+    return legacy.length;
+  }
+
+  /**
+   * Returns the user's alert rules on every network, oldest first.
+   */
+  async listAlertRules(userId: number) {
+    return this.alertRules
+      .entries()
+      .filter(([key]) => key.startsWith(`${userId}:`))
+      .map(([, rule]) => rule)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async saveAlertRule(userId: number, rule: AlertRule) {
+    await this.alertRules.set(`${userId}:${rule.id}`, rule);
+  }
+
+  async deleteAlertRule(userId: number, id: string) {
+    await this.alertRules.delete(`${userId}:${id}`);
+  }
+
+  async savePositionSnapshots(userId: number, snapshots: PositionSnapshot[]) {
+    await this.positionSnapshots.append(userId, snapshots);
+  }
+
+  /**
+   * Returns the user's position snapshots on one network taken at or after `since`, oldest first.
+   */
+  async listPositionSnapshots(userId: number, network: SolanaNetwork, since = 0) {
+    return this.positionSnapshots.list(userId, network, since);
+  }
+
+  /**
+   * Deletes every user's snapshots taken before `before` and returns how many there were.
+   */
+  async deletePositionSnapshotsBefore(before: number) {
+    return this.positionSnapshots.deleteBefore(before);
+  }
+
+  /**
+   * Moves snapshots saved in the `positionSnapshots` collection, before they had their own log, into the log.
+   */
+  async migrateLegacyPositionSnapshots() {
+    const legacy = this.backend.collection<PositionSnapshot>('positionSnapshots');
+    const byUser = new Map<number, PositionSnapshot[]>();
+    for (const [key, snapshot] of legacy.entries()) {
+      const userId = Number(key.split(':')[0]);
+      const snapshots = byUser.get(userId);
+      if (snapshots) snapshots.push(snapshot);
+      else byUser.set(userId, [snapshot]);
+    }
+    if (!byUser.size) return 0;
+    for (const [userId, snapshots] of byUser) await this.positionSnapshots.append(userId, snapshots.sort((a, b) => a.at - b.at));
+    await legacy.clear();
+    return [...byUser.values()].reduce((count, snapshots) => count + snapshots.length, 0);
+  }
+
+  async saveTransaction(tx: TrackedTransaction) {
+    await this.transactions.set(`${tx.userId}:${tx.id}`, tx);
+  }
+
+  /**
+   * Returns the user's tracked transactions, newest first.
+   */
+  async listTransactions(userId: number, limit = 10) {
+    return this.transactions
+      .entries()
+      .filter(([key]) => key.startsWith(`${userId}:`))
+      .map(([, tx]) => tx)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, limit);
+  }
+
+  /**
+   * Transactions of any user that haven't reached a final status yet.
+   */
+  async listUnsettledTransactions() {
+    return this.transactions
+      .entries()
+      .map(([, tx]) => tx)
+      .filter((tx) => tx.settledAt === undefined && !['finalized', 'failed', 'expired'].includes(tx.status));
+  }
+
+  async getSession<T>(key: string) {
+    return this.sessions.get(key) as T | undefined;
+  }
+
+  async saveSession<T>(key: string, session: T) {
+    await this.sessions.set(key, session);
+  }
+
+  async deleteSession(key: string) {
+    await this.sessions.delete(key);
+  }
+
+  checkHealth() {
+    return this.backend.checkHealth();
+  }
+
+  close() {
+    return this.backend.close();
+  }
+}
+
+/**
+ * Builds the store selected by `STORAGE_DRIVER` (`json` by default, or `sqlite`).
+ * `STORAGE_PATH` is the directory for JSON files or the database file for SQLite.
+ */
+export function createStore(
+  driver = process.env.STORAGE_DRIVER || 'json',
+  location = process.env.STORAGE_PATH
+): BotStore {
+  switch (driver) {
+    case 'json':
+      console.log('Using JSON file storage in', location || process.cwd());
+      return new CollectionStore(new JsonFileBackend(location || process.cwd()));
+    case 'sqlite':
+      console.log('Using SQLite storage at', location || 'bot.db');
+      return new CollectionStore(new SqliteBackend(location || 'bot.db'));
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected "json" or "sqlite")`);
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Symbols for well-known mints. Anything else is shown as a shortened mint address.
+ */
+export const KNOWN_TOKENS: Record<string, string> = {
+  So11111111111111111111111111111111111111112: 'SOL',
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: 'USDC',
+  Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: 'USDT',
+  SarosY6Vscao718M4A778z4CGtvcwcGef5M9MEH1LGL: 'SAROS',
+  '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU': 'USDC', // Devnet USDC
+};
+
+export const getTokenSymbol = (mint: string) => KNOWN_TOKENS[mint] || `${mint.slice(0, 4)}…${mint.slice(-4)}`;
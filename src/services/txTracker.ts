@@ -0,0 +1,122 @@
+import { randomUUID } from 'crypto';
+import { BotStore } from './storage.js';
+import { TransactionStatusResult } from './dlmmProvider.js';
+import { SolanaNetwork, TrackedTransaction, TransactionKind, TransactionStatus } from '../types.js';
+
+export interface TrackRequest {
+  kind: TransactionKind;
+  params: Record<string, string | number>;
+  signature: string;
+  network: SolanaNetwork;
+  chatId?: number;
+  messageId?: number;
+}
+
+export interface TxTrackerOptions {
+  getStatus: (signature: string, network: SolanaNetwork) => Promise<TransactionStatusResult>;
+  // Called after every status change, e.g. to edit the Telegram status message
+  onUpdate: (tx: TrackedTransaction) => Promise<void>;
+  pollIntervalMs?: number;
+  // How long a transaction may stay unseen before it counts as expired (a blockhash lives ~60-90s)
+  timeoutMs?: number;
+  // How long a transaction that was seen may take to finalize (usually ~15s after confirmation)
+  finalizeTimeoutMs?: number;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 3000;
+const DEFAULT_TIMEOUT_MS = 120000;
+const DEFAULT_FINALIZE_TIMEOUT_MS = 10 * 60000;
+
+const SETTLED_STATUSES: TransactionStatus[] = ['finalized', 'failed', 'expired'];
+
+// A transaction still 'confirmed' at the finalize deadline is settled too: tracking stops and `settledAt` is set
+export const isSettled = (tx: Pick<TrackedTransaction, 'status' | 'settledAt'>) =>
+  tx.settledAt !== undefined || SETTLED_STATUSES.includes(tx.status);
+
+export const explorerTxUrl = (signature: string, network: string) =>
+  `https://explorer.solana.com/tx/${signature}${network === 'mainnet-beta' ? '' : `?cluster=${network}`}`;
+
+/**
+ * Records submitted transactions and polls each one in the background until it is finalized,
+ * fails or expires. A transaction that confirms but doesn't finalize by the finalize deadline is
+ * settled as confirmed. Every change is persisted, so tracking resumes after a restart.
+ */
+export class TxTracker {
+  private following = new Set<string>();
+
+  constructor(private readonly store: BotStore, private readonly options: TxTrackerOptions) {}
+
+  async track(userId: number, request: TrackRequest): Promise<TrackedTransaction> {
+    const now = Date.now();
+    const tx: TrackedTransaction = {
+      id: randomUUID(),
+      userId,
+      ...request,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.save(tx);
+    this.follow(tx);
+    return tx;
+  }
+
+  /**
+   * Picks up transactions that were still unsettled when the bot stopped.
+   */
+  async resume() {
+    const unsettled = await this.store.listUnsettledTransactions();
+    if (unsettled.length) console.log(`Resuming tracking of ${unsettled.length} transaction(s)`);
+    unsettled.forEach((tx) => this.follow(tx));
+  }
+
+  private follow(tx: TrackedTransaction) {
+    if (this.following.has(tx.id)) return;
+    this.following.add(tx.id);
+    this.poll(tx)
+      .catch((error) => console.error(`Transaction tracking failed for ${tx.signature}:`, error))
+      .finally(() => this.following.delete(tx.id));
+  }
+
+  private async poll(tx: TrackedTransaction) {
+    const interval = this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const timeout = this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const finalizeTimeout = this.options.finalizeTimeoutMs ?? DEFAULT_FINALIZE_TIMEOUT_MS;
+    let current = tx;
+    // Unseen transactions give up when their blockhash expires; seen ones get longer to finalize
+    const deadline = () => current.createdAt + (current.status === 'pending' ? timeout : Math.max(timeout, finalizeTimeout));
+
+    // Checks at least once, so transactions resumed after a long downtime still get a final status
+    do {
+      await new Promise((resolve) => setTimeout(resolve, interval));
+      let result: TransactionStatusResult;
+      try {
+        result = await this.options.getStatus(current.signature, current.network);
+      } catch (error) {
+        console.warn(`Status check failed for ${current.signature}:`, (error as Error).message);
+        continue;
+      }
+      if (result.status !== current.status) {
+        current = { ...current, status: result.status, error: result.error, updatedAt: Date.now() };
+        await this.save(current);
+      }
+    } while (!isSettled(current) && Date.now() < deadline());
+
+    // Never seen on-chain within the blockhash lifetime: it can no longer land
+    if (current.status === 'pending') {
+      await this.save({ ...current, status: 'expired', error: 'Not seen on-chain before its blockhash expired', updatedAt: Date.now() });
+    } else if (current.status === 'processed') {
+      // Only ever seen on a fork that was dropped
+      await this.save({ ...current, status: 'expired', error: 'Processed but never confirmed before its blockhash expired', updatedAt: Date.now() });
+    } else if (current.status === 'confirmed') {
+      // Voted on by a supermajority, so it won't be rolled back; finalization just wasn't observed
+      const now = Date.now();
+      await this.save({ ...current, settledAt: now, updatedAt: now });
+    }
+  }
+
+  private async save(tx: TrackedTransaction) {
+    await this.store.saveTransaction(tx);
+    await this.options.onUpdate(tx).catch((error) => console.error(`Transaction update handler failed for ${tx.signature}:`, error));
+  }
+}
@@ -0,0 +1,206 @@
+// Shared types used by the bot handlers, the services and the storage layer.
+
+export type SolanaNetwork = 'devnet' | 'mainnet-beta';
+
+/**
+ * A secret key sealed by the key vault (AES-256-GCM, all binary fields base64).
+ */
+export interface EncryptedSecret {
+  version: 1;
+  passphraseProtected: boolean;
+  salt: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+export interface WalletData {
+  publicKey: string;
+  encryptedKey?: EncryptedSecret;
+  privateKey?: string; // Legacy plaintext Base58 key; migrated to encryptedKey on startup
+}
+
+export interface PositionData {
+  pool: string;
+  position?: string; // On-chain position address, when the provider reports one
+  lowerBin: number;
+  upperBin: number;
+  liquidity: number; // Changed to number for cleaner comparison
+  feesEarned: number; // Changed to number for cleaner comparison
+  amountX: number; // Token amounts held by the position, in UI units
+  amountY: number;
+  tokenX: string; // Token symbols of the pool
+  tokenY: string;
+  tokenXMint?: string;
+  tokenYMint?: string;
+}
+
+/**
+ * A remove-then-add rebalance run through DlmmService, persisted so partial failures can be followed up.
+ */
+export interface RebalanceOperation {
+  id: string;
+  network?: SolanaNetwork; // Unset on operations from before network switching, which ran on devnet
+  pool: string;
+  position: string;
+  strategy: string;
+  fromRange: { lowerBin: number; upperBin: number };
+  toRange: { lowerBin: number; upperBin: number };
+  amountX: number; // From the recommendation until the remove step, then what it withdrew
+  amountY: number;
+  // 'partial' = liquidity was removed but could not be re-added
+  status: 'pending' | 'removed' | 'completed' | 'partial' | 'failed';
+  removeSignature?: string;
+  addSignature?: string;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A position opted into auto-rebalancing, with the counters the poller needs between runs.
+ */
+export interface AutoRebalanceRule {
+  network: SolanaNetwork;
+  position: string;
+  pool: string;
+  strategy: string;
+  enabled: boolean; // false = paused
+  // Consecutive out-of-range polls required before re-centring
+  outOfRangePolls: number;
+  maxPerDay: number;
+  // Fees the position must have earned before a rebalance is worth its network fees
+  minFeesEarned: number;
+  consecutiveOutOfRange: number;
+  rebalanceTimes: number[]; // Timestamps of auto-rebalances in the last 24 hours
+  lastTargetRange?: { lowerBin: number; upperBin: number };
+  lastNotice?: string; // Last skip reason sent to the user, so it isn't repeated every poll
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type TransactionKind = 'add_liquidity' | 'remove_liquidity' | 'claim_fees';
+
+// 'expired' = never seen on-chain before the tracker gave up (e.g. the blockhash expired)
+export type TransactionStatus = 'pending' | 'processed' | 'confirmed' | 'finalized' | 'failed' | 'expired';
+
+/**
+ * A submitted transaction followed by the tracker until it settles.
+ * The chat/message ids let the tracker keep editing the status message, even after a restart.
+ */
+export interface TrackedTransaction {
+  id: string;
+  userId: number;
+  kind: TransactionKind;
+  params: Record<string, string | number>;
+  signature: string;
+  network: SolanaNetwork;
+  status: TransactionStatus;
+  error?: string;
+  settledAt?: number; // Set when tracking gave up waiting for a confirmed transaction to finalize
+  chatId?: number;
+  messageId?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type AddLiquidityWizardStep = 'pool' | 'range' | 'price' | 'shape' | 'amountX' | 'amountY' | 'review';
+
+/**
+ * Progress through the guided add-liquidity flow. Kept in the session so it survives restarts.
+ */
+export interface AddLiquidityWizardState {
+  step: AddLiquidityWizardStep;
+  history: AddLiquidityWizardStep[]; // Previous steps, for the Back button
+  pool?: string;
+  lowerBin?: number;
+  upperBin?: number;
+  shape?: string;
+  amountX?: string;
+  amountY?: string;
+}
+
+export type AlertRuleKind = 'out_of_range' | 'price_above' | 'price_below' | 'fees_above' | 'balance_below' | 'position_changed';
+
+/**
+ * A user-defined alert checked on every poll. `triggered` and `lastSnapshot` hold what the rule saw last,
+ * so an alert goes out once when its condition starts to hold rather than on every poll.
+ */
+export interface AlertRule {
+  id: string;
+  network: SolanaNetwork;
+  kind: AlertRuleKind;
+  position?: string; // Position rules: the one position to watch; all positions when unset
+  pool?: string; // Price rules
+  threshold?: number; // Price, fee amount or SOL balance, depending on the kind
+  cooldownMinutes: number;
+  muted: boolean;
+  triggered: boolean;
+  lastFiredAt?: number;
+  lastSnapshot?: string; // Change rules: fingerprint of the position at the last poll
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Hours in the user's local time during which alerts are held back. `endHour` may be before `startHour`.
+ */
+export interface QuietHours {
+  startHour: number;
+  endHour: number;
+  utcOffsetMinutes: number;
+}
+
+/**
+ * When the user's digest goes out, in their local time. `weekday` (0 = Sunday) only applies to weekly digests.
+ */
+export interface DigestSettings {
+  frequency: 'daily' | 'weekly';
+  hour: number;
+  weekday: number;
+  utcOffsetMinutes: number;
+  enabledAt: number; // The first digest covers the time since then
+  lastSentAt?: number;
+}
+
+/**
+ * One position as a poll saw it, kept as history for PnL reports. Amounts are in UI units, `price` is
+ * token X in token Y, so values derived from a snapshot are in token Y.
+ */
+export interface PositionSnapshot {
+  network: SolanaNetwork;
+  position: string; // Position address, or pool and range when the provider reports no address
+  pool: string;
+  tokenX: string;
+  tokenY: string;
+  lowerBin: number;
+  upperBin: number;
+  liquidity: number;
+  amountX: number;
+  amountY: number;
+  feesEarned: number; // Uncollected fees as the provider reports them; drops back when they are claimed
+  price: number;
+  inRange: boolean;
+  at: number;
+}
+
+export interface UserState {
+  lastBalance: number;
+  lastPositions: PositionData[]; // Use the defined type
+  network: SolanaNetwork; // Cluster the user works on; wallets and alert rules belong to it
+  lastFaucetTime?: number; // Track last faucet request
+  lastPortfolio?: { totalUsd: number; at: number }; // Portfolio value at the last wallet overview
+  quietHours?: QuietHours;
+  pollIntervalMinutes?: number; // How often the poller checks this user; the bot default when unset
+  digest?: DigestSettings;
+}
+
+/**
+ * Returns a fresh state for a user that has never been polled.
+ */
+export const createDefaultUserState = (): UserState => ({
+  lastBalance: 0,
+  lastPositions: [],
+  network: 'devnet',
+  lastFaucetTime: 0,
+});
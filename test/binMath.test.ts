@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BIN_ID_OFFSET,
+  binPrice,
+  getBinIdFromPrice,
+  getPriceFromBinId,
+  parsePriceRange,
+  parseRemovePercent,
+  priceRangeToBinRange,
+  priceToBinId,
+  removedBinRange,
+} from '../src/services/binMath.js';
+import { InvalidInputError } from '../src/services/errors.js';
+
+describe('getPriceFromBinId', () => {
+  it('matches the reference values for bin step 1 with 6/6 decimals', () => {
+    expect(getPriceFromBinId(BIN_ID_OFFSET, 1, 6, 6)).toBe(1);
+    expect(getPriceFromBinId(BIN_ID_OFFSET + 100, 1, 6, 6)).toBeCloseTo(1.01005, 5);
+    expect(getPriceFromBinId(BIN_ID_OFFSET - 100, 1, 6, 6)).toBeCloseTo(1 / 1.0100496621, 9);
+  });
+
+  it('matches the reference values for bin step 20 with SOL/USDC decimals', () => {
+    expect(getPriceFromBinId(BIN_ID_OFFSET, 20, 9, 6)).toBeCloseTo(1000, 9);
+    expect(getPriceFromBinId(BIN_ID_OFFSET - 1000, 20, 9, 6)).toBeCloseTo(135.61, 2);
+  });
+
+  it('grows by one bin step per bin', () => {
+    const price = getPriceFromBinId(BIN_ID_OFFSET + 42, 25, 9, 6);
+    expect(getPriceFromBinId(BIN_ID_OFFSET + 43, 25, 9, 6) / price).toBeCloseTo(1.0025, 12);
+  });
+});
+
+describe('getBinIdFromPrice', () => {
+  it('maps the reference prices back to their bins', () => {
+    expect(getBinIdFromPrice(1, 1, 6, 6)).toBe(BIN_ID_OFFSET);
+    expect(getBinIdFromPrice(1000, 20, 9, 6)).toBe(BIN_ID_OFFSET);
+    expect(getBinIdFromPrice(135.60586357962956, 20, 9, 6)).toBe(BIN_ID_OFFSET - 1000);
+  });
+
+  it.each([1, 10, 20, 25, 100])('round-trips every bin at bin step %i', (binStep) => {
+    for (const offset of [-5000, -1000, -1, 0, 1, 250, 5000]) {
+      const binId = BIN_ID_OFFSET + offset;
+      expect(getBinIdFromPrice(getPriceFromBinId(binId, binStep, 9, 6), binStep, 9, 6)).toBe(binId);
+    }
+  });
+
+  it('rounds prices between bins as asked', () => {
+    const between = Math.sqrt(getPriceFromBinId(BIN_ID_OFFSET + 10, 20, 9, 6) * getPriceFromBinId(BIN_ID_OFFSET + 11, 20, 9, 6)) * 1.0001;
+    expect(getBinIdFromPrice(between, 20, 9, 6, 'down')).toBe(BIN_ID_OFFSET + 10);
+    expect(getBinIdFromPrice(between, 20, 9, 6, 'up')).toBe(BIN_ID_OFFSET + 11);
+    expect(getBinIdFromPrice(between, 20, 9, 6)).toBe(BIN_ID_OFFSET + 11);
+  });
+
+  it.each([0, -1, NaN])('rejects the price %s', (price) => {
+    expect(() => getBinIdFromPrice(price, 20, 9, 6)).toThrow(InvalidInputError);
+  });
+});
+
+describe('priceToBinId', () => {
+  it('is the inverse of binPrice around any active bin', () => {
+    for (const binStep of [1, 20, 100]) {
+      for (const binId of [-300, 0, 17, 5000]) {
+        expect(priceToBinId(binPrice(150, binStep, binId, 17), 150, binStep, 17)).toBe(binId);
+      }
+    }
+  });
+
+  it('puts the active price in the active bin', () => {
+    expect(priceToBinId(150, 150, 25, BIN_ID_OFFSET)).toBe(BIN_ID_OFFSET);
+  });
+
+  it('rounds down and up for range bounds', () => {
+    // At 150 and bin step 25, 153.5 lies between bins 9 (≈153.41) and 10 (≈153.79), 149.7 between -1 (≈149.63) and 0
+    expect(priceToBinId(153.5, 150, 25, 0, 'down')).toBe(9);
+    expect(priceToBinId(153.5, 150, 25, 0, 'up')).toBe(10);
+    expect(priceToBinId(149.7, 150, 25, 0, 'down')).toBe(-1);
+    expect(priceToBinId(149.7, 150, 25, 0, 'up')).toBe(0);
+  });
+
+  it('rejects non-positive prices', () => {
+    expect(() => priceToBinId(0, 150, 25, 0)).toThrow(InvalidInputError);
+  });
+});
+
+describe('priceRangeToBinRange', () => {
+  it('covers the whole price range', () => {
+    const { lowerBin, upperBin } = priceRangeToBinRange(140, 165, 150, 25, 0);
+    expect(binPrice(150, 25, lowerBin, 0)).toBeLessThanOrEqual(140);
+    expect(binPrice(150, 25, lowerBin + 1, 0)).toBeGreaterThan(140);
+    expect(binPrice(150, 25, upperBin, 0)).toBeGreaterThanOrEqual(165);
+    expect(binPrice(150, 25, upperBin - 1, 0)).toBeLessThan(165);
+  });
+
+  it('maps exact bin prices to exactly those bins', () => {
+    const low = binPrice(150, 10, -20, 0);
+    const high = binPrice(150, 10, 30, 0);
+    expect(priceRangeToBinRange(low, high, 150, 10, 0)).toEqual({ lowerBin: -20, upperBin: 30 });
+  });
+
+  it.each([
+    [165, 140],
+    [150, 150],
+    [0, 10],
+    [-5, 10],
+  ])('rejects the range %s-%s', (low, high) => {
+    expect(() => priceRangeToBinRange(low, high, 150, 25, 0)).toThrow(InvalidInputError);
+  });
+});
+
+describe('parsePriceRange', () => {
+  it.each([
+    ['140-165', { low: 140, high: 165 }],
+    ['0.0041-0.0045', { low: 0.0041, high: 0.0045 }],
+    [' 140 - 165 ', { low: 140, high: 165 }],
+    ['.5-1', { low: 0.5, high: 1 }],
+  ])('parses "%s"', (text, expected) => {
+    expect(parsePriceRange(text)).toEqual(expected);
+  });
+
+  it.each(['165-140', '150-150', '0-10', 'abc', '140', '140-', '-140-165', '140-165-170', '1e3-2e3'])('rejects "%s"', (text) => {
+    expect(parsePriceRange(text)).toBeNull();
+  });
+});
+
+describe('removedBinRange', () => {
+  it('takes that share of whole bins from the top of the range', () => {
+    expect(removedBinRange(100, 199, 25)).toEqual({ firstBin: 175, lastBin: 199, binCount: 100, binsToRemove: 25 });
+    expect(removedBinRange(100, 199, 100)).toMatchObject({ firstBin: 100, binsToRemove: 100 });
+  });
+
+  it('removes at least one bin', () => {
+    expect(removedBinRange(0, 9, 1)).toMatchObject({ firstBin: 9, binsToRemove: 1 });
+  });
+
+  it.each(['0', '101', '-5', 'abc', ''])('rejects %j as a removal amount', (amount) => {
+    expect(() => parseRemovePercent(amount)).toThrow(InvalidInputError);
+  });
+});
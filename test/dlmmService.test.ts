@@ -0,0 +1,72 @@
+import { Keypair } from '@solana/web3.js';
+import { describe, expect, it } from 'vitest';
+import { AddLiquidityParams, DlmmProvider } from '../src/services/dlmmProvider.js';
+import { DlmmService } from '../src/services/dlmmService.js';
+import { MOCK_POOL_ADDRESS, MockDLMM } from '../src/services/mockDlmmProvider.js';
+import { RebalanceRecommendation } from '../src/services/rebalanceEngine.js';
+import { RebalanceOperation } from '../src/types.js';
+
+// The mock's only position holds 3.25 SOL and 505.1 USDC over bins 100-200
+const recommendation = async (): Promise<RebalanceRecommendation> => {
+  const [position] = await MockDLMM.getUserPositions(Keypair.generate().publicKey, null);
+  return {
+    pool: MOCK_POOL_ADDRESS,
+    position: position.position,
+    tokenX: 'SOL',
+    tokenY: 'USDC',
+    strategy: 'spot',
+    action: 'rebalance',
+    reason: 'Out of range',
+    inRange: false,
+    activeBin: 300,
+    binStep: 20,
+    currentRange: { lowerBin: 100, upperBin: 200 },
+    driftBins: 150,
+    driftPercent: 34.9,
+    proposedRange: { lowerBin: 250, upperBin: 350 },
+    // Stale: the position has changed since the suggestion was made
+    amountX: 9,
+    amountY: 900,
+    valueY: 2270,
+    distribution: [],
+  };
+};
+
+describe('executeRebalance', () => {
+  it('re-adds the amounts the remove step withdrew, not the recommendation’s', async () => {
+    const deposits: AddLiquidityParams[] = [];
+    const provider: DlmmProvider = {
+      ...MockDLMM,
+      async createPositionAndAddLiquidity(params) {
+        deposits.push(params);
+        return 'addTx';
+      },
+    };
+    const updates: RebalanceOperation[] = [];
+    const service = new DlmmService({ user: Keypair.generate(), poolAddress: MOCK_POOL_ADDRESS, network: 'devnet', provider });
+
+    const op = await service.executeRebalance(await recommendation(), (update) => {
+      updates.push(update);
+    });
+
+    expect(op.status).toBe('completed');
+    expect(deposits).toHaveLength(1);
+    expect(deposits[0]).toMatchObject({ lowerBin: 250, upperBin: 350, amountX: '3.250000', amountY: '505.100000' });
+    expect(updates.find((u) => u.status === 'removed')).toMatchObject({ amountX: 3.25, amountY: 505.1 });
+  });
+
+  it('keeps the withdrawn amounts on a partial rebalance so the user can finish it', async () => {
+    const provider: DlmmProvider = {
+      ...MockDLMM,
+      async createPositionAndAddLiquidity() {
+        throw new Error('Blockhash expired');
+      },
+    };
+    const service = new DlmmService({ user: Keypair.generate(), poolAddress: MOCK_POOL_ADDRESS, network: 'devnet', provider });
+
+    const op = await service.executeRebalance(await recommendation());
+
+    expect(op.status).toBe('partial');
+    expect(op).toMatchObject({ amountX: 3.25, amountY: 505.1 });
+  });
+});
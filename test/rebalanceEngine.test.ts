@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { recommendRebalance } from '../src/services/rebalanceEngine.js';
+import { PositionData } from '../src/types.js';
+
+// Like the mock position: 3.25 SOL and 505.1 USDC over bins 100-200, with liquidity in its own unit
+const position: PositionData = {
+  pool: 'pool',
+  position: 'P1',
+  lowerBin: 100,
+  upperBin: 200,
+  liquidity: 1000,
+  feesEarned: 0,
+  amountX: 3.25,
+  amountY: 505.1,
+  tokenX: 'SOL',
+  tokenY: 'USDC',
+};
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+describe('recommendRebalance', () => {
+  it.each(['spot', 'curve', 'bid-ask'] as const)('redeploys the position’s token amounts (%s)', (strategy) => {
+    const rec = recommendRebalance(position, { activeBin: 300, binStep: 20, price: 150 }, { strategy });
+
+    expect(rec).toMatchObject({ action: 'rebalance', proposedRange: { lowerBin: 250, upperBin: 350 }, tokenX: 'SOL', tokenY: 'USDC' });
+    expect(rec.amountX).toBe(3.25);
+    expect(rec.amountY).toBe(505.1);
+    expect(rec.valueY).toBeCloseTo(3.25 * 150 + 505.1);
+    expect(sum(rec.distribution.map((bin) => bin.amountX))).toBeCloseTo(3.25);
+    expect(sum(rec.distribution.map((bin) => bin.amountY))).toBeCloseTo(505.1);
+  });
+
+  it('puts token X above the active bin and token Y below it', () => {
+    const rec = recommendRebalance(position, { activeBin: 300, binStep: 20, price: 150 });
+
+    for (const bin of rec.distribution) {
+      if (bin.binId < 300) expect(bin.amountX).toBe(0);
+      if (bin.binId > 300) expect(bin.amountY).toBe(0);
+    }
+    const active = rec.distribution.find((bin) => bin.binId === 300)!;
+    expect(active.amountX).toBeGreaterThan(0);
+    expect(active.amountY).toBeGreaterThan(0);
+  });
+
+  it('holds when the active bin is well inside the range', () => {
+    expect(recommendRebalance(position, { activeBin: 150, binStep: 20, price: 150 }).action).toBe('hold');
+  });
+});
@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BotStore, createStore } from '../src/services/storage.js';
+import { AutoRebalanceRule, PositionSnapshot, SolanaNetwork } from '../src/types.js';
+
+const snapshot = (at: number, network: SolanaNetwork = 'devnet', position = 'P1'): PositionSnapshot => ({
+  network,
+  position,
+  pool: 'pool',
+  tokenX: 'SOL',
+  tokenY: 'USDC',
+  lowerBin: 1,
+  upperBin: 5,
+  liquidity: 10,
+  amountX: 1,
+  amountY: 2,
+  feesEarned: at / 1000,
+  price: 150,
+  inRange: true,
+  at,
+});
+
+const rule = (network: SolanaNetwork, position = 'P1', createdAt = 1000): AutoRebalanceRule => ({
+  network,
+  position,
+  pool: 'pool',
+  strategy: 'spot',
+  enabled: true,
+  outOfRangePolls: 3,
+  maxPerDay: 2,
+  minFeesEarned: 0,
+  consecutiveOutOfRange: 0,
+  rebalanceTimes: [],
+  createdAt,
+  updatedAt: createdAt,
+});
+
+describe.each(['json', 'sqlite'])('position snapshots (%s storage)', (driver) => {
+  let dir: string;
+  let store: BotStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bot-store-'));
+    store = createStore(driver, driver === 'json' ? dir : path.join(dir, 'bot.db'));
+  });
+
+  afterEach(async () => {
+    await store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("lists one user's snapshots on one network since a time, oldest first", async () => {
+    await store.savePositionSnapshots(1, [snapshot(3000), snapshot(1000)]);
+    await store.savePositionSnapshots(1, [snapshot(2000), snapshot(2500, 'mainnet-beta')]);
+    await store.savePositionSnapshots(2, [snapshot(2000)]);
+
+    expect((await store.listPositionSnapshots(1, 'devnet')).map((s) => s.at)).toEqual([1000, 2000, 3000]);
+    expect((await store.listPositionSnapshots(1, 'devnet', 2000)).map((s) => s.at)).toEqual([2000, 3000]);
+    expect((await store.listPositionSnapshots(1, 'mainnet-beta')).map((s) => s.at)).toEqual([2500]);
+    expect(await store.listPositionSnapshots(3, 'devnet')).toEqual([]);
+    expect((await store.listPositionSnapshots(1, 'devnet'))[0]).toEqual(snapshot(1000));
+  });
+
+  it('prunes every user before a time and reports how many went', async () => {
+    await store.savePositionSnapshots(1, [snapshot(1000), snapshot(2000), snapshot(3000)]);
+    await store.savePositionSnapshots(2, [snapshot(1500), snapshot(2500, 'mainnet-beta')]);
+
+    expect(await store.deletePositionSnapshotsBefore(2000)).toBe(2);
+    expect((await store.listPositionSnapshots(1, 'devnet')).map((s) => s.at)).toEqual([2000, 3000]);
+    expect(await store.listPositionSnapshots(2, 'devnet')).toEqual([]);
+    expect((await store.listPositionSnapshots(2, 'mainnet-beta')).map((s) => s.at)).toEqual([2500]);
+    expect(await store.deletePositionSnapshotsBefore(2000)).toBe(0);
+  });
+});
+
+describe('legacy snapshot migration', () => {
+  it('moves snapshots from the positionSnapshots collection into the log', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bot-store-'));
+    const legacy = { '1:P1:2000': snapshot(2000), '1:P1:1000': snapshot(1000), '2:P2:1500': snapshot(1500, 'devnet', 'P2') };
+    fs.writeFileSync(path.join(dir, 'positionSnapshots.json'), JSON.stringify(legacy));
+    const store = createStore('json', dir);
+    try {
+      expect(await store.migrateLegacyPositionSnapshots()).toBe(3);
+      expect((await store.listPositionSnapshots(1, 'devnet')).map((s) => s.at)).toEqual([1000, 2000]);
+      expect((await store.listPositionSnapshots(2, 'devnet')).map((s) => s.position)).toEqual(['P2']);
+      expect(await store.migrateLegacyPositionSnapshots()).toBe(0);
+    } finally {
+      await store.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe.each(['json', 'sqlite'])('auto-rebalance rules (%s storage)', (driver) => {
+  let dir: string;
+  let store: BotStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bot-store-'));
+    store = createStore(driver, driver === 'json' ? dir : path.join(dir, 'bot.db'));
+  });
+
+  afterEach(async () => {
+    await store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps a rule per network for the same position address', async () => {
+    await store.saveAutoRebalanceRule(1, rule('devnet'));
+    await store.saveAutoRebalanceRule(1, { ...rule('mainnet-beta'), strategy: 'curve' });
+
+    expect((await store.listAutoRebalanceRules(1, 'devnet')).map((r) => r.strategy)).toEqual(['spot']);
+    expect((await store.listAutoRebalanceRules(1, 'mainnet-beta')).map((r) => r.strategy)).toEqual(['curve']);
+
+    await store.deleteAutoRebalanceRule(1, 'mainnet-beta', 'P1');
+    expect(await store.listAutoRebalanceRules(1, 'mainnet-beta')).toEqual([]);
+    expect(await store.listAutoRebalanceRules(1, 'devnet')).toHaveLength(1);
+  });
+});
+
+describe('legacy auto-rebalance rule migration', () => {
+  it('assigns rules saved without a network to devnet', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bot-store-'));
+    const { network, ...legacy } = rule('devnet');
+    fs.writeFileSync(path.join(dir, 'autoRebalanceRules.json'), JSON.stringify({ '1:P1': legacy }));
+    const store = createStore('json', dir);
+    try {
+      expect(await store.migrateLegacyAutoRebalanceRules()).toBe(1);
+      expect(await store.listAutoRebalanceRules(1, 'devnet')).toEqual([rule(network)]);
+      expect(await store.listAutoRebalanceRules(1, 'mainnet-beta')).toEqual([]);
+      expect(await store.migrateLegacyAutoRebalanceRules()).toBe(0);
+    } finally {
+      await store.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
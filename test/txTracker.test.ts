@@ -0,0 +1,64 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TransactionStatusResult } from '../src/services/dlmmProvider.js';
+import { BotStore, createStore } from '../src/services/storage.js';
+import { isSettled, TxTracker } from '../src/services/txTracker.js';
+import { TrackedTransaction } from '../src/types.js';
+
+describe('TxTracker', () => {
+  let dir: string;
+  let store: BotStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bot-tx-'));
+    store = createStore('json', dir);
+  });
+
+  afterEach(async () => {
+    await store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Tracks one transaction whose status stays `status`, and resolves with every update once tracking ends
+  const trackStuck = async (status: TransactionStatusResult['status']) => {
+    const updates: TrackedTransaction[] = [];
+    const tracker = new TxTracker(store, {
+      getStatus: async () => ({ status }),
+      onUpdate: async (tx) => {
+        updates.push(tx);
+      },
+      pollIntervalMs: 1,
+      timeoutMs: 20,
+      finalizeTimeoutMs: 60,
+    });
+    await tracker.track(1, { kind: 'remove_liquidity', params: { position: 'P1', amount: '100' }, signature: 'sig', network: 'devnet' });
+    await vi.waitFor(() => expect(isSettled(updates[updates.length - 1])).toBe(true), { timeout: 2000, interval: 5 });
+    return updates;
+  };
+
+  it('settles a transaction still confirmed at the finalize deadline', async () => {
+    const updates = await trackStuck('confirmed');
+    const last = updates[updates.length - 1];
+
+    expect(last.status).toBe('confirmed');
+    expect(last.settledAt).toBeGreaterThanOrEqual(last.createdAt + 60);
+    expect(await store.listUnsettledTransactions()).toEqual([]);
+  });
+
+  it('expires a transaction that was processed but never confirmed', async () => {
+    const updates = await trackStuck('processed');
+
+    expect(updates[updates.length - 1].status).toBe('expired');
+    expect(await store.listUnsettledTransactions()).toEqual([]);
+  });
+
+  it('expires a transaction never seen on-chain at the shorter timeout', async () => {
+    const updates = await trackStuck('pending');
+    const last = updates[updates.length - 1];
+
+    expect(last.status).toBe('expired');
+    expect(last.updatedAt - last.createdAt).toBeLessThan(60);
+  });
+});